@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import { AlertStore, detectAlerts } from "./AlertStore.js";
+import { StoredBill } from "./BillStore.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+describe("AlertStore", () => {
+  const bill = (
+    id: string,
+    amount: number | null,
+    dueDate: string,
+    overrides: Partial<StoredBill> = {}
+  ): StoredBill => ({
+    id,
+    sourceEmailIds: [`msg-${id}`],
+    emailSubject: "Your bill",
+    emailFrom: "billing@agl.com.au",
+    emailDate: "2025-01-01T00:00:00.000Z",
+    isBill: true,
+    company: "AGL Energy",
+    amount,
+    currency: "AUD",
+    dueDate,
+    billType: "electricity",
+    status: "unpaid",
+    confidence: 90,
+    validationErrors: [],
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  });
+
+  const history = [bill("jan", 150, "2025-01-15"), bill("feb", 160, "2025-02-15"), bill("mar", 155, "2025-03-15")];
+
+  describe("detectAlerts", () => {
+    it("should flag a bill more than 20% above the trailing median", () => {
+      const [alert] = detectAlerts(bill("apr", 200, "2025-04-15"), history);
+
+      expect(alert).toMatchObject({
+        kind: "price_spike",
+        billId: "apr",
+        amount: 200,
+        baseline: 155,
+        changePercent: 29,
+        message: "AGL Energy bill of $200.00 is 29% above the usual $155.00",
+      });
+    });
+
+    it("should let ordinary variation through", () => {
+      expect(detectAlerts(bill("apr", 186, "2025-04-15"), history)).toEqual([]);
+      expect(detectAlerts(bill("apr", 90, "2025-04-15"), history)).toEqual([]);
+    });
+
+    it("should only compare with earlier bills from the same biller", () => {
+      const others = [
+        ...history.map((b) => ({ ...b, id: `origin-${b.id}`, company: "Origin", amount: 50 })),
+        bill("later", 20, "2025-06-15"),
+      ];
+
+      expect(detectAlerts(bill("apr", 170, "2025-04-15"), [...history, ...others])).toEqual([]);
+    });
+
+    it("should keep a second account with the same company apart", () => {
+      const home = history.map((b) => ({ ...b, accountNumber: "1111 2222" }));
+      const rental = bill("apr", 200, "2025-04-15", { accountNumber: "3333 4444" });
+
+      expect(detectAlerts(rental, [...home, { ...rental, id: "mar-rental", dueDate: "2025-03-15" }])).toEqual([]);
+      expect(detectAlerts({ ...rental, accountNumber: "11112222" }, home)).toHaveLength(1);
+    });
+
+    it("should leave credit card balances alone", () => {
+      const cards = history.map((b) => ({ ...b, billType: "credit_card" as const }));
+
+      expect(detectAlerts(bill("apr", 900, "2025-04-15", { billType: "credit_card" }), cards)).toEqual([]);
+    });
+
+    it("should need a couple of earlier bills before calling a spike", () => {
+      expect(detectAlerts(bill("feb", 300, "2025-02-15"), [bill("jan", 150, "2025-01-15")])).toEqual([]);
+    });
+
+    it("should report any subscription price change", () => {
+      const netflix = (id: string, amount: number, dueDate: string) =>
+        bill(id, amount, dueDate, { company: "Netflix", billType: "subscription" });
+      const earlier = [netflix("jan", 22.99, "2025-01-03")];
+
+      expect(detectAlerts(netflix("feb", 24.99, "2025-02-03"), earlier)).toEqual([
+        expect.objectContaining({
+          kind: "price_change",
+          baseline: 22.99,
+          changePercent: 9,
+          message: "Netflix went up from $22.99 to $24.99",
+        }),
+      ]);
+      expect(detectAlerts(netflix("feb", 22.99, "2025-02-03"), earlier)).toEqual([]);
+    });
+
+    it("should compare spikes in the base currency and show the bill's own amount", () => {
+      const usd = (id: string, amount: number, baseAmount: number | null, dueDate: string) =>
+        bill(id, amount, dueDate, { company: "AWS", currency: "USD", baseCurrency: "AUD", baseAmount });
+      const earlier = [usd("jan", 100, 150, "2025-01-15"), usd("feb", 100, 160, "2025-02-15")];
+
+      expect(detectAlerts(usd("mar", 120, 198, "2025-03-15"), earlier)).toEqual([
+        expect.objectContaining({
+          kind: "price_spike",
+          amount: 198,
+          baseline: 155,
+          currency: "AUD",
+          message: "AWS bill of USD 120.00 ($198.00) is 28% above the usual $155.00",
+        }),
+      ]);
+      // No rate yet: nothing to compare until the bill is converted
+      expect(detectAlerts(usd("mar", 300, null, "2025-03-15"), earlier)).toEqual([]);
+      expect(detectAlerts(usd("mar", 120, 170, "2025-03-15"), [...earlier, usd("x", 900, null, "2025-02-20")])).toEqual(
+        []
+      );
+    });
+
+    it("should report subscription price changes in their own currency, not FX moves", () => {
+      const netflix = (id: string, amount: number, baseAmount: number, dueDate: string) =>
+        bill(id, amount, dueDate, {
+          company: "Netflix",
+          billType: "subscription",
+          currency: "USD",
+          baseCurrency: "AUD",
+          baseAmount,
+        });
+      const earlier = [netflix("jan", 15.49, 24.1, "2025-01-03")];
+
+      expect(detectAlerts(netflix("feb", 15.49, 25.3, "2025-02-03"), earlier)).toEqual([]);
+      expect(detectAlerts(netflix("feb", 17.99, 28.8, "2025-02-03"), earlier)).toEqual([
+        expect.objectContaining({
+          kind: "price_change",
+          amount: 17.99,
+          baseline: 15.49,
+          currency: "USD",
+          message: "Netflix went up from USD 15.49 to USD 17.99",
+        }),
+      ]);
+    });
+  });
+
+  describe("checkBill", () => {
+    let db: FakeFirestore;
+    let store: AlertStore;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      store = new AlertStore(db as unknown as Firestore);
+    });
+
+    it("should store an alert once per bill", async () => {
+      const spike = bill("apr", 200, "2025-04-15");
+
+      await store.checkBill("user1", spike, history);
+      const [alert] = await store.checkBill("user1", spike, history);
+
+      expect(Object.keys(db.dump("users/user1/alerts"))).toEqual([AlertStore.alertId("apr", "price_spike")]);
+      expect(alert).toMatchObject({ kind: "price_spike", notifiedAt: null });
+      expect(await store.list("user1")).toEqual([alert]);
+    });
+
+    it("should keep the notified time unless the amount changes", async () => {
+      await store.checkBill("user1", bill("apr", 200, "2025-04-15"), history);
+      await db
+        .collection("users")
+        .doc("user1")
+        .collection("alerts")
+        .doc(AlertStore.alertId("apr", "price_spike"))
+        .update({ notifiedAt: 123 });
+
+      expect((await store.checkBill("user1", bill("apr", 200, "2025-04-15"), history))[0].notifiedAt).toBe(123);
+      expect((await store.checkBill("user1", bill("apr", 210, "2025-04-15"), history))[0].notifiedAt).toBeNull();
+    });
+
+    it("should drop the alert when a re-scan corrects the amount", async () => {
+      await store.checkBill("user1", bill("apr", 200, "2025-04-15"), history);
+
+      expect(await store.checkBill("user1", bill("apr", 160, "2025-04-15"), history)).toEqual([]);
+      expect(db.dump("users/user1/alerts")).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { Firestore } from "@google-cloud/firestore";
+import { Currency } from "./BillExtraction.js";
+import { StoredBill } from "./BillStore.js";
+import { DEFAULT_BASE_CURRENCY } from "./FxStore.js";
+import { assignBillers, billDate, billerId, median } from "./RecurringBills.js";
+
+export type AlertKind = "price_spike" | "price_change";
+
+/** Something about a new bill the user should hear about */
+export interface BillAlert {
+  id: string;
+  kind: AlertKind;
+  billId: string;
+  billerId: string;
+  company: string;
+  /** In `currency`: the bill's own for a subscription price change, the base currency for a spike */
+  amount: number;
+  /** What the amount was compared with: the trailing median, or the previous price */
+  baseline: number;
+  currency: Currency;
+  /** Change against the baseline, e.g. 25 for 25% higher */
+  changePercent: number;
+  message: string;
+  createdAt: number;
+  /** When the reminder function last emailed it, null until then */
+  notifiedAt: number | null;
+}
+
+export type DetectedAlert = Omit<BillAlert, "id" | "createdAt" | "notifiedAt">;
+
+type AlertableBill = Pick<
+  StoredBill,
+  | "id"
+  | "company"
+  | "amount"
+  | "currency"
+  | "baseCurrency"
+  | "baseAmount"
+  | "dueDate"
+  | "emailDate"
+  | "billType"
+  | "accountNumber"
+>;
+
+// A bill this far above the biller's trailing median is a spike
+const SPIKE_THRESHOLD = 0.2;
+// How many earlier bills the median is taken over, and the fewest it needs
+const SPIKE_HISTORY = 6;
+const SPIKE_MIN_HISTORY = 2;
+
+/**
+ * Compare a bill with the same biller's earlier bills. Subscriptions raise a
+ * price_change whenever the price moves in their own currency (so exchange
+ * rates alone don't raise one); anything else raises a price_spike when its
+ * base-currency amount is more than 20% above the trailing median. Credit
+ * card balances follow the user's spending rather than a price, so they
+ * never raise one, and a foreign bill waiting for an FX rate can't be compared.
+ */
+export function detectAlerts(bill: AlertableBill, history: AlertableBill[]): DetectedAlert[] {
+  if (bill.billType === "credit_card") return [];
+  const keys = assignBillers([bill, ...history.filter((b) => b.id !== bill.id)]);
+  const key = keys.get(bill.id);
+  if (!key || !bill.company || bill.amount === null) return [];
+
+  const date = billDate(bill) || "";
+  const earlier = history
+    .filter((b) => b.id !== bill.id && keys.get(b.id) === key && (billDate(b) || "") < date)
+    .sort((a, b) => (billDate(a) || "").localeCompare(billDate(b) || ""));
+
+  const company = bill.company;
+  const alert = (
+    kind: AlertKind,
+    amount: number,
+    baseline: number,
+    currency: Currency,
+    message: (changePercent: number) => string
+  ): DetectedAlert => {
+    const changePercent = Math.round(((amount - baseline) / baseline) * 100);
+    return {
+      kind,
+      billId: bill.id,
+      billerId: billerId(key),
+      company,
+      amount,
+      baseline,
+      currency,
+      changePercent,
+      message: message(changePercent),
+    };
+  };
+
+  if (bill.billType === "subscription") {
+    const currency = billCurrency(bill);
+    const amount = bill.amount;
+    const previous = earlier
+      .filter((b) => b.amount !== null && billCurrency(b) === currency)
+      .map((b) => b.amount as number)
+      .at(-1);
+    if (previous === undefined || Math.abs(amount - previous) < 0.01) return [];
+    const direction = amount > previous ? "up" : "down";
+    return [
+      alert(
+        "price_change",
+        amount,
+        previous,
+        currency,
+        () => `${company} went ${direction} from ${money(previous, currency)} to ${money(amount, currency)}`
+      ),
+    ];
+  }
+
+  const amount = comparableAmount(bill);
+  if (amount === null) return [];
+  const trailing = earlier
+    .map(comparableAmount)
+    .filter((a): a is number => a !== null)
+    .slice(-SPIKE_HISTORY);
+  if (trailing.length < SPIKE_MIN_HISTORY) return [];
+  const baseline = median(trailing);
+  if (amount <= baseline * (1 + SPIKE_THRESHOLD)) return [];
+
+  const currency = bill.baseCurrency ?? billCurrency(bill);
+  // A foreign bill shows its own amount with the converted one it was compared by
+  const shown =
+    billCurrency(bill) === currency
+      ? money(amount, currency)
+      : `${money(bill.amount, billCurrency(bill))} (${money(amount, currency)})`;
+  return [
+    alert(
+      "price_spike",
+      amount,
+      baseline,
+      currency,
+      (percent) => `${company} bill of ${shown} is ${percent}% above the usual ${money(baseline, currency)}`
+    ),
+  ];
+}
+
+// Bills without a currency are in the base currency
+function billCurrency(bill: AlertableBill): Currency {
+  return bill.currency ?? bill.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+}
+
+// The base-currency amount; bills stored before conversion are in the base currency, and null is a
+// foreign bill still waiting for an FX rate
+function comparableAmount(bill: AlertableBill): number | null {
+  return bill.baseAmount === undefined ? bill.amount : bill.baseAmount;
+}
+
+// "$150.00" for Australian dollars, "USD 15.99" for US dollars
+function money(amount: number, currency: Currency): string {
+  // Intl separates the code with a no-break space; messages are plain text
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency }).format(amount).replace(/\u00a0/g, " ");
+}
+
+/**
+ * Alerts in `users/{uid}/alerts`, one per bill and kind so re-scanning a bill
+ * updates its alert instead of raising another.
+ */
+export class AlertStore {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  static alertId(billId: string, kind: AlertKind): string {
+    return `alert_${kind}_${billId}`;
+  }
+
+  private collection(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("alerts");
+  }
+
+  /**
+   * Check a just-upserted bill against the user's other bills and store what
+   * it raises. Alerts the bill no longer raises (say a re-scan corrected its
+   * amount) are removed. Returns the bill's current alerts. `history` is
+   * loaded once by the caller (see BillStore.list) so a scan checking many
+   * bills doesn't read every bill again for each one.
+   */
+  async checkBill(uid: string, bill: StoredBill, history: StoredBill[]): Promise<BillAlert[]> {
+    const detected = detectAlerts(bill, history);
+
+    const alerts: BillAlert[] = [];
+    for (const kind of ["price_spike", "price_change"] as AlertKind[]) {
+      const ref = this.collection(uid).doc(AlertStore.alertId(bill.id, kind));
+      const found = detected.find((a) => a.kind === kind);
+      const existing = await ref.get();
+
+      if (!found) {
+        if (existing.exists) await ref.delete();
+        continue;
+      }
+
+      const previous = existing.exists ? (existing.data() as BillAlert) : null;
+      const alert: BillAlert = {
+        ...found,
+        id: ref.id,
+        createdAt: previous?.createdAt ?? Date.now(),
+        // A different amount is news again
+        notifiedAt: previous?.amount === found.amount ? previous.notifiedAt : null,
+      };
+      await ref.set(alert);
+      alerts.push(alert);
+    }
+    return alerts;
+  }
+
+  /** Newest first */
+  async list(uid: string): Promise<BillAlert[]> {
+    const snapshot = await this.collection(uid).orderBy("createdAt", "desc").get();
+    return snapshot.docs.map((doc) => doc.data() as BillAlert);
+  }
+}
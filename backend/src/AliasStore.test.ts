@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import { AliasStore, DEFAULT_ALIASES, normalizeDescription } from "./AliasStore.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+describe("AliasStore", () => {
+  let db: FakeFirestore;
+  let store: AliasStore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    store = new AliasStore(db as unknown as Firestore);
+  });
+
+  describe("normalizeDescription", () => {
+    it.each([
+      ["AGL ENERGY BPAY 123456789", "agl energy"],
+      ["SQ *CITY OF SYDNEY", "city of sydney"],
+      ["Telstra Pty Ltd", "telstra"],
+      ["DD 4417-2210", ""],
+    ])("should normalise %j", (input, expected) => {
+      expect(normalizeDescription(input)).toBe(expected);
+    });
+  });
+
+  describe("list", () => {
+    it("should seed a new user's table from the defaults", async () => {
+      const aliases = await store.list("user1");
+
+      expect(aliases).toHaveLength(DEFAULT_ALIASES.length);
+      expect(Object.keys(db.dump("users/user1/aliases"))).toHaveLength(DEFAULT_ALIASES.length);
+      expect(aliases.every((a) => a.source === "seed")).toBe(true);
+    });
+
+    it("should only seed once", async () => {
+      await store.list("user1");
+      await store.delete("user1", AliasStore.aliasId("amzn", "amazon"));
+
+      const aliases = await store.list("user1");
+
+      expect(aliases).toHaveLength(DEFAULT_ALIASES.length - 1);
+    });
+
+    it("should not re-seed a table the user has emptied", async () => {
+      for (const alias of await store.list("user1")) await store.delete("user1", alias.id);
+
+      expect(await store.list("user1")).toEqual([]);
+      expect(Object.keys(db.dump("users/user1/aliases"))).toHaveLength(0);
+    });
+
+    it("should not re-seed a table seeded before seeding was recorded", async () => {
+      await db.collection("users").doc("user1").collection("aliases").doc("alias_x").set({
+        id: "alias_x",
+        pattern: "agl",
+        biller: "electricity",
+        source: "seed",
+        createdAt: 1,
+        updatedAt: 1,
+      });
+
+      expect(await store.list("user1")).toHaveLength(1);
+      expect(db.dump("users/user1/settings").aliases).toBeDefined();
+    });
+  });
+
+  describe("learn", () => {
+    it("should store a confirmed match as a normalised alias", async () => {
+      const alias = await store.learn("user1", "SQ *CITY OF SYDNEY 2010", "Sydney Council Rates", "confirmed");
+
+      expect(alias).toMatchObject({ pattern: "city of sydney", biller: "sydney council rates", source: "confirmed" });
+      expect(db.dump("users/user1/aliases")[alias!.id]).toMatchObject({ pattern: "city of sydney" });
+    });
+
+    it("should update rather than duplicate a repeat confirmation", async () => {
+      const first = await store.learn("user1", "CITY OF SYDNEY", "Sydney Council", "confirmed");
+      const second = await store.learn("user1", "CITY OF SYDNEY 99", "Sydney Council", "corrected");
+
+      expect(second!.id).toBe(first!.id);
+      expect(second!.createdAt).toBe(first!.createdAt);
+      expect(second!.source).toBe("corrected");
+      expect(Object.keys(db.dump("users/user1/aliases"))).toHaveLength(DEFAULT_ALIASES.length + 1);
+    });
+
+    it("should drop the wrong biller's alias on a correction", async () => {
+      await store.learn("user1", "ORIGIN 4417", "Origin Electricity", "confirmed");
+
+      await store.learn("user1", "ORIGIN 4417", "Origin LPG", "corrected", "Origin Electricity");
+
+      const learned = (await store.list("user1")).filter((a) => a.source !== "seed");
+      expect(learned).toEqual([expect.objectContaining({ pattern: "origin", biller: "origin lpg" })]);
+    });
+
+    it("should ignore descriptions with nothing left to match on", async () => {
+      expect(await store.learn("user1", "DD 4417", "AGL Energy", "confirmed")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { Firestore } from "@google-cloud/firestore";
+
+export type AliasSource = "seed" | "confirmed" | "corrected";
+
+/**
+ * A transaction description that stands for a biller: a normalised
+ * description containing `pattern` matches bills whose normalised company
+ * contains `biller`.
+ */
+export interface MerchantAlias {
+  pattern: string;
+  biller: string;
+  source: AliasSource;
+}
+
+export interface StoredAlias extends MerchantAlias {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// The brand -> category mappings the matcher started out with
+const SEED_MAPPINGS: Record<string, string[]> = {
+  electricity: ["agl", "origin", "energy", "ausgrid"],
+  internet: ["optus", "telstra", "nbn", "tpg", "iinet"],
+  phone: ["optus", "telstra", "vodafone", "amaysim"],
+  insurance: ["nrma", "allianz", "qbe", "suncorp"],
+  netflix: ["netflix"],
+  spotify: ["spotify"],
+  amazon: ["amzn", "amazon", "aws"],
+};
+
+export const DEFAULT_ALIASES: MerchantAlias[] = Object.entries(SEED_MAPPINGS).flatMap(
+  ([biller, patterns]) => patterns.map((pattern) => ({ pattern, biller, source: "seed" as const }))
+);
+
+// Words banks add to descriptions that say nothing about who was paid
+const NOISE_WORDS = new Set([
+  "bpay", "dd", "direct", "debit", "payment", "pymt", "pmt", "purchase", "eftpos", "visa",
+  "card", "ref", "pty", "ltd", "au", "aus", "sq", "pp", "www", "com",
+]);
+
+/**
+ * Normalise a description or company name for alias lookups: lowercase,
+ * punctuation and reference numbers removed, bank noise words dropped.
+ * "AGL ENERGY BPAY 123456789" -> "agl energy".
+ */
+export function normalizeDescription(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((w) => w && !/\d/.test(w) && !NOISE_WORDS.has(w));
+  return words.join(" ");
+}
+
+/**
+ * Per-user merchant aliases in `users/{uid}/aliases`. A user's table is seeded
+ * from DEFAULT_ALIASES the first time it's read, once, and grows as matches
+ * are confirmed or corrected.
+ */
+export class AliasStore {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  static aliasId(pattern: string, biller: string): string {
+    return `alias_${createHash("sha256").update(`${pattern}|${biller}`).digest("hex").substring(0, 20)}`;
+  }
+
+  private collection(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("aliases");
+  }
+
+  // Records that the defaults went in, so a user who deletes them all isn't re-seeded
+  private settings(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("settings").doc("aliases");
+  }
+
+  async list(uid: string): Promise<StoredAlias[]> {
+    const [snapshot, settings] = await Promise.all([this.collection(uid).get(), this.settings(uid).get()]);
+    const aliases = snapshot.docs.map((doc) => doc.data() as StoredAlias);
+    if (settings.exists) return aliases;
+
+    // Tables seeded before the flag existed keep what they have
+    const now = Date.now();
+    const seeded = snapshot.empty
+      ? DEFAULT_ALIASES.map((alias) => ({
+          ...alias,
+          id: AliasStore.aliasId(alias.pattern, alias.biller),
+          createdAt: now,
+          updatedAt: now,
+        }))
+      : [];
+    const batch = this.firestore.batch();
+    for (const alias of seeded) batch.set(this.collection(uid).doc(alias.id), alias);
+    batch.set(this.settings(uid), { seededAt: now });
+    await batch.commit();
+    return [...aliases, ...seeded];
+  }
+
+  /**
+   * Remember that `description` was paid to `company`. For a correction, any
+   * learned alias sending the same description to `wrongCompany` is dropped.
+   * Returns null when either side normalises to nothing usable.
+   */
+  async learn(
+    uid: string,
+    description: string,
+    company: string,
+    source: Exclude<AliasSource, "seed">,
+    wrongCompany?: string | null
+  ): Promise<StoredAlias | null> {
+    const pattern = normalizeDescription(description);
+    const biller = normalizeDescription(company);
+    if (!pattern || !biller) return null;
+
+    // Make sure the seeds exist before the first learned alias does
+    await this.list(uid);
+
+    if (source === "corrected" && wrongCompany) {
+      const wrongBiller = normalizeDescription(wrongCompany);
+      if (wrongBiller && wrongBiller !== biller) {
+        await this.collection(uid).doc(AliasStore.aliasId(pattern, wrongBiller)).delete();
+      }
+    }
+
+    const ref = this.collection(uid).doc(AliasStore.aliasId(pattern, biller));
+    const existing = await ref.get();
+    const now = Date.now();
+    const alias: StoredAlias = {
+      id: ref.id,
+      pattern,
+      biller,
+      source,
+      createdAt: existing.exists ? (existing.data() as StoredAlias).createdAt : now,
+      updatedAt: now,
+    };
+    await ref.set(alias);
+    return alias;
+  }
+
+  async delete(uid: string, aliasId: string): Promise<void> {
+    await this.collection(uid).doc(aliasId).delete();
+  }
+}
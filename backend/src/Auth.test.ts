@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, Mock } from "vitest";
+import { Request, Response } from "express";
+import { isValidUid, requireAuth, TokenVerifier } from "./Auth.js";
+
+const VALID_UID = "abcdefghij0123456789XYZ";
+
+describe("Auth", () => {
+  let verifier: TokenVerifier;
+  let mockVerify: Mock<TokenVerifier["verifyIdToken"]>;
+  let res: any;
+  let next: any;
+
+  beforeEach(() => {
+    mockVerify = vi.fn<TokenVerifier["verifyIdToken"]>().mockResolvedValue({ uid: VALID_UID });
+    verifier = { verifyIdToken: mockVerify };
+    res = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    next = vi.fn();
+  });
+
+  const createRequest = (opts: { authorization?: string; query?: Record<string, string> } = {}) =>
+    ({
+      headers: opts.authorization ? { authorization: opts.authorization } : {},
+      query: opts.query || {},
+    }) as unknown as Request;
+
+  describe("isValidUid", () => {
+    it("should accept Firebase-style uids", () => {
+      expect(isValidUid(VALID_UID)).toBe(true);
+    });
+
+    it("should reject short or non-alphanumeric uids", () => {
+      expect(isValidUid("short")).toBe(false);
+      expect(isValidUid("../../gmail_tokens/someoneelse")).toBe(false);
+      expect(isValidUid(undefined as unknown as string)).toBe(false);
+    });
+  });
+
+  describe("requireAuth", () => {
+    it("should set req.uid from a valid bearer token", async () => {
+      const req = createRequest({ authorization: "Bearer good-token" });
+
+      await requireAuth(verifier)(req, res as Response, next);
+
+      expect(mockVerify).toHaveBeenCalledWith("good-token");
+      expect(req.uid).toBe(VALID_UID);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should ignore a uid query parameter", async () => {
+      const req = createRequest({
+        authorization: "Bearer good-token",
+        query: { uid: "attackerChosenUid00000000" },
+      });
+
+      await requireAuth(verifier)(req, res as Response, next);
+
+      expect(req.uid).toBe(VALID_UID);
+    });
+
+    it("should reject requests without a token", async () => {
+      const req = createRequest();
+
+      await requireAuth(verifier)(req, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should reject tokens that fail verification", async () => {
+      mockVerify.mockRejectedValue(new Error("Token expired"));
+      const req = createRequest({ authorization: "Bearer expired" });
+
+      await requireAuth(verifier)(req, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ error: "Invalid auth token" });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should reject a verified uid with an unexpected format", async () => {
+      mockVerify.mockResolvedValue({ uid: "bad/uid" });
+      const req = createRequest({ authorization: "Bearer good-token" });
+
+      await requireAuth(verifier)(req, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should not accept a query token by default", async () => {
+      const req = createRequest({ query: { token: "good-token" } });
+
+      await requireAuth(verifier)(req, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(mockVerify).not.toHaveBeenCalled();
+    });
+
+    it("should accept a query token when allowed", async () => {
+      const req = createRequest({ query: { token: "good-token" } });
+
+      await requireAuth(verifier, { allowQueryToken: true })(req, res as Response, next);
+
+      expect(mockVerify).toHaveBeenCalledWith("good-token");
+      expect(req.uid).toBe(VALID_UID);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { NextFunction, Request, Response } from "express";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Firebase uid of the caller, set by requireAuth */
+      uid?: string;
+    }
+  }
+}
+
+/** The slice of firebase-admin's Auth we need - lets tests pass a fake */
+export interface TokenVerifier {
+  verifyIdToken(idToken: string): Promise<{ uid: string }>;
+}
+
+// Validate Firebase UID format (alphanumeric, 20-128 chars)
+export function isValidUid(uid: string): boolean {
+  return typeof uid === "string" && /^[a-zA-Z0-9]{20,128}$/.test(uid);
+}
+
+/**
+ * Express middleware that verifies a Firebase ID token and sets `req.uid`.
+ * The token comes from `Authorization: Bearer <token>`. Routes opened by the
+ * browser itself (EventSource, OAuth popup) can't set headers, so they may
+ * opt in to a `?token=` query parameter instead.
+ */
+export function requireAuth(
+  verifier: TokenVerifier,
+  options: { allowQueryToken?: boolean } = {}
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization || "";
+    let idToken = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+    if (!idToken && options.allowQueryToken && typeof req.query.token === "string") {
+      idToken = req.query.token;
+    }
+
+    if (!idToken) {
+      return res.status(401).json({ error: "Missing auth token" });
+    }
+
+    try {
+      const { uid } = await verifier.verifyIdToken(idToken);
+      // Defence in depth - uid ends up in Firestore paths
+      if (!isValidUid(uid)) {
+        return res.status(401).json({ error: "Invalid uid format" });
+      }
+      req.uid = uid;
+      next();
+    } catch (err) {
+      console.error("Auth token verification failed:", err);
+      res.status(401).json({ error: "Invalid auth token" });
+    }
+  };
+}
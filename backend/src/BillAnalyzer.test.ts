@@ -14,6 +14,7 @@ vi.mock("@google/genai", () => ({
 
 // Must import after vi.mock
 import { BillAnalyzer } from "./BillAnalyzer.js";
+import { FixtureProvider } from "./FixtureProvider.js";
 
 const setGenAIResponse = (response: string) => {
   mockGenerateContent.mockResolvedValue({ text: response });
@@ -54,13 +55,22 @@ describe("BillAnalyzer", () => {
         billType: "electricity",
         status: "unpaid",
         confidence: 95,
+        bpayBillerCode: "23796",
+        bpayCrn: "12345678903",
+        accountNumber: "9876 5432",
+        invoiceNumber: "INV-1001",
+        billingPeriodStart: "2024-12-01",
+        billingPeriodEnd: "2024-12-31",
+        payUrl: "https://pay.powercorp.com.au/",
+        minimumPayment: null,
+        interestRate: null,
       };
 
       setGenAIResponse(JSON.stringify(mockBillData));
 
       const result = await analyzer.analyze(createTestEmail());
 
-      expect(result).toEqual(mockBillData);
+      expect(result).toEqual({ ...mockBillData, validationErrors: [] });
     });
 
     it("should handle non-bill email", async () => {
@@ -79,8 +89,8 @@ describe("BillAnalyzer", () => {
 
       const result = await analyzer.analyze(createTestEmail({ body: "Newsletter content" }));
 
-      expect(result.isBill).toBe(false);
-      expect(result.confidence).toBe(10);
+      expect(result!.isBill).toBe(false);
+      expect(result!.confidence).toBe(10);
     });
 
     it("should handle AI response with markdown code blocks", async () => {
@@ -91,9 +101,9 @@ describe("BillAnalyzer", () => {
 
       const result = await analyzer.analyze(createTestEmail());
 
-      expect(result.isBill).toBe(true);
-      expect(result.company).toBe("Test");
-      expect(result.amount).toBe(100);
+      expect(result!.isBill).toBe(true);
+      expect(result!.company).toBe("Test");
+      expect(result!.amount).toBe(100);
     });
 
     it("should return null on API error", async () => {
@@ -127,8 +137,8 @@ describe("BillAnalyzer", () => {
 
       const result = await analyzer.analyze(createTestEmail());
 
-      expect(result.isBill).toBe(true);
-      expect(result.amount).toBe(50);
+      expect(result!.isBill).toBe(true);
+      expect(result!.amount).toBe(50);
     });
 
     it("should handle various bill types", async () => {
@@ -140,11 +150,93 @@ describe("BillAnalyzer", () => {
 
         const result = await analyzer.analyze(createTestEmail());
 
-        expect(result.billType).toBe(billType);
+        expect(result!.billType).toBe(billType);
       }
     });
   });
 
+  describe("validation", () => {
+    it("should coerce string amounts and non-ISO dates", async () => {
+      setGenAIResponse(
+        JSON.stringify({
+          isBill: true,
+          amount: "$1,234.50",
+          currency: "aud",
+          dueDate: "15/01/2025",
+          billType: "Electricity",
+          confidence: "85",
+        })
+      );
+
+      const result = await analyzer.analyze(createTestEmail());
+
+      expect(result).toMatchObject({
+        amount: 1234.5,
+        currency: "AUD",
+        dueDate: "2025-01-15",
+        billType: "electricity",
+        confidence: 85,
+        validationErrors: [],
+      });
+    });
+
+    it("should report invalid fields instead of passing them through", async () => {
+      setGenAIResponse(
+        JSON.stringify({
+          isBill: true,
+          company: "Power Corp",
+          amount: "about fifty",
+          currency: "DOGE",
+          dueDate: "next Tuesday",
+          billType: "gas",
+          confidence: 90,
+        })
+      );
+
+      const result = await analyzer.analyze(createTestEmail());
+
+      expect(result).toMatchObject({
+        company: "Power Corp",
+        amount: null,
+        currency: null,
+        dueDate: null,
+        billType: null,
+      });
+      expect(result!.validationErrors.map((e) => e.field)).toEqual([
+        "amount",
+        "currency",
+        "dueDate",
+        "billType",
+      ]);
+    });
+  });
+
+  describe("with an injected provider", () => {
+    it("should run against fixtures without calling Gemini", async () => {
+      const fixtures = new FixtureProvider();
+      const offline = new BillAnalyzer(fixtures);
+      const email = createTestEmail();
+
+      // First call records the prompt (and fails over to null), then replay a response for it
+      expect(await offline.analyze(email)).toBeNull();
+      fixtures.add(fixtures.prompts[0], '{"isBill":true,"company":"Power Corp","confidence":90}');
+
+      const result = await offline.analyze(email);
+
+      expect(result).toMatchObject({ isBill: true, company: "Power Corp", confidence: 90 });
+      expect(mockGenerateContent).not.toHaveBeenCalled();
+    });
+
+    it("should ask for a small token budget", async () => {
+      const generate = vi.fn().mockResolvedValue("{}");
+      await new BillAnalyzer({ name: "stub", generate }).analyze(createTestEmail());
+
+      expect(generate).toHaveBeenCalledWith(expect.stringContaining("Subject: Your Bill"), {
+        maxOutputTokens: 512,
+      });
+    });
+  });
+
   describe("analyzeBatch", () => {
     it("should process multiple emails", async () => {
       const emails = [
@@ -166,7 +258,7 @@ describe("BillAnalyzer", () => {
 
       expect(results).toHaveLength(3);
       results.forEach((result) => {
-        expect(result.isBill).toBe(true);
+        expect(result!.isBill).toBe(true);
       });
     });
 
@@ -1,14 +1,16 @@
-import { GoogleGenAI } from "@google/genai";
 import { Email } from "./Email.js";
+import { LLMProvider } from "./LLMProvider.js";
+import { GeminiProvider } from "./GeminiProvider.js";
+import { BILL_TYPES, BillExtraction, validateBillExtraction } from "./BillExtraction.js";
 
 export class BillAnalyzer {
-  private genAI: GoogleGenAI;
+  private llm: LLMProvider;
 
-  constructor() {
-    this.genAI = new GoogleGenAI({ apiKey: process.env.GOOGLE_API_KEY! });
+  constructor(llm: LLMProvider = new GeminiProvider()) {
+    this.llm = llm;
   }
 
-  async analyze(email: Email): Promise<any> {
+  async analyze(email: Email): Promise<BillExtraction | null> {
     const prompt = `Extract bill info from this email. Return ONLY valid JSON (no markdown).
 
 From: ${email.from}
@@ -20,31 +22,33 @@ JSON schema:
 {
   "isBill": boolean,
   "company": "string or null",
-  "amount": number or null,
-  "currency": "AUD/USD/etc or null",
+  "amount": number (no currency symbol; the closing balance for credit cards) or null,
+  "currency": "ISO-4217 code (AUD/USD/etc) or null",
   "dueDate": "YYYY-MM-DD or null",
-  "billType": "electricity/internet/phone/insurance/subscription/other/null",
+  "billType": "${BILL_TYPES.join("/")}/null",
   "status": "paid/unpaid/unknown",
-  "confidence": 0-100
-}`;
+  "confidence": 0-100,
+  "bpayBillerCode": "BPAY biller code or null",
+  "bpayCrn": "BPAY customer reference number (Ref/CRN) or null",
+  "accountNumber": "customer account number or null",
+  "invoiceNumber": "invoice or bill number or null",
+  "billingPeriodStart": "YYYY-MM-DD or null",
+  "billingPeriodEnd": "YYYY-MM-DD or null",
+  "payUrl": "link to pay the bill online or null",
+  "minimumPayment": credit card minimum payment (number) or null,
+  "interestRate": credit card purchase rate in % p.a. (number) or null
+}
 
-    try {
-      const response = await this.genAI.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: prompt,
-        config: {
-          temperature: 0,
-          maxOutputTokens: 256,
-        },
-      });
+For credit card statements, billingPeriodStart/billingPeriodEnd are the statement period.`;
 
-      const content = response.text;
+    try {
+      const content = await this.llm.generate(prompt, { maxOutputTokens: 512 });
       if (!content) {
         return null;
       }
       const jsonMatch = content.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+        return validateBillExtraction(JSON.parse(jsonMatch[0]));
       }
       return null;
     } catch (error) {
@@ -53,8 +57,11 @@ JSON schema:
     }
   }
 
-  async analyzeBatch(emails: Email[], concurrency: number = 5): Promise<any[]> {
-    const results: any[] = [];
+  async analyzeBatch(
+    emails: Email[],
+    concurrency: number = 5
+  ): Promise<(BillExtraction | null)[]> {
+    const results: (BillExtraction | null)[] = [];
 
     // Process emails in batches to avoid overwhelming the API
     for (let i = 0; i < emails.length; i += concurrency) {
@@ -0,0 +1,257 @@
+import { describe, it, expect } from "vitest";
+import { isValidCrn, validateBillExtraction } from "./BillExtraction.js";
+
+describe("validateBillExtraction", () => {
+  const valid = {
+    isBill: true,
+    company: "Power Corp",
+    amount: 156.78,
+    currency: "AUD",
+    dueDate: "2025-01-20",
+    billType: "electricity",
+    status: "unpaid",
+    confidence: 95,
+  };
+
+  const errorFields = (raw: Record<string, unknown>) =>
+    validateBillExtraction({ ...valid, ...raw })!.validationErrors.map((e) => e.field);
+
+  const noReferences = {
+    bpayBillerCode: null,
+    bpayCrn: null,
+    accountNumber: null,
+    invoiceNumber: null,
+    billingPeriodStart: null,
+    billingPeriodEnd: null,
+    payUrl: null,
+  };
+  const noCardDetails = { minimumPayment: null, interestRate: null };
+
+  it("should accept a valid extraction unchanged", () => {
+    expect(validateBillExtraction(valid)).toEqual({ ...valid, ...noReferences, ...noCardDetails, validationErrors: [] });
+  });
+
+  it("should return null for non-objects", () => {
+    expect(validateBillExtraction(null)).toBeNull();
+    expect(validateBillExtraction("bill")).toBeNull();
+    expect(validateBillExtraction([valid])).toBeNull();
+  });
+
+  it("should fill missing fields with nulls and defaults", () => {
+    expect(validateBillExtraction({ isBill: true })).toEqual({
+      isBill: true,
+      company: null,
+      amount: null,
+      currency: null,
+      dueDate: null,
+      billType: null,
+      status: "unknown",
+      confidence: 0,
+      ...noReferences,
+      ...noCardDetails,
+      validationErrors: [],
+    });
+  });
+
+  describe("amount", () => {
+    it.each([
+      ["156.78", 156.78],
+      ["$1,234.50", 1234.5],
+      ["AUD 99", 99],
+      ["99.00 AUD", 99],
+      [12.345, 12.35],
+    ])("should coerce %j to %d", (input, expected) => {
+      expect(validateBillExtraction({ ...valid, amount: input })!.amount).toBe(expected);
+    });
+
+    it("should reject non-numeric and negative amounts", () => {
+      expect(errorFields({ amount: "fifty dollars" })).toEqual(["amount"]);
+      expect(errorFields({ amount: -20 })).toEqual(["amount"]);
+      expect(errorFields({ amount: { value: 20 } })).toEqual(["amount"]);
+    });
+  });
+
+  describe("dueDate", () => {
+    it.each([
+      ["2025-1-5", "2025-01-05"],
+      ["2025/01/20", "2025-01-20"],
+      ["20/01/2025", "2025-01-20"],
+      ["20 January 2025", "2025-01-20"],
+      ["Jan 20, 2025", "2025-01-20"],
+    ])("should normalise %s to %s", (input, expected) => {
+      expect(validateBillExtraction({ ...valid, dueDate: input })!.dueDate).toBe(expected);
+    });
+
+    it("should reject impossible and unparseable dates", () => {
+      expect(errorFields({ dueDate: "2025-02-30" })).toEqual(["dueDate"]);
+      expect(errorFields({ dueDate: "13/13/2025" })).toEqual(["dueDate"]);
+      expect(errorFields({ dueDate: "soon" })).toEqual(["dueDate"]);
+    });
+  });
+
+  describe("currency", () => {
+    it("should normalise case and unambiguous symbols", () => {
+      expect(validateBillExtraction({ ...valid, currency: " usd " })!.currency).toBe("USD");
+      expect(validateBillExtraction({ ...valid, currency: "A$" })!.currency).toBe("AUD");
+      expect(validateBillExtraction({ ...valid, currency: "€" })!.currency).toBe("EUR");
+    });
+
+    it("should reject codes outside the allow-list and a bare dollar sign", () => {
+      expect(errorFields({ currency: "BTC" })).toEqual(["currency"]);
+      expect(errorFields({ currency: "$" })).toEqual(["currency"]);
+    });
+  });
+
+  describe("billType and status", () => {
+    it("should accept enum values case-insensitively", () => {
+      const result = validateBillExtraction({ ...valid, billType: "Internet", status: "PAID" })!;
+
+      expect(result.billType).toBe("internet");
+      expect(result.status).toBe("paid");
+    });
+
+    it("should reject values outside the enum", () => {
+      const result = validateBillExtraction({ ...valid, billType: "gas", status: "overdue" })!;
+
+      expect(result.billType).toBeNull();
+      expect(result.status).toBe("unknown");
+      expect(result.validationErrors.map((e) => e.field)).toEqual(["billType", "status"]);
+    });
+
+    it("should treat the string null as missing", () => {
+      expect(errorFields({ billType: "null" })).toEqual([]);
+    });
+  });
+
+  describe("confidence and isBill", () => {
+    it("should coerce numeric strings", () => {
+      const result = validateBillExtraction({ ...valid, confidence: "80%", isBill: "true" })!;
+
+      expect(result.confidence).toBe(80);
+      expect(result.isBill).toBe(true);
+    });
+
+    it("should reject out-of-range confidence", () => {
+      expect(errorFields({ confidence: 150 })).toEqual(["confidence"]);
+    });
+
+    it("should reject a non-boolean isBill and treat it as not a bill", () => {
+      const result = validateBillExtraction({ ...valid, isBill: "maybe" })!;
+
+      expect(result.isBill).toBe(false);
+      expect(result.validationErrors[0]).toEqual({
+        field: "isBill",
+        message: "Expected a boolean",
+        value: "maybe",
+      });
+    });
+  });
+
+  describe("payment references", () => {
+    it("should keep valid references, digits only for BPAY", () => {
+      const result = validateBillExtraction({
+        ...valid,
+        bpayBillerCode: "23796",
+        bpayCrn: "1234 5678 903",
+        accountNumber: " 9876 5432 ",
+        invoiceNumber: "INV-20250101",
+        billingPeriodStart: "01/12/2024",
+        billingPeriodEnd: "2024-12-31",
+        payUrl: "https://pay.powercorp.com.au/bill?id=1",
+      })!;
+
+      expect(result).toMatchObject({
+        bpayBillerCode: "23796",
+        bpayCrn: "12345678903",
+        accountNumber: "9876 5432",
+        invoiceNumber: "INV-20250101",
+        billingPeriodStart: "2024-12-01",
+        billingPeriodEnd: "2024-12-31",
+        payUrl: "https://pay.powercorp.com.au/bill?id=1",
+        validationErrors: [],
+      });
+    });
+
+    it("should accept numeric references", () => {
+      const result = validateBillExtraction({ ...valid, bpayBillerCode: 23796, accountNumber: 98765432 })!;
+
+      expect(result.bpayBillerCode).toBe("23796");
+      expect(result.accountNumber).toBe("98765432");
+    });
+
+    it("should reject a CRN whose check digit doesn't match", () => {
+      const result = validateBillExtraction({ ...valid, bpayCrn: "12345678901" })!;
+
+      expect(result.bpayCrn).toBeNull();
+      expect(result.validationErrors).toEqual([
+        { field: "bpayCrn", message: "Check digit doesn't match", value: "12345678901" },
+      ]);
+    });
+
+    it("should reject malformed references", () => {
+      expect(errorFields({ bpayBillerCode: "12" })).toEqual(["bpayBillerCode"]);
+      expect(errorFields({ bpayBillerCode: "AGL" })).toEqual(["bpayBillerCode"]);
+      expect(errorFields({ bpayCrn: "see over" })).toEqual(["bpayCrn"]);
+      expect(errorFields({ accountNumber: "your account" })).toEqual(["accountNumber"]);
+      expect(errorFields({ invoiceNumber: { id: 1 } })).toEqual(["invoiceNumber"]);
+    });
+
+    it("should reject a billing period that ends before it starts", () => {
+      const result = validateBillExtraction({
+        ...valid,
+        billingPeriodStart: "2025-01-31",
+        billingPeriodEnd: "2025-01-01",
+      })!;
+
+      expect(result.billingPeriodStart).toBe("2025-01-31");
+      expect(result.billingPeriodEnd).toBeNull();
+      expect(result.validationErrors.map((e) => e.field)).toEqual(["billingPeriodEnd"]);
+    });
+
+    it("should only accept http(s) pay links", () => {
+      expect(errorFields({ payUrl: "javascript:alert(1)" })).toEqual(["payUrl"]);
+      expect(errorFields({ payUrl: "pay online" })).toEqual(["payUrl"]);
+    });
+  });
+
+  describe("credit card details", () => {
+    const statement = { ...valid, billType: "credit_card", amount: 2450.3 };
+
+    it("should keep the minimum payment and interest rate", () => {
+      const result = validateBillExtraction({ ...statement, minimumPayment: "$49.00", interestRate: "20.99% p.a." })!;
+
+      expect(result).toMatchObject({
+        billType: "credit_card",
+        amount: 2450.3,
+        minimumPayment: 49,
+        interestRate: 20.99,
+        validationErrors: [],
+      });
+    });
+
+    it("should reject a minimum payment above the closing balance", () => {
+      const result = validateBillExtraction({ ...statement, minimumPayment: 3000 })!;
+
+      expect(result.minimumPayment).toBeNull();
+      expect(result.validationErrors[0]).toMatchObject({
+        field: "minimumPayment",
+        message: "Minimum payment is more than the closing balance",
+      });
+    });
+
+    it("should reject interest rates that aren't a percentage", () => {
+      expect(errorFields({ interestRate: 120 })).toEqual(["interestRate"]);
+      expect(errorFields({ interestRate: "variable" })).toEqual(["interestRate"]);
+    });
+  });
+});
+
+describe("isValidCrn", () => {
+  it.each([["12345678903"], ["79927398713"], ["18"]])("should accept %s", (crn) => {
+    expect(isValidCrn(crn)).toBe(true);
+  });
+
+  it.each([["12345678901"], ["79927398710"], ["1"], ["12a4"]])("should reject %s", (crn) => {
+    expect(isValidCrn(crn)).toBe(false);
+  });
+});
@@ -0,0 +1,367 @@
+export const BILL_TYPES = [
+  "electricity",
+  "internet",
+  "phone",
+  "insurance",
+  "subscription",
+  "credit_card",
+  "other",
+] as const;
+export type BillType = (typeof BILL_TYPES)[number];
+
+export const BILL_STATUSES = ["paid", "unpaid", "unknown"] as const;
+export type BillStatus = (typeof BILL_STATUSES)[number];
+
+// ISO-4217 codes we expect to see on bills
+export const CURRENCIES = [
+  "AUD", "NZD", "USD", "CAD", "GBP", "EUR", "JPY", "CNY", "HKD", "SGD",
+  "INR", "KRW", "CHF", "SEK", "NOK", "DKK", "ZAR", "THB", "IDR", "MYR", "PHP",
+] as const;
+export type Currency = (typeof CURRENCIES)[number];
+
+// Unambiguous symbols only - a bare "$" could be any dollar
+const CURRENCY_SYMBOLS: Record<string, Currency> = {
+  A$: "AUD",
+  AU$: "AUD",
+  NZ$: "NZD",
+  US$: "USD",
+  C$: "CAD",
+  "£": "GBP",
+  "€": "EUR",
+  "¥": "JPY",
+  "₩": "KRW",
+  "₹": "INR",
+};
+
+export interface ValidationError {
+  field: string;
+  message: string;
+  value: unknown;
+}
+
+export interface BillExtraction {
+  isBill: boolean;
+  company: string | null;
+  /** What's due; for a credit card statement, the closing balance */
+  amount: number | null;
+  currency: Currency | null;
+  dueDate: string | null;
+  billType: BillType | null;
+  status: BillStatus;
+  confidence: number;
+  /** BPAY biller code and customer reference number (CRN), digits only */
+  bpayBillerCode: string | null;
+  bpayCrn: string | null;
+  /** The customer's account number with the biller, as printed */
+  accountNumber: string | null;
+  invoiceNumber: string | null;
+  billingPeriodStart: string | null;
+  billingPeriodEnd: string | null;
+  /** Where the bill can be paid online, http(s) only */
+  payUrl: string | null;
+  /** Credit card statements: the least that can be paid, and the purchase rate in % p.a. */
+  minimumPayment: number | null;
+  interestRate: number | null;
+  /** Fields the model returned that failed validation (those fields are nulled) */
+  validationErrors: ValidationError[];
+}
+
+/**
+ * Validate and coerce raw model output into a BillExtraction.
+ * Harmless variations are normalised ("$1,234.50" -> 1234.5, "15/01/2025" ->
+ * "2025-01-15", "AUD " -> "AUD"); anything else is dropped and reported in
+ * validationErrors. Returns null if the output isn't a JSON object at all.
+ */
+export function validateBillExtraction(raw: unknown): BillExtraction | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const input = raw as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+  const fail = (field: string, message: string) => {
+    errors.push({ field, message, value: input[field] });
+  };
+
+  return {
+    isBill: coerceBoolean(input.isBill, () => fail("isBill", "Expected a boolean")),
+    company: coerceCompany(input.company, () => fail("company", "Expected a string")),
+    amount: coerceAmount(input.amount, (msg) => fail("amount", msg)),
+    currency: coerceCurrency(input.currency, () => fail("currency", "Unsupported currency")),
+    dueDate: coerceDate(input.dueDate, () => fail("dueDate", "Expected a YYYY-MM-DD date")),
+    billType: coerceEnum(input.billType, BILL_TYPES, () =>
+      fail("billType", `Expected one of ${BILL_TYPES.join(", ")}`)
+    ),
+    status:
+      coerceEnum(input.status, BILL_STATUSES, () =>
+        fail("status", `Expected one of ${BILL_STATUSES.join(", ")}`)
+      ) || "unknown",
+    confidence: coerceConfidence(input.confidence, () =>
+      fail("confidence", "Expected a number from 0 to 100")
+    ),
+    bpayBillerCode: coerceDigits(input.bpayBillerCode, 3, 10, () =>
+      fail("bpayBillerCode", "Expected a 3 to 10 digit biller code")
+    ),
+    bpayCrn: coerceCrn(input.bpayCrn, (msg) => fail("bpayCrn", msg)),
+    accountNumber: coerceReference(input.accountNumber, () =>
+      fail("accountNumber", "Expected an account number")
+    ),
+    invoiceNumber: coerceReference(input.invoiceNumber, () =>
+      fail("invoiceNumber", "Expected an invoice number")
+    ),
+    ...coerceBillingPeriod(input, fail),
+    payUrl: coercePayUrl(input.payUrl, () => fail("payUrl", "Expected an http(s) URL")),
+    minimumPayment: coerceMinimumPayment(input.minimumPayment, input.amount, (msg) => fail("minimumPayment", msg)),
+    interestRate: coerceInterestRate(input.interestRate, () =>
+      fail("interestRate", "Expected a percentage from 0 to 100")
+    ),
+    validationErrors: errors,
+  };
+}
+
+/**
+ * BPAY's most common check digit scheme (MOD10V01): Luhn over the CRN, with
+ * the last digit as the check digit.
+ */
+export function isValidCrn(crn: string): boolean {
+  if (!/^\d{2,20}$/.test(crn)) return false;
+  let sum = 0;
+  for (let i = 0; i < crn.length; i++) {
+    let digit = Number(crn[crn.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === "";
+
+function coerceBoolean(value: unknown, fail: () => void): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false" || isMissing(value)) return false;
+  fail();
+  return false;
+}
+
+function coerceCompany(value: unknown, fail: () => void): string | null {
+  if (isMissing(value)) return null;
+  if (typeof value !== "string") {
+    fail();
+    return null;
+  }
+  const company = value.trim();
+  return company && company.toLowerCase() !== "null" ? company : null;
+}
+
+function coerceAmount(value: unknown, fail: (message: string) => void): number | null {
+  if (isMissing(value)) return null;
+
+  let amount: number;
+  if (typeof value === "number") {
+    amount = value;
+  } else if (typeof value === "string" && /^\s*[A-Z$£€¥]*\s*-?[\d,]+(\.\d+)?\s*[A-Z]*\s*$/i.test(value)) {
+    amount = Number(value.replace(/[^\d.-]/g, ""));
+  } else {
+    fail("Expected a number");
+    return null;
+  }
+
+  if (!Number.isFinite(amount)) {
+    fail("Expected a number");
+    return null;
+  }
+  if (amount < 0) {
+    fail("Amount can't be negative");
+    return null;
+  }
+  return Math.round(amount * 100) / 100;
+}
+
+function coerceCurrency(value: unknown, fail: () => void): Currency | null {
+  if (isMissing(value)) return null;
+  if (typeof value !== "string") {
+    fail();
+    return null;
+  }
+  const code = value.trim().toUpperCase();
+  if ((CURRENCIES as readonly string[]).includes(code)) return code as Currency;
+  if (CURRENCY_SYMBOLS[code]) return CURRENCY_SYMBOLS[code];
+  fail();
+  return null;
+}
+
+// Can't be more than the closing balance it's a minimum of
+function coerceMinimumPayment(
+  value: unknown,
+  balance: unknown,
+  fail: (message: string) => void
+): number | null {
+  const minimum = coerceAmount(value, fail);
+  const closing = coerceAmount(balance, () => {});
+  if (minimum !== null && closing !== null && minimum > closing) {
+    fail("Minimum payment is more than the closing balance");
+    return null;
+  }
+  return minimum;
+}
+
+function coerceInterestRate(value: unknown, fail: () => void): number | null {
+  if (isMissing(value) || value === "null") return null;
+  const rate =
+    typeof value === "string" && /^\s*\d+(\.\d+)?\s*%?\s*(p\.?\s*a\.?)?\s*$/i.test(value)
+      ? parseFloat(value)
+      : value;
+  if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+    fail();
+    return null;
+  }
+  return Math.round(rate * 100) / 100;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** 1-12 from a month name or its abbreviation ("Feb", "february"); 0 if it isn't one. */
+export function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.substring(0, 3).toLowerCase()) + 1;
+}
+
+/** ISO date for a calendar date, or null if there is no such day. */
+export function isoDate(year: number, month: number, day: number): string | null {
+  // Round-trip through Date to reject things like 2025-02-30
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    month < 1 ||
+    month > 12 ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().substring(0, 10);
+}
+
+function coerceDate(value: unknown, fail: () => void): string | null {
+  if (isMissing(value)) return null;
+  if (typeof value !== "string") {
+    fail();
+    return null;
+  }
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  let m: RegExpMatchArray | null;
+  if ((m = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/))) {
+    [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) {
+    // Day-first, as on Australian bills
+    [day, month, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if ((m = text.match(/^(\d{1,2})\s+([a-z]+)\.?,?\s+(\d{4})$/i))) {
+    [day, month, year] = [Number(m[1]), monthNumber(m[2]), Number(m[3])];
+  } else if ((m = text.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i))) {
+    [month, day, year] = [monthNumber(m[1]), Number(m[2]), Number(m[3])];
+  } else {
+    fail();
+    return null;
+  }
+
+  const date = isoDate(year, month, day);
+  if (!date) fail();
+  return date;
+}
+
+// Numbers come printed with spaces or dashes ("1234 5678 90"); only the digits count
+function coerceDigits(value: unknown, minLength: number, maxLength: number, fail: () => void): string | null {
+  if (isMissing(value) || value === "null") return null;
+  if (typeof value !== "string" && typeof value !== "number") {
+    fail();
+    return null;
+  }
+  const text = String(value).trim();
+  const digits = text.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits) || digits.length < minLength || digits.length > maxLength) {
+    fail();
+    return null;
+  }
+  return digits;
+}
+
+function coerceCrn(value: unknown, fail: (message: string) => void): string | null {
+  const crn = coerceDigits(value, 2, 20, () => fail("Expected a 2 to 20 digit reference number"));
+  if (crn !== null && !isValidCrn(crn)) {
+    fail("Check digit doesn't match");
+    return null;
+  }
+  return crn;
+}
+
+// Account and invoice numbers are often alphanumeric, so keep them as printed
+function coerceReference(value: unknown, fail: () => void): string | null {
+  if (isMissing(value) || value === "null") return null;
+  if (typeof value !== "string" && typeof value !== "number") {
+    fail();
+    return null;
+  }
+  const reference = String(value).trim().replace(/\s+/g, " ");
+  if (!/^[a-z0-9][a-z0-9 ./-]{0,39}$/i.test(reference) || !/\d/.test(reference)) {
+    fail();
+    return null;
+  }
+  return reference;
+}
+
+function coerceBillingPeriod(
+  input: Record<string, unknown>,
+  fail: (field: string, message: string) => void
+): Pick<BillExtraction, "billingPeriodStart" | "billingPeriodEnd"> {
+  const billingPeriodStart = coerceDate(input.billingPeriodStart, () =>
+    fail("billingPeriodStart", "Expected a YYYY-MM-DD date")
+  );
+  const billingPeriodEnd = coerceDate(input.billingPeriodEnd, () =>
+    fail("billingPeriodEnd", "Expected a YYYY-MM-DD date")
+  );
+  if (billingPeriodStart && billingPeriodEnd && billingPeriodEnd < billingPeriodStart) {
+    fail("billingPeriodEnd", "Billing period ends before it starts");
+    return { billingPeriodStart, billingPeriodEnd: null };
+  }
+  return { billingPeriodStart, billingPeriodEnd };
+}
+
+function coercePayUrl(value: unknown, fail: () => void): string | null {
+  if (isMissing(value) || value === "null") return null;
+  if (typeof value !== "string") {
+    fail();
+    return null;
+  }
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol === "https:" || url.protocol === "http:") return url.toString();
+  } catch {
+    // fall through
+  }
+  fail();
+  return null;
+}
+
+function coerceEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  fail: () => void
+): T | null {
+  if (isMissing(value) || value === "null") return null;
+  const normalized = typeof value === "string" ? value.trim().toLowerCase() : value;
+  if (allowed.includes(normalized as T)) return normalized as T;
+  fail();
+  return null;
+}
+
+function coerceConfidence(value: unknown, fail: () => void): number {
+  if (isMissing(value)) return 0;
+  const confidence = typeof value === "string" ? Number(value.replace("%", "")) : value;
+  if (typeof confidence !== "number" || !Number.isFinite(confidence) || confidence < 0 || confidence > 100) {
+    fail();
+    return 0;
+  }
+  return Math.round(confidence);
+}
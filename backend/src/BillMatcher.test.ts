@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { BillMatcher, Bill, Match } from "./BillMatcher.js";
+import { AUTO_MATCH_CONFIDENCE, BillMatcher, Bill, Match, needsReview, transactionKey } from "./BillMatcher.js";
 import { Transaction } from "./StatementAnalyzer.js";
+import { FxTable } from "./FxStore.js";
 
 describe("BillMatcher", () => {
   let matcher: BillMatcher;
@@ -589,4 +590,573 @@ describe("BillMatcher", () => {
       expect(matches).toHaveLength(2);
     });
   });
+
+  describe("assignment mode", () => {
+    const debit = (description: string, amount: number, date: string): Transaction => ({
+      date,
+      description,
+      amount,
+      type: "debit",
+    });
+    const bill = (id: string, company: string, amount: number, dueDate: string): Bill => ({
+      id,
+      company,
+      amount,
+      dueDate,
+      status: "unpaid",
+    });
+
+    it("should return nothing for no transactions or no bills", () => {
+      expect(matcher.assignTransactionsToBills([], [bill("b1", "AGL", 100, "2025-01-15")])).toEqual({
+        matches: [],
+        runnersUp: [],
+        unmatched: [],
+      });
+      expect(matcher.assignTransactionsToBills([debit("AGL", 100, "2025-01-15")], [])).toEqual({
+        matches: [],
+        runnersUp: [],
+        unmatched: [
+          { transactionDate: "2025-01-15", transactionDescription: "AGL", transactionAmount: 100, rejected: [] },
+        ],
+      });
+    });
+
+    it("should give a bill to only one of two debits that both match it", () => {
+      const transactions = [
+        debit("company payment", 100, "2025-01-15"),
+        debit("company payment", 100, "2025-02-20"),
+      ];
+      const bills = [bill("bill-1", "company", 100, "2025-01-15")];
+
+      // Greedy mode lets both debits claim the bill
+      expect(matcher.matchTransactionsToBills(transactions, bills)).toHaveLength(2);
+
+      const { matches, runnersUp } = matcher.assignTransactionsToBills(transactions, bills);
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ billId: "bill-1", transactionDate: "2025-01-15", confidence: 100 });
+      expect(runnersUp).toEqual([
+        expect.objectContaining({ billId: "bill-1", transactionDate: "2025-02-20", reason: "bill_taken" }),
+      ]);
+    });
+
+    it("should spread two similar debits over two similar bills", () => {
+      const transactions = [debit("AGL ENERGY", 100, "2025-01-15"), debit("AGL ENERGY", 100, "2025-01-16")];
+      const bills = [bill("electricity", "AGL Energy", 100, "2025-01-15"), bill("gas", "AGL Gas", 104, "2025-01-15")];
+
+      const greedy = matcher.matchTransactionsToBills(transactions, bills);
+      expect(greedy.map((m) => m.billId)).toEqual(["electricity", "electricity"]);
+
+      const { matches } = matcher.assignTransactionsToBills(transactions, bills);
+      expect(matches.map((m) => m.billId).sort()).toEqual(["electricity", "gas"]);
+    });
+
+    it("should give up a transaction's best bill when that pays more bills overall", () => {
+      const transactions = [
+        // Matches both bills, electricity best
+        debit("AGL ENERGY", 100, "2025-01-15"),
+        // Can only be the electricity bill
+        debit("DIRECT DEBIT 4471", 98, "2025-01-15"),
+      ];
+      const bills = [bill("electricity", "AGL Energy", 100, "2025-01-15"), bill("gas", "AGL Gas", 104, "2025-01-15")];
+
+      const { matches, runnersUp } = matcher.assignTransactionsToBills(transactions, bills);
+
+      expect(matches).toEqual([
+        expect.objectContaining({ transactionDescription: "AGL ENERGY", billId: "gas", confidence: 70 }),
+        expect.objectContaining({ transactionDescription: "DIRECT DEBIT 4471", billId: "electricity", confidence: 80 }),
+      ]);
+      expect(runnersUp).toEqual([
+        expect.objectContaining({
+          transactionDescription: "AGL ENERGY",
+          billId: "electricity",
+          confidence: 100,
+          reason: "bill_taken",
+        }),
+      ]);
+    });
+
+    it("should report a bill left over when one debit matches several", () => {
+      const transactions = [debit("netflix subscription", 15.99, "2025-01-15")];
+      const bills = [bill("jan", "Netflix", 15.99, "2025-01-15"), bill("feb", "Netflix", 15.99, "2025-02-15")];
+
+      const { matches, runnersUp } = matcher.assignTransactionsToBills(transactions, bills);
+
+      expect(matches.map((m) => m.billId)).toEqual(["jan"]);
+      expect(runnersUp).toEqual([expect.objectContaining({ billId: "feb", reason: "transaction_taken" })]);
+    });
+
+    it("should order runners-up by confidence", () => {
+      const transactions = [
+        debit("company payment", 100, "2025-01-15"),
+        debit("payment", 100, "2025-01-16"),
+        debit("company payment", 100, "2025-02-20"),
+      ];
+      const bills = [bill("bill-1", "company", 100, "2025-01-15")];
+
+      const { runnersUp } = matcher.assignTransactionsToBills(transactions, bills);
+
+      expect(runnersUp.map((r) => r.confidence)).toEqual([80, 70]);
+    });
+
+    it("should leave out pairs below the confidence threshold", () => {
+      const transactions = [debit("unrelated", 103, "2025-06-01")];
+      const bills = [bill("bill-1", "company", 100, "2025-01-15")];
+
+      const { matches, runnersUp } = matcher.assignTransactionsToBills(transactions, bills);
+      expect(matches).toEqual([]);
+      expect(runnersUp).toEqual([]);
+    });
+
+    it("should skip credits, paid bills and bills without an amount", () => {
+      const transactions: Transaction[] = [
+        { date: "2025-01-15", description: "company refund", amount: 100, type: "credit" },
+        debit("company payment", 100, "2025-01-15"),
+      ];
+      const bills: Bill[] = [
+        { ...bill("paid", "company", 100, "2025-01-15"), status: "paid" },
+        { ...bill("no-amount", "company", 100, "2025-01-15"), amount: null },
+        bill("open", "company", 100, "2025-01-15"),
+      ];
+
+      const { matches, runnersUp } = matcher.assignTransactionsToBills(transactions, bills);
+
+      expect(matches).toEqual([expect.objectContaining({ billId: "open", transactionDescription: "company payment" })]);
+      expect(runnersUp).toEqual([]);
+    });
+  });
+
+  describe("partial payments", () => {
+    const debit = (description: string, amount: number, date: string): Transaction => ({
+      date,
+      description,
+      amount,
+      type: "debit",
+    });
+    const bill = (overrides: Partial<Bill> = {}): Bill => ({
+      id: "agl",
+      company: "AGL Energy",
+      amount: 300,
+      dueDate: "2025-01-15",
+      status: "unpaid",
+      ...overrides,
+    });
+
+    it("should link two transfers that add up to the bill", () => {
+      const transactions = [debit("AGL ENERGY BPAY", 150, "2025-01-10"), debit("AGL ENERGY BPAY", 150, "2025-01-14")];
+
+      const { matches } = matcher.assignTransactionsToBills(transactions, [bill()]);
+
+      expect(matches).toEqual([
+        expect.objectContaining({ billId: "agl", transactionDate: "2025-01-10", partial: true, confidence: 70 }),
+        expect.objectContaining({ billId: "agl", transactionDate: "2025-01-14", partial: true, confidence: 70 }),
+      ]);
+    });
+
+    it("should queue part payments for review however well they score", () => {
+      const transactions = [debit("AGL ENERGY BPAY", 150, "2025-01-10"), debit("AGL ENERGY BPAY", 300, "2025-01-15")];
+
+      const { matches } = matcher.assignTransactionsToBills(transactions, [bill(), bill({ id: "agl-2" })]);
+      const partial = matches.find((m) => m.partial)!;
+      const full = matches.find((m) => !m.partial)!;
+
+      expect(partial.confidence).toBeGreaterThanOrEqual(AUTO_MATCH_CONFIDENCE);
+      expect(needsReview(partial)).toBe(true);
+      expect(needsReview(full)).toBe(false);
+    });
+
+    it("should stop linking once the bill is covered", () => {
+      const transactions = [
+        debit("AGL ENERGY", 200, "2025-01-10"),
+        debit("AGL ENERGY", 100, "2025-01-12"),
+        debit("AGL ENERGY", 100, "2025-01-14"),
+      ];
+
+      const { matches } = matcher.assignTransactionsToBills(transactions, [bill()]);
+
+      expect(matches.map((m) => m.transactionDate)).toEqual(["2025-01-10", "2025-01-12"]);
+    });
+
+    it("should prefer a full-amount payment over partials", () => {
+      const transactions = [debit("AGL ENERGY", 100, "2025-01-10"), debit("AGL ENERGY", 300, "2025-01-15")];
+
+      const { matches } = matcher.assignTransactionsToBills(transactions, [bill()]);
+
+      expect(matches).toEqual([expect.objectContaining({ transactionAmount: 300, partial: false })]);
+    });
+
+    it("should match the final instalment against what's left", () => {
+      const partlyPaid = bill({ status: "partially_paid", amountPaid: 200 });
+
+      const { matches } = matcher.assignTransactionsToBills([debit("AGL ENERGY", 100, "2025-01-15")], [partlyPaid]);
+
+      expect(matches).toEqual([expect.objectContaining({ billId: "agl", partial: false, confidence: 100 })]);
+      // The greedy matcher scores against what's left too
+      expect(matcher.matchTransactionsToBills([debit("AGL ENERGY", 100, "2025-01-15")], [partlyPaid])).toHaveLength(1);
+    });
+
+    it("should accept instalments well after the due date", () => {
+      const transactions = [
+        debit("AGL ENERGY INSTALMENT", 100, "2025-02-15"),
+        debit("AGL ENERGY INSTALMENT", 100, "2025-03-15"),
+      ];
+
+      const { matches } = matcher.assignTransactionsToBills(transactions, [bill()]);
+
+      expect(matches).toHaveLength(2);
+      expect(matches.every((m) => m.partial)).toBe(true);
+    });
+
+    it("should not treat an unrelated small debit as a part payment", () => {
+      const { matches } = matcher.assignTransactionsToBills([debit("WOOLWORTHS", 150, "2025-01-14")], [bill()]);
+
+      expect(matches).toEqual([]);
+    });
+
+    it("should skip bills with nothing left to pay", () => {
+      const settled = bill({ status: "partially_paid", amountPaid: 300 });
+
+      const { matches } = matcher.assignTransactionsToBills([debit("AGL ENERGY", 50, "2025-01-14")], [settled]);
+
+      expect(matches).toEqual([]);
+    });
+  });
+
+  describe("score breakdown", () => {
+    const debit = (description: string, amount: number, date: string): Transaction => ({
+      date,
+      description,
+      amount,
+      type: "debit",
+    });
+    const bill = (id: string, company: string | null, amount: number, dueDate: string | null): Bill => ({
+      id,
+      company,
+      amount,
+      dueDate,
+      status: "unpaid",
+    });
+
+    it("should explain each component of a match", () => {
+      const [match] = matcher.matchTransactionsToBills(
+        [debit("agl energy bpay", 101, "2025-01-12")],
+        [bill("agl", "AGL Energy", 100, "2025-01-15")]
+      );
+
+      expect(match.breakdown).toEqual({
+        amount: { score: 0.5, reason: "amount within 2%" },
+        date: { score: 0.3, reason: "paid 3 days before due" },
+        name: { score: 0.2, reason: 'description contains "agl energy"', alias: null },
+        explanation: 'amount within 2%, paid 3 days before due, description contains "agl energy"',
+        rejected: [],
+      });
+    });
+
+    it("should name the alias that fired", () => {
+      const [match] = matcher.matchTransactionsToBills(
+        [debit("ORIGIN 4417 DD", 80, "2025-01-20")],
+        [bill("power", "Electricity Co", 80, "2025-01-15")]
+      );
+
+      expect(match.breakdown.name).toEqual({
+        score: 0.8 * 0.2,
+        reason: '"origin" is a known electricity name',
+        alias: { pattern: "origin", biller: "electricity", source: "seed" },
+      });
+      expect(match.breakdown.amount.reason).toBe("exact amount");
+      expect(match.breakdown.date.reason).toBe("paid 5 days after due");
+    });
+
+    it("should describe partial date and name scores", () => {
+      const [match] = matcher.matchTransactionsToBills(
+        [debit("company payment", 100, "2025-02-05")],
+        [bill("b1", "Company Services", 100, "2025-01-15")]
+      );
+
+      expect(match.breakdown.date).toEqual({ score: 0.15, reason: "paid 21 days after due (outside the usual window)" });
+      expect(match.breakdown.name.reason).toBe("1 of 2 name words match");
+    });
+
+    it("should say why other candidates were rejected", () => {
+      const [match] = matcher.matchTransactionsToBills(
+        [debit("netflix subscription", 15.99, "2025-01-15")],
+        [
+          bill("netflix", "Netflix", 15.99, "2025-01-15"),
+          bill("stan", "Stan", 15.99, "2025-01-20"),
+          bill("old-netflix", "Netflix", 22.99, "2024-12-15"),
+          bill("gym", "Fitness First", 15.99, "2025-06-01"),
+          bill("rent", "Landlord", 2000, "2025-01-15"),
+        ]
+      );
+
+      expect(match.billId).toBe("netflix");
+      expect(match.breakdown.rejected).toEqual([
+        { billId: "stan", billCompany: "Stan", billAmount: 15.99, confidence: 80, reason: "lower confidence than Netflix" },
+        { billId: "gym", billCompany: "Fitness First", billAmount: 15.99, confidence: 50, reason: "lower confidence than Netflix" },
+        { billId: "old-netflix", billCompany: "Netflix", billAmount: 22.99, confidence: 0, reason: "amount differs by 30%" },
+      ]);
+    });
+
+    it("should explain why a debit matched nothing in assignment mode", () => {
+      const { unmatched } = matcher.assignTransactionsToBills(
+        [debit("AGL ENERGY", 100, "2025-01-15"), debit("AGL ENERGY", 100, "2025-03-01"), debit("COFFEE", 4.5, "2025-01-15")],
+        [bill("agl", "AGL Energy", 100, "2025-01-15")]
+      );
+
+      expect(unmatched).toEqual([
+        {
+          transactionDate: "2025-03-01",
+          transactionDescription: "AGL ENERGY",
+          transactionAmount: 100,
+          rejected: [
+            { billId: "agl", billCompany: "AGL Energy", billAmount: 100, confidence: 70, reason: "bill matched to another transaction" },
+          ],
+        },
+        { transactionDate: "2025-01-15", transactionDescription: "COFFEE", transactionAmount: 4.5, rejected: [] },
+      ]);
+    });
+
+    it("should explain a part payment", () => {
+      const { matches } = matcher.assignTransactionsToBills(
+        [debit("AGL ENERGY", 100, "2025-02-20")],
+        [bill("agl", "AGL Energy", 300, "2025-01-15")]
+      );
+
+      expect(matches[0].breakdown).toMatchObject({
+        amount: { score: 0.2, reason: "part payment of the 300.00 left" },
+        date: { score: 0.3, reason: "paid 36 days after due (instalment window)" },
+        rejected: [],
+      });
+      expect(matches[0].breakdown.explanation).toBe(
+        'part payment of the 300.00 left, paid 36 days after due (instalment window), description contains "agl energy"'
+      );
+    });
+  });
+
+  describe("learned aliases", () => {
+    const debit = (description: string): Transaction => ({
+      date: "2025-01-15",
+      description,
+      amount: 120,
+      type: "debit",
+    });
+    const council: Bill = { id: "rates", company: "Sydney Council Rates", amount: 120, dueDate: "2025-01-15", status: "unpaid" };
+
+    it("should score a learned alias as a full name match", () => {
+      const learned = new BillMatcher([
+        { pattern: "city of sydney", biller: "sydney council rates", source: "confirmed" },
+      ]);
+
+      const [match] = learned.matchTransactionsToBills([debit("SQ *CITY OF SYDNEY 2010")], [council]);
+
+      expect(match.confidence).toBe(100);
+      expect(match.breakdown.name).toEqual({
+        score: 0.2,
+        reason: '"city of sydney" was matched to sydney council rates before',
+        alias: { pattern: "city of sydney", biller: "sydney council rates", source: "confirmed" },
+      });
+    });
+
+    it("should prefer a learned alias over the seeds", () => {
+      const learned = new BillMatcher([
+        { pattern: "origin", biller: "electricity", source: "seed" },
+        { pattern: "origin", biller: "origin electricity", source: "confirmed" },
+      ]);
+
+      const [match] = learned.matchTransactionsToBills(
+        [debit("ORIGIN 4417 DD")],
+        [{ ...council, id: "power", company: "Origin Electricity" }]
+      );
+
+      expect(match.breakdown.name.score).toBe(0.2);
+      expect(match.breakdown.name.alias?.source).toBe("confirmed");
+    });
+
+    it("should not fall back to the seeds when given its own table", () => {
+      const empty = new BillMatcher([]);
+
+      const [match] = empty.matchTransactionsToBills(
+        [debit("amzn digital")],
+        [{ ...council, id: "amazon", company: "Amazon" }]
+      );
+
+      expect(match.breakdown.name.alias).toBeNull();
+    });
+  });
+
+  describe("payment references", () => {
+    const bill: Bill = {
+      id: "water",
+      company: "Sydney Water",
+      amount: 95,
+      dueDate: "2025-01-15",
+      status: "unpaid",
+      bpayCrn: "12345678903",
+      accountNumber: "9876 5432",
+    };
+    const debit = (description: string): Transaction => ({ date: "2025-01-15", description, amount: 95, type: "debit" });
+
+    it("should score a quoted BPAY reference as a full name match", () => {
+      const [match] = matcher.matchTransactionsToBills([debit("BPAY 12345 REF 1234 5678 903")], [bill]);
+
+      expect(match.confidence).toBe(100);
+      expect(match.breakdown.name).toEqual({ score: 0.2, reason: "description quotes the BPAY reference", alias: null });
+    });
+
+    it("should score a quoted account number as a full name match", () => {
+      const [match] = matcher.matchTransactionsToBills([debit("DIRECT DEBIT SW 98765432")], [bill]);
+
+      expect(match.breakdown.name.reason).toBe("description quotes the account number");
+    });
+
+    it("should ignore references too short to be telling", () => {
+      const [match] = matcher.matchTransactionsToBills(
+        [debit("PAYMENT 1234")],
+        [{ ...bill, bpayCrn: null, accountNumber: "1234" }]
+      );
+
+      expect(match?.breakdown.name.reason).not.toBe("description quotes the account number");
+    });
+  });
+
+  describe("credit card statements", () => {
+    const card: Bill = {
+      id: "visa",
+      company: "ANZ Visa",
+      amount: 2450.3,
+      dueDate: "2025-01-20",
+      status: "unpaid",
+      minimumPayment: 49,
+    };
+    const payment = (amount: number): Transaction => ({
+      date: "2025-01-18",
+      description: "ANZ VISA PAYMENT",
+      amount,
+      type: "debit",
+    });
+
+    it("should accept the closing balance", () => {
+      const [match] = matcher.matchTransactionsToBills([payment(2450.3)], [card]);
+
+      expect(match.confidence).toBe(100);
+      expect(match.breakdown.amount.reason).toBe("exact amount");
+    });
+
+    it("should accept the minimum payment", () => {
+      const [match] = matcher.matchTransactionsToBills([payment(49)], [card]);
+
+      expect(match.confidence).toBe(100);
+      expect(match.breakdown.amount).toEqual({ score: 0.5, reason: "exact minimum payment" });
+    });
+
+    it("should not fall back to the minimum once part of the balance is paid", () => {
+      const [match] = matcher.matchTransactionsToBills(
+        [payment(49)],
+        [{ ...card, status: "partially_paid", amountPaid: 49 }]
+      );
+
+      expect(match).toBeUndefined();
+    });
+  });
+
+  describe("foreign currency bills", () => {
+    const fx = {
+      baseCurrency: "AUD" as const,
+      table: new FxTable([
+        { from: "USD", to: "AUD", date: "2025-01-10", rate: 1.55 },
+        { from: "USD", to: "AUD", date: "2025-01-15", rate: 1.6 },
+      ]),
+    };
+    const netflix: Bill = {
+      id: "netflix",
+      company: "Netflix",
+      amount: 15.99,
+      currency: "USD",
+      baseAmount: 24.78,
+      dueDate: "2025-01-15",
+      status: "unpaid",
+    };
+    const debit = (amount: number, date = "2025-01-15"): Transaction => ({
+      date,
+      description: "NETFLIX.COM LOS GATOS",
+      amount,
+      type: "debit",
+    });
+
+    it("should convert at the rate on the transaction day", () => {
+      const [match] = new BillMatcher(undefined, [], fx).matchTransactionsToBills([debit(25.58)], [netflix]);
+
+      expect(match.breakdown.amount).toEqual({ score: 0.5, reason: "exact amount in AUD" });
+    });
+
+    it("should allow for FX spread and fees on the debit", () => {
+      const [match] = new BillMatcher(undefined, [], fx).matchTransactionsToBills([debit(26.6)], [netflix]);
+
+      expect(match.breakdown.amount).toEqual({
+        score: 0.5,
+        reason: "amount in AUD within 5%, allowing for FX spread",
+      });
+    });
+
+    it("should fall back to the stored rate when the table has none for the day", () => {
+      const [match] = new BillMatcher(undefined, [], fx).matchTransactionsToBills(
+        [debit(24.78, "2025-03-01")],
+        [{ ...netflix, dueDate: "2025-03-01" }]
+      );
+
+      expect(match.breakdown.amount.reason).toBe("exact amount in AUD");
+    });
+
+    it("should compare amounts as they are without an FX table", () => {
+      const [match] = matcher.matchTransactionsToBills([debit(25.58)], [netflix]);
+
+      expect(match).toBeUndefined();
+    });
+  });
+
+  describe("rejected pairs", () => {
+    const agl: Transaction = { date: "2025-01-15", description: "AGL ENERGY", amount: 100, type: "debit" };
+    const bills: Bill[] = [
+      { id: "agl-jan", company: "AGL Energy", amount: 100, dueDate: "2025-01-15", status: "unpaid" },
+      { id: "agl-feb", company: "AGL Energy", amount: 100, dueDate: "2025-01-20", status: "unpaid" },
+    ];
+
+    it("should never propose a rejected pair", () => {
+      const rejecting = new BillMatcher(undefined, [{ billId: "agl-jan", transactionKey: transactionKey(agl) }]);
+
+      const [match] = rejecting.matchTransactionsToBills([agl], bills);
+
+      expect(match.billId).toBe("agl-feb");
+      expect(match.breakdown.rejected).toContainEqual(
+        expect.objectContaining({ billId: "agl-jan", confidence: 0, reason: "you rejected this match" })
+      );
+    });
+
+    it("should leave the transaction unmatched when every pair is rejected", () => {
+      const rejecting = new BillMatcher(
+        undefined,
+        bills.map((b) => ({ billId: b.id, transactionKey: transactionKey(agl) }))
+      );
+
+      const { matches, runnersUp, unmatched } = rejecting.assignTransactionsToBills([agl], bills);
+
+      expect(matches).toEqual([]);
+      expect(runnersUp).toEqual([]);
+      expect(unmatched).toHaveLength(1);
+    });
+
+    it("should not offer a rejected pair as a part payment", () => {
+      const part = { ...agl, amount: 40 };
+      const rejecting = new BillMatcher(undefined, [{ billId: "agl-jan", transactionKey: transactionKey(part) }]);
+
+      const { matches } = rejecting.assignTransactionsToBills([part], [bills[0]]);
+
+      expect(matches).toEqual([]);
+    });
+
+    it("should key transactions by date, amount and description", () => {
+      expect(transactionKey({ date: "2025-01-15", amount: 100, description: " AGL  Energy " })).toBe(
+        "2025-01-15|100.00|agl energy"
+      );
+    });
+  });
 });
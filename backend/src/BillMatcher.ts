@@ -1,4 +1,7 @@
 import { Transaction } from "./StatementAnalyzer.js";
+import { DEFAULT_ALIASES, MerchantAlias, normalizeDescription } from "./AliasStore.js";
+import { Currency } from "./BillExtraction.js";
+import { FxConversion } from "./FxStore.js";
 
 export interface Bill {
   id: string;
@@ -6,6 +9,48 @@ export interface Bill {
   amount: number | null;
   dueDate: string | null;
   status: string;
+  /** Bills in another currency are converted before comparing, see `fx` */
+  currency?: Currency | null;
+  /** `amount` in the base currency as stored, used when there's no rate for the day */
+  baseAmount?: number | null;
+  /** Sum of the payments linked so far (partially_paid bills), in the base currency */
+  amountPaid?: number;
+  /** Payment references from the bill, quoted in many payment descriptions */
+  bpayCrn?: string | null;
+  accountNumber?: string | null;
+  /** Credit cards: paying this much counts as well as paying the whole balance */
+  minimumPayment?: number | null;
+}
+
+export interface ScoreComponent {
+  /** Contribution to the total, already weighted (amount up to 0.5, date 0.3, name 0.2) */
+  score: number;
+  /** Human-readable reason, e.g. "amount within 2%" or "paid 3 days before due" */
+  reason: string;
+}
+
+export interface NameScore extends ScoreComponent {
+  /** Merchant alias that fired, e.g. "agl" counting as an electricity provider */
+  alias: MerchantAlias | null;
+}
+
+/** Another bill the transaction was scored against, and why it lost */
+export interface RejectedCandidate {
+  billId: string;
+  billCompany: string | null;
+  billAmount: number | null;
+  confidence: number;
+  reason: string;
+}
+
+export interface MatchBreakdown {
+  amount: ScoreComponent;
+  date: ScoreComponent;
+  name: NameScore;
+  /** The reasons that scored, joined up, e.g. "amount within 2%, paid 3 days before due" */
+  explanation: string;
+  /** Plausible bills that weren't picked, best first */
+  rejected: RejectedCandidate[];
 }
 
 export interface Match {
@@ -17,9 +62,100 @@ export interface Match {
   billAmount: number | null;
   billDueDate: string | null;
   confidence: number;
+  /** Pays part of what's outstanding on the bill, e.g. an instalment */
+  partial: boolean;
+  breakdown: MatchBreakdown;
+}
+
+/** A transaction/bill pair the user said doesn't go together */
+export interface RejectedPair {
+  billId: string;
+  /** transactionKey() of the transaction */
+  transactionKey: string;
+}
+
+/** A candidate pair that scored high enough but lost out in assignment mode */
+export interface RunnerUp extends Match {
+  /** bill_taken: the bill went to another transaction; transaction_taken: the transaction paid another bill */
+  reason: "bill_taken" | "transaction_taken";
+}
+
+/** A debit that didn't match any bill, with the bills that came closest */
+export interface UnmatchedTransaction {
+  transactionDate: string;
+  transactionDescription: string;
+  transactionAmount: number;
+  rejected: RejectedCandidate[];
+}
+
+export interface Assignment {
+  /** At most one match per bill and per transaction */
+  matches: Match[];
+  /** Highest confidence first */
+  runnersUp: RunnerUp[];
+  unmatched: UnmatchedTransaction[];
+}
+
+// A transaction/bill pair with its score broken down
+interface Scored {
+  total: number;
+  amount: ScoreComponent;
+  date: ScoreComponent;
+  name: NameScore;
+}
+
+// Minimum score for a transaction/bill pair to count as a match
+const MIN_SCORE = 0.5;
+// What's left on a bill within this fraction of its amount counts as paid
+export const PAID_TOLERANCE = 0.02;
+// Extra slack for foreign-currency debits: the bank's rate and fees on top of the table rate
+export const FX_SPREAD = 0.03;
+// Matches at or above this are linked straight away; the rest wait for review
+export const AUTO_MATCH_CONFIDENCE = 70;
+// How many rejected candidates to report per transaction
+const MAX_REJECTED = 5;
+const REJECTED_REASON = "you rejected this match";
+
+/**
+ * Whether a match should wait for the user rather than be linked straight
+ * away. Part payments always do: a debit under what's owed with the biller's
+ * name could as easily be a refund, another service or last month's instalment.
+ */
+export function needsReview(match: Pick<Match, "confidence" | "partial">): boolean {
+  return match.partial || match.confidence < AUTO_MATCH_CONFIDENCE;
+}
+
+/**
+ * Identifies a transaction by what it says rather than by document id, so a
+ * rejection still applies when the same statement is imported again.
+ */
+export function transactionKey(tx: Pick<Transaction, "date" | "amount" | "description">): string {
+  return [tx.date, tx.amount.toFixed(2), tx.description.toLowerCase().replace(/\s+/g, " ").trim()].join("|");
 }
 
 export class BillMatcher {
+  private aliases: MerchantAlias[];
+  private rejectedPairs: Set<string>;
+  private fx: FxConversion | null;
+
+  /**
+   * `aliases` is usually the user's table from AliasStore, and
+   * `rejectedPairs` the matches they've rejected (MatchStore), which are never
+   * proposed again. With `fx`, transactions are taken to be in the base
+   * currency and foreign bills are converted at the rate on the transaction day.
+   */
+  constructor(
+    aliases: MerchantAlias[] = DEFAULT_ALIASES,
+    rejectedPairs: RejectedPair[] = [],
+    fx: FxConversion | null = null
+  ) {
+    // What the user taught us wins over the seeds, and longer patterns over shorter
+    const rank = (a: MerchantAlias) => (a.source === "seed" ? 1 : 0);
+    this.aliases = [...aliases].sort((a, b) => rank(a) - rank(b) || b.pattern.length - a.pattern.length);
+    this.rejectedPairs = new Set(rejectedPairs.map((p) => `${p.billId}|${p.transactionKey}`));
+    this.fx = fx;
+  }
+
   /**
    * Match transactions to unpaid bills
    * Returns an array of matches with confidence scores
@@ -44,79 +180,304 @@ export class BillMatcher {
     return matches;
   }
 
-  private findBestMatch(tx: Transaction, bills: Bill[]): Match | null {
-    let bestMatch: Match | null = null;
-    let bestScore = 0;
-
-    for (const bill of bills) {
-      if (!bill.amount) continue;
-
-      const score = this.calculateMatchScore(tx, bill);
-      if (score > bestScore && score >= 0.5) {
-        bestScore = score;
-        bestMatch = {
-          transactionDate: tx.date,
-          transactionDescription: tx.description,
-          transactionAmount: tx.amount,
-          billId: bill.id,
-          billCompany: bill.company,
-          billAmount: bill.amount,
-          billDueDate: bill.dueDate,
-          confidence: Math.round(score * 100),
-        };
+  /**
+   * Assignment mode: optimise the whole transaction x bill score matrix at
+   * once so that each bill is paid by at most one transaction (and each
+   * transaction pays at most one bill), maximising the total score.
+   * Debits left over are then tried as partial payments, so several of them
+   * can add up to one bill. Pairs that scored high enough but weren't picked
+   * are returned as runners-up, and debits that matched nothing as unmatched.
+   */
+  assignTransactionsToBills(transactions: Transaction[], bills: Bill[]): Assignment {
+    const debits = transactions.filter((tx) => tx.type === "debit");
+    const unpaidBills = bills.filter((b) => b.status !== "paid" && b.amount && outstanding(b) > 0);
+
+    const scored = debits.map((tx) => unpaidBills.map((bill) => this.scoreMatch(tx, bill)));
+    const scores = scored.map((row) => row.map((s) => (s.total >= MIN_SCORE ? s.total : 0)));
+    const assigned = maximumWeightAssignment(scores);
+
+    const chosen: { i: number; j: number; scored: Scored; partial: boolean }[] = [];
+    const takenBills = new Set<number>();
+    const pairs = new Set<string>();
+    const left = unpaidBills.map(outstanding);
+    debits.forEach((_, i) => {
+      const j = assigned[i];
+      if (j !== -1 && scores[i][j] > 0) {
+        chosen.push({ i, j, scored: scored[i][j], partial: false });
+        takenBills.add(j);
+        pairs.add(`${i}:${j}`);
+        left[j] = 0;
       }
+    });
+
+    // Oldest first, so instalments are applied in the order they were paid
+    const unassigned = debits
+      .map((tx, i) => ({ tx, i }))
+      .filter(({ i }) => !pairs.has(`${i}:${assigned[i]}`))
+      .sort((a, b) => a.tx.date.localeCompare(b.tx.date));
+    for (const { tx, i } of unassigned) {
+      let best = -1;
+      let bestScored: Scored | null = null;
+      unpaidBills.forEach((bill, j) => {
+        const partial = this.scorePartialPayment(tx, bill, left[j]);
+        if (partial.total >= MIN_SCORE && partial.total > (bestScored?.total ?? 0)) {
+          best = j;
+          bestScored = partial;
+        }
+      });
+      if (best === -1 || !bestScored) continue;
+
+      chosen.push({ i, j: best, scored: bestScored, partial: true });
+      takenBills.add(best);
+      pairs.add(`${i}:${best}`);
+      left[best] = Math.round((left[best] - tx.amount) * 100) / 100;
     }
 
-    return bestMatch;
+    // Why each other plausible bill wasn't the one for transaction i
+    const rejectedFor = (i: number, winner: number | null): RejectedCandidate[] =>
+      this.rejectedCandidates(
+        unpaidBills.map((bill, j) => ({ bill, scored: scored[i][j] })).filter((_, j) => j !== winner),
+        winner === null ? null : unpaidBills[winner],
+        (bill) => {
+          const j = unpaidBills.indexOf(bill);
+          return takenBills.has(j) && !pairs.has(`${i}:${j}`);
+        }
+      );
+
+    const matches = chosen.map(({ i, j, scored: s, partial }) => ({
+      ...this.toMatch(debits[i], unpaidBills[j], s, rejectedFor(i, j)),
+      partial,
+    }));
+
+    const runnersUp: RunnerUp[] = [];
+    debits.forEach((tx, i) => {
+      unpaidBills.forEach((bill, j) => {
+        if (scores[i][j] === 0 || pairs.has(`${i}:${j}`)) return;
+        runnersUp.push({
+          ...this.toMatch(tx, bill, scored[i][j], []),
+          reason: takenBills.has(j) ? "bill_taken" : "transaction_taken",
+        });
+      });
+    });
+    runnersUp.sort((a, b) => b.confidence - a.confidence);
+
+    const matchedDebits = new Set(chosen.map((c) => c.i));
+    const unmatched = debits
+      .map((tx, i) => ({ tx, i }))
+      .filter(({ i }) => !matchedDebits.has(i))
+      .map(({ tx, i }) => ({
+        transactionDate: tx.date,
+        transactionDescription: tx.description,
+        transactionAmount: tx.amount,
+        rejected: rejectedFor(i, null),
+      }));
+
+    return { matches, runnersUp, unmatched };
   }
 
-  private calculateMatchScore(tx: Transaction, bill: Bill): number {
-    let score = 0;
+  private findBestMatch(tx: Transaction, bills: Bill[]): Match | null {
+    const candidates = bills
+      .filter((bill) => bill.amount)
+      .map((bill) => ({ bill, scored: this.scoreMatch(tx, bill) }));
 
-    // Amount matching (most important) - within 2% tolerance
-    if (bill.amount) {
-      const amountDiff = Math.abs(tx.amount - bill.amount) / bill.amount;
-      if (amountDiff <= 0.02) {
-        score += 0.5; // 50% weight for amount match
-      } else if (amountDiff <= 0.05) {
-        score += 0.3; // Partial score for close match
-      } else {
-        return 0; // No match if amount is too different
+    let best: (typeof candidates)[number] | null = null;
+    for (const candidate of candidates) {
+      if (candidate.scored.total > (best?.scored.total ?? 0) && candidate.scored.total >= MIN_SCORE) {
+        best = candidate;
       }
     }
+    if (!best) return null;
 
-    // Date matching - transaction should be around or after due date
+    const rejected = this.rejectedCandidates(
+      candidates.filter((c) => c !== best),
+      best.bill,
+      () => false
+    );
+    return this.toMatch(tx, best.bill, best.scored, rejected);
+  }
+
+  /**
+   * Explain why the other candidates lost to `winner` (or why none won).
+   * Only plausible ones are reported - a close amount or a matching name -
+   * so every bill in the account doesn't show up for every transaction.
+   */
+  private rejectedCandidates(
+    candidates: { bill: Bill; scored: Scored }[],
+    winner: Bill | null,
+    takenByOther: (bill: Bill) => boolean
+  ): RejectedCandidate[] {
+    return candidates
+      .filter(({ scored }) => scored.total > 0 || scored.name.score >= 0.1)
+      .sort((a, b) => b.scored.total - a.scored.total)
+      .slice(0, MAX_REJECTED)
+      .map(({ bill, scored }) => {
+        const confidence = Math.round(scored.total * 100);
+        let reason: string;
+        if (scored.total === 0) {
+          reason = scored.amount.reason;
+        } else if (scored.total < MIN_SCORE) {
+          reason = `confidence ${confidence}% is below ${MIN_SCORE * 100}%`;
+        } else if (takenByOther(bill)) {
+          reason = "bill matched to another transaction";
+        } else {
+          reason = `lower confidence than ${winner?.company || "the matched bill"}`;
+        }
+        return { billId: bill.id, billCompany: bill.company, billAmount: bill.amount, confidence, reason };
+      });
+  }
+
+  /**
+   * Score a debit as a part payment of what's `left` on a bill. The amount can't
+   * tell us much, so the payee has to look like the biller. Instalments often
+   * land after the due date, hence the wider date window.
+   */
+  private scorePartialPayment(tx: Transaction, bill: Bill, left: number): Scored {
+    const name = this.scoreName(tx, bill);
+    const rejected = (reason: string): Scored => ({
+      total: 0,
+      amount: { score: 0, reason },
+      date: { score: 0, reason: "not checked" },
+      name,
+    });
+
+    if (this.isRejected(tx, bill)) return rejected(REJECTED_REASON);
+    if (left <= 0) return rejected("nothing left to pay");
+    if (tx.amount > left * (1 + PAID_TOLERANCE)) return rejected(`more than the ${left.toFixed(2)} left to pay`);
+    if (name.score < 0.5 * 0.2) return rejected("part payment, but the name doesn't match");
+
+    const amount = { score: 0.2, reason: `part payment of the ${left.toFixed(2)} left` };
+    let date: ScoreComponent = { score: 0, reason: "bill has no due date" };
     if (bill.dueDate) {
-      const txDate = new Date(tx.date);
-      const dueDate = new Date(bill.dueDate);
-      const daysDiff = (txDate.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24);
-
-      // Transaction should be within -7 to +14 days of due date
-      if (daysDiff >= -7 && daysDiff <= 14) {
-        score += 0.3; // 30% weight for date match
-      } else if (daysDiff >= -14 && daysDiff <= 30) {
-        score += 0.15; // Partial score
-      }
+      const daysDiff = daysBetween(bill.dueDate, tx.date);
+      date =
+        daysDiff >= -30 && daysDiff <= 120
+          ? { score: 0.3, reason: `${describeTiming(daysDiff)} (instalment window)` }
+          : { score: 0, reason: `${describeTiming(daysDiff)}, outside the instalment window` };
     }
+    return { total: amount.score + date.score + name.score, amount, date, name };
+  }
 
-    // Company name matching (fuzzy)
-    if (bill.company) {
-      const similarity = this.calculateNameSimilarity(
-        tx.description.toLowerCase(),
-        bill.company.toLowerCase()
+  private toMatch(tx: Transaction, bill: Bill, scored: Scored, rejected: RejectedCandidate[]): Match {
+    return {
+      transactionDate: tx.date,
+      transactionDescription: tx.description,
+      transactionAmount: tx.amount,
+      billId: bill.id,
+      billCompany: bill.company,
+      billAmount: bill.amount,
+      billDueDate: bill.dueDate,
+      confidence: Math.round(scored.total * 100),
+      partial: false,
+      breakdown: {
+        amount: scored.amount,
+        date: scored.date,
+        name: scored.name,
+        explanation: [scored.amount, scored.date, scored.name]
+          .filter((c) => c.score > 0)
+          .map((c) => c.reason)
+          .join(", "),
+        rejected,
+      },
+    };
+  }
+
+  private scoreMatch(tx: Transaction, bill: Bill): Scored {
+    const amount = this.scoreAmount(tx, bill);
+    const date = this.scoreDate(tx, bill);
+    const name = this.scoreName(tx, bill);
+
+    if (this.isRejected(tx, bill)) {
+      return { total: 0, amount: { score: 0, reason: REJECTED_REASON }, date, name };
+    }
+
+    // No match if amount is too different
+    const total = amount.score === 0 && bill.amount ? 0 : amount.score + date.score + name.score;
+    return { total, amount, date, name };
+  }
+
+  private isRejected(tx: Transaction, bill: Bill): boolean {
+    return this.rejectedPairs.has(`${bill.id}|${transactionKey(tx)}`);
+  }
+
+  private scoreAmount(tx: Transaction, bill: Bill): ScoreComponent {
+    // Amount matching (most important) - within 2% tolerance of what's still owed
+    if (!bill.amount) return { score: 0, reason: "bill has no amount" };
+
+    const foreign = this.isForeign(bill);
+    const rate = foreign ? this.fxRate(bill, tx.date) : 1;
+    if (rate === null) return { score: 0, reason: `no ${bill.currency} exchange rate for ${tx.date}` };
+    const spread = foreign ? FX_SPREAD : 0;
+    const inBase = foreign ? ` in ${this.fx!.baseCurrency}` : "";
+
+    const paid = bill.amountPaid || 0;
+    const owed = Math.round((bill.amount * rate - paid) * 100) / 100;
+    const full = compareAmount(tx.amount, owed, `${paid ? "amount left" : "amount"}${inBase}`, spread);
+
+    // A credit card is just as paid by its minimum, until something's been paid off it
+    if (bill.minimumPayment && !paid && bill.minimumPayment < bill.amount) {
+      const minimum = compareAmount(
+        tx.amount,
+        Math.round(bill.minimumPayment * rate * 100) / 100,
+        `minimum payment${inBase}`,
+        spread
       );
-      score += similarity * 0.2; // 20% weight for name match
+      if (minimum.score > full.score) return minimum;
     }
+    return full;
+  }
+
+  private isForeign(bill: Bill): boolean {
+    return Boolean(this.fx && bill.currency && bill.currency !== this.fx.baseCurrency);
+  }
 
-    return score;
+  // Rate on the transaction day, else the one the bill was stored with
+  private fxRate(bill: Bill, date: string): number | null {
+    const rate = this.fx!.table.rate(bill.currency!, this.fx!.baseCurrency, date);
+    if (rate !== null) return rate;
+    return bill.baseAmount && bill.amount ? bill.baseAmount / bill.amount : null;
   }
 
-  private calculateNameSimilarity(txDesc: string, billCompany: string): number {
+  private scoreDate(tx: Transaction, bill: Bill): ScoreComponent {
+    // Date matching - transaction should be around or after due date
+    if (!bill.dueDate) return { score: 0, reason: "bill has no due date" };
+
+    const daysDiff = daysBetween(bill.dueDate, tx.date);
+    const timing = describeTiming(daysDiff);
+
+    // Transaction should be within -7 to +14 days of due date
+    if (daysDiff >= -7 && daysDiff <= 14) {
+      return { score: 0.3, reason: timing }; // 30% weight for date match
+    } else if (daysDiff >= -14 && daysDiff <= 30) {
+      return { score: 0.15, reason: `${timing} (outside the usual window)` }; // Partial score
+    }
+    return { score: 0, reason: `${timing}, too far from the due date` };
+  }
+
+  private scoreName(tx: Transaction, bill: Bill): NameScore {
+    // A BPAY payment or direct debit quoting the bill's reference is as good as the name
+    const reference = quotedReference(tx.description, bill);
+    if (reference) return { score: 0.2, reason: `description quotes the ${reference}`, alias: null };
+
+    // Company name matching (fuzzy)
+    if (!bill.company) return { score: 0, reason: "bill has no company name", alias: null };
+
+    const { similarity, reason, alias } = this.calculateNameSimilarity(
+      tx.description.toLowerCase(),
+      bill.company.toLowerCase()
+    );
+    return { score: similarity * 0.2, reason, alias }; // 20% weight for name match
+  }
+
+  private calculateNameSimilarity(
+    txDesc: string,
+    billCompany: string
+  ): { similarity: number; reason: string; alias: MerchantAlias | null } {
     // Simple word overlap check
-    const txWords = txDesc.split(/\s+/).filter((w) => w.length > 2);
     const billWords = billCompany.split(/\s+/).filter((w) => w.length > 2);
 
-    if (billWords.length === 0) return 0;
+    if (billWords.length === 0) {
+      return { similarity: 0, reason: "company name too short to compare", alias: null };
+    }
 
     let matchCount = 0;
     for (const billWord of billWords) {
@@ -127,28 +488,145 @@ export class BillMatcher {
 
     // Also check if company name is contained in description
     if (txDesc.includes(billCompany)) {
-      return 1;
+      return { similarity: 1, reason: `description contains "${billCompany}"`, alias: null };
+    }
+
+    // Known aliases, before falling back to word overlap
+    const normalizedDesc = normalizeDescription(txDesc);
+    const normalizedCompany = normalizeDescription(billCompany);
+    const alias = this.aliases.find(
+      (a) => normalizedDesc.includes(a.pattern) && normalizedCompany.includes(a.biller)
+    );
+    if (alias?.source === "seed") {
+      return { similarity: 0.8, reason: `"${alias.pattern}" is a known ${alias.biller} name`, alias };
+    } else if (alias) {
+      // Learned from the user confirming or correcting a match
+      return { similarity: 1, reason: `"${alias.pattern}" was matched to ${alias.biller} before`, alias };
     }
 
-    // Check common abbreviations
-    const commonMappings: Record<string, string[]> = {
-      electricity: ["agl", "origin", "energy", "ausgrid"],
-      internet: ["optus", "telstra", "nbn", "tpg", "iinet"],
-      phone: ["optus", "telstra", "vodafone", "amaysim"],
-      insurance: ["nrma", "allianz", "qbe", "suncorp"],
-      netflix: ["netflix"],
-      spotify: ["spotify"],
-      amazon: ["amzn", "amazon", "aws"],
+    return {
+      similarity: matchCount / billWords.length,
+      reason:
+        matchCount === 0
+          ? "name doesn't match"
+          : `${matchCount} of ${billWords.length} name words match`,
+      alias: null,
     };
+  }
+}
+
+function daysBetween(dueDate: string, paidDate: string): number {
+  return Math.round((new Date(paidDate).getTime() - new Date(dueDate).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function describeTiming(daysDiff: number): string {
+  if (daysDiff === 0) return "paid on the due date";
+  const days = Math.abs(daysDiff) === 1 ? "1 day" : `${Math.abs(daysDiff)} days`;
+  return daysDiff < 0 ? `paid ${days} before due` : `paid ${days} after due`;
+}
+
+// References shorter than this turn up in descriptions by chance
+const MIN_REFERENCE_DIGITS = 6;
 
-    for (const [category, keywords] of Object.entries(commonMappings)) {
-      const billHasCategory = billCompany.includes(category);
-      const txHasKeyword = keywords.some((kw) => txDesc.includes(kw));
-      if (billHasCategory && txHasKeyword) {
-        return 0.8;
+/**
+ * Which of the bill's references the description quotes, if any. Only the
+ * digits are compared, so "Ref 1234 5678 903" quotes CRN 12345678903.
+ */
+function quotedReference(description: string, bill: Bill): string | null {
+  const numbers = description.replace(/(\d)[\s-](?=\d)/g, "$1").match(/\d+/g) || [];
+  const quotes = (reference?: string | null) => {
+    const digits = (reference || "").replace(/\D/g, "");
+    return digits.length >= MIN_REFERENCE_DIGITS && numbers.some((n) => n.includes(digits));
+  };
+  if (quotes(bill.bpayCrn)) return "BPAY reference";
+  if (quotes(bill.accountNumber)) return "account number";
+  return null;
+}
+
+// `spread` widens both bands for converted amounts
+function compareAmount(paid: number, expected: number, what: string, spread = 0): ScoreComponent {
+  const amountDiff = Math.abs(paid - expected) / expected;
+  const allowing = spread > 0 ? ", allowing for FX spread" : "";
+  if (amountDiff === 0) {
+    return { score: 0.5, reason: `exact ${what}` };
+  } else if (amountDiff <= 0.02 + spread) {
+    // 50% weight for amount match
+    return { score: 0.5, reason: `${what} within ${Math.round((0.02 + spread) * 100)}%${allowing}` };
+  } else if (amountDiff <= 0.05 + spread) {
+    // Partial score for close match
+    return { score: 0.3, reason: `${what} within ${Math.round((0.05 + spread) * 100)}%${allowing}` };
+  }
+  return { score: 0, reason: `${what} differs by ${Math.round(amountDiff * 100)}%` };
+}
+
+/** What's still owed on a bill after the payments linked so far, in the base currency */
+function outstanding(bill: Bill): number {
+  return Math.round(((bill.baseAmount ?? bill.amount ?? 0) - (bill.amountPaid || 0)) * 100) / 100;
+}
+
+/**
+ * Hungarian algorithm (Kuhn-Munkres) for a maximum-weight assignment on a
+ * rows x cols matrix of non-negative weights. The matrix is padded to square
+ * with zeros, so rows can end up on a zero-weight column - callers treat those
+ * as unassigned. Returns the column for each row, or -1.
+ */
+function maximumWeightAssignment(weights: number[][]): number[] {
+  const rows = weights.length;
+  const cols = rows > 0 ? weights[0].length : 0;
+  const n = Math.max(rows, cols);
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+
+  // Minimise cost = -weight; 1-based arrays as in the textbook formulation
+  const cost = (i: number, j: number) => (i <= rows && j <= cols ? -weights[i - 1][j - 1] : 0);
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const rowOfCol = new Array(n + 1).fill(0);
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    rowOfCol[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = rowOfCol[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const reduced = cost(i0, j) - u[i0] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
       }
-    }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[rowOfCol[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (rowOfCol[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      rowOfCol[j0] = rowOfCol[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
 
-    return matchCount / billWords.length;
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (rowOfCol[j] >= 1 && rowOfCol[j] <= rows) assignment[rowOfCol[j] - 1] = j - 1;
   }
+  return assignment;
 }
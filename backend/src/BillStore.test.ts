@@ -0,0 +1,401 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import { BillStore } from "./BillStore.js";
+import { Email } from "./Email.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+import { BillExtraction } from "./BillExtraction.js";
+
+describe("BillStore", () => {
+  let db: FakeFirestore;
+  let store: BillStore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    store = new BillStore(db as unknown as Firestore);
+  });
+
+  const createTestEmail = (id: string = "msg-1") =>
+    new Email({
+      id,
+      subject: "Your AGL bill",
+      from: "billing@agl.com.au",
+      date: "2025-01-15",
+      body: "Amount due: $150",
+      pdfText: "",
+    });
+
+  const billData: BillExtraction = {
+    isBill: true,
+    company: "AGL Energy",
+    amount: 150,
+    currency: "AUD",
+    dueDate: "2025-01-30",
+    billType: "electricity",
+    status: "unpaid",
+    confidence: 90,
+    bpayBillerCode: null,
+    bpayCrn: null,
+    accountNumber: null,
+    invoiceNumber: null,
+    billingPeriodStart: null,
+    billingPeriodEnd: null,
+    payUrl: null,
+    minimumPayment: null,
+    interestRate: null,
+    validationErrors: [],
+  };
+
+  describe("billId", () => {
+    it("should key complete bills by company, amount and due date", () => {
+      const a = BillStore.billId("msg-1", billData);
+      const b = BillStore.billId("msg-2", { ...billData, company: "agl energy!" });
+
+      expect(a).toMatch(/^bill_/);
+      expect(a).toBe(b);
+    });
+
+    it("should distinguish different amounts", () => {
+      expect(BillStore.billId("msg-1", billData)).not.toBe(
+        BillStore.billId("msg-1", { ...billData, amount: 151 })
+      );
+    });
+
+    it("should fall back to the message id when fields are missing", () => {
+      expect(BillStore.billId("msg-1", { ...billData, dueDate: null })).toBe("msg_msg-1");
+    });
+  });
+
+  describe("upsert", () => {
+    it("should store a new bill under users/{uid}/bills", async () => {
+      const bill = await store.upsert("user1", createTestEmail(), billData);
+
+      const stored = db.dump("users/user1/bills");
+      expect(Object.keys(stored)).toEqual([bill.id]);
+      expect(stored[bill.id]).toMatchObject({
+        id: bill.id,
+        company: "AGL Energy",
+        amount: 150,
+        status: "unpaid",
+        sourceEmailIds: ["msg-1"],
+        emailSubject: "Your AGL bill",
+      });
+    });
+
+    it("should not duplicate when the same message is scanned twice", async () => {
+      await store.upsert("user1", createTestEmail(), billData);
+      await store.upsert("user1", createTestEmail(), billData);
+
+      expect(Object.keys(db.dump("users/user1/bills"))).toHaveLength(1);
+    });
+
+    it("should update the same document when a re-scan extracts different fields", async () => {
+      const first = await store.upsert("user1", createTestEmail(), billData);
+      const second = await store.upsert("user1", createTestEmail(), { ...billData, amount: 155 });
+
+      expect(second.id).toBe(first.id);
+      expect(db.dump("users/user1/bills")[first.id].amount).toBe(155);
+    });
+
+    it("should merge a repeat reminder for the same bill", async () => {
+      await store.upsert("user1", createTestEmail("msg-1"), billData);
+      const bill = await store.upsert("user1", createTestEmail("msg-2"), billData);
+
+      const stored = db.dump("users/user1/bills");
+      expect(Object.keys(stored)).toHaveLength(1);
+      expect(bill.sourceEmailIds).toEqual(["msg-1", "msg-2"]);
+    });
+
+    it("should preserve user-set status and paidDate across re-scans", async () => {
+      const bill = await store.upsert("user1", createTestEmail(), billData);
+      await db
+        .collection("users")
+        .doc("user1")
+        .collection("bills")
+        .doc(bill.id)
+        .update({ status: "paid", paidDate: "2025-01-28" });
+
+      const rescanned = await store.upsert("user1", createTestEmail(), billData);
+
+      expect(rescanned.status).toBe("paid");
+      expect(rescanned.paidDate).toBe("2025-01-28");
+      expect(db.dump("users/user1/bills")[bill.id]).toMatchObject({
+        status: "paid",
+        paidDate: "2025-01-28",
+      });
+    });
+
+    it("should keep bills for different users separate", async () => {
+      await store.upsert("user1", createTestEmail(), billData);
+      await store.upsert("user2", createTestEmail(), billData);
+
+      expect(Object.keys(db.dump("users/user1/bills"))).toHaveLength(1);
+      expect(Object.keys(db.dump("users/user2/bills"))).toHaveLength(1);
+    });
+
+    it("should map an unknown extracted status to unpaid", async () => {
+      const bill = await store.upsert("user1", createTestEmail(), { ...billData, status: "unknown" });
+
+      expect(bill.status).toBe("unpaid");
+    });
+  });
+
+  describe("recordPayment", () => {
+    const payment = (transactionId: string, amount: number, date = "2025-01-20") => ({
+      transactionId,
+      date,
+      description: "AGL ENERGY BPAY",
+      amount,
+      confidence: 80,
+    });
+
+    it("should start new bills with nothing paid", async () => {
+      const bill = await store.upsert("user1", createTestEmail(), billData);
+
+      expect(bill).toMatchObject({ amountPaid: 0, remaining: 150, payments: [] });
+    });
+
+    it("should move a bill from unpaid to partially_paid to paid", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+
+      const partial = await store.recordPayment("user1", id, payment("tx-1", 100));
+      expect(partial).toMatchObject({ status: "partially_paid", amountPaid: 100, remaining: 50 });
+      expect(partial!.paidDate).toBeUndefined();
+
+      const paid = await store.recordPayment("user1", id, payment("tx-2", 50, "2025-01-25"));
+      expect(paid).toMatchObject({ status: "paid", amountPaid: 150, remaining: 0, paidDate: "2025-01-25" });
+
+      expect(db.dump("users/user1/bills")[id]).toMatchObject({
+        status: "paid",
+        matchedTransactionId: "tx-2",
+        payments: [payment("tx-1", 100), payment("tx-2", 50, "2025-01-25")],
+      });
+    });
+
+    it("should count a payment within the amount tolerance as paid", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+
+      expect(await store.recordPayment("user1", id, payment("tx-1", 148))).toMatchObject({
+        status: "paid",
+        remaining: 2,
+      });
+    });
+
+    it("should not count the same transaction twice", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+
+      await store.recordPayment("user1", id, payment("tx-1", 100));
+      const again = await store.recordPayment("user1", id, payment("tx-1", 100));
+
+      expect(again).toMatchObject({ status: "partially_paid", amountPaid: 100 });
+      expect(db.dump("users/user1/bills")[id].payments).toHaveLength(1);
+    });
+
+    it("should handle bills stored before payments were tracked", async () => {
+      await db.collection("users").doc("user1").collection("bills").doc("legacy").set({
+        id: "legacy",
+        company: "AGL Energy",
+        amount: 150,
+        status: "unpaid",
+      });
+
+      expect(await store.recordPayment("user1", "legacy", payment("tx-1", 150))).toMatchObject({
+        status: "paid",
+        amountPaid: 150,
+      });
+    });
+
+    it("should return null for a missing bill", async () => {
+      expect(await store.recordPayment("user1", "nope", payment("tx-1", 10))).toBeNull();
+    });
+
+    it("should recompute what's left when a re-scan changes the amount", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      await store.recordPayment("user1", id, payment("tx-1", 100));
+
+      const rescanned = await store.upsert("user1", createTestEmail(), { ...billData, amount: 160 });
+
+      expect(rescanned).toMatchObject({ status: "partially_paid", amountPaid: 100, remaining: 60 });
+    });
+  });
+
+  describe("removePayment", () => {
+    const payment = (transactionId: string, amount: number, date = "2025-01-20") => ({
+      transactionId,
+      date,
+      description: "AGL ENERGY BPAY",
+      amount,
+      confidence: null,
+    });
+
+    it("should recompute the status from the payments that are left", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      await store.recordPayment("user1", id, payment("tx-1", 100));
+      await store.recordPayment("user1", id, payment("tx-2", 50, "2025-01-25"));
+
+      const bill = await store.removePayment("user1", id, "tx-2");
+
+      expect(bill).toMatchObject({
+        status: "partially_paid",
+        amountPaid: 100,
+        remaining: 50,
+        paidDate: null,
+        matchedTransactionId: "tx-1",
+      });
+      expect(db.dump("users/user1/bills")[id].payments).toEqual([payment("tx-1", 100)]);
+    });
+
+    it("should undo an auto-match back to unpaid", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      await store.recordPayment("user1", id, { ...payment("tx-1", 150), confidence: 85 });
+
+      const bill = await store.removePayment("user1", id, "tx-1");
+
+      expect(bill).toMatchObject({
+        status: "unpaid",
+        amountPaid: 0,
+        remaining: 150,
+        paidDate: null,
+        matchedTransactionId: null,
+        autoMatched: false,
+        matchConfidence: null,
+      });
+    });
+
+    it("should undo a match made before payments were recorded", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      // How auto-matches were stored before partial payments: no payments array, just the link
+      const { payments, amountPaid, ...stored } = db.dump("users/user1/bills")[id];
+      expect({ payments, amountPaid }).toEqual({ payments: [], amountPaid: 0 });
+      const legacy = { ...stored, status: "paid", matchedTransactionId: "tx-1", autoMatched: true };
+      await db.collection("users").doc("user1").collection("bills").doc(id).set(legacy);
+
+      const bill = await store.removePayment("user1", id, "tx-1");
+
+      expect(bill).toMatchObject({ status: "unpaid", amountPaid: 0, remaining: 150, matchedTransactionId: null });
+      expect(db.dump("users/user1/bills")[id]).toMatchObject({ status: "unpaid", autoMatched: false });
+      expect(await store.removePayment("user1", id, "tx-9")).toMatchObject({ status: "unpaid" });
+    });
+
+    it("should leave the bill alone when the transaction isn't linked", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      await store.recordPayment("user1", id, payment("tx-1", 150));
+
+      expect(await store.removePayment("user1", id, "tx-9")).toMatchObject({ status: "paid", amountPaid: 150 });
+    });
+
+    it("should return null for a missing bill", async () => {
+      expect(await store.removePayment("user1", "nope", "tx-1")).toBeNull();
+    });
+  });
+
+  describe("setStatus", () => {
+    const payment = (transactionId: string, amount: number) => ({
+      transactionId,
+      date: "2025-01-20",
+      description: "AGL ENERGY BPAY",
+      amount,
+      confidence: 85,
+    });
+    const transactions = () => db.collection("users").doc("user1").collection("transactions");
+
+    it("should clear payments and unlink their transactions when marked unpaid", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      await transactions().doc("tx-1").set({ id: "tx-1", matchedBillId: id });
+      await store.recordPayment("user1", id, payment("tx-1", 100));
+
+      const bill = await store.setStatus("user1", id, "unpaid");
+
+      expect(bill).toMatchObject({
+        status: "unpaid",
+        payments: [],
+        amountPaid: 0,
+        remaining: 150,
+        matchedTransactionId: null,
+        paidDate: null,
+      });
+      expect(db.dump("users/user1/transactions")["tx-1"].matchedBillId).toBeNull();
+
+      // A later payment starts from nothing
+      expect(await store.recordPayment("user1", id, payment("tx-2", 100))).toMatchObject({
+        status: "partially_paid",
+        amountPaid: 100,
+        remaining: 50,
+      });
+    });
+
+    it("should leave nothing remaining when marked paid", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      await store.recordPayment("user1", id, payment("tx-1", 100));
+
+      const bill = await store.setStatus("user1", id, "paid");
+
+      expect(bill).toMatchObject({ status: "paid", amountPaid: 100, remaining: 0 });
+      expect(bill?.paidDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(db.dump("users/user1/bills")[id]).toMatchObject({ status: "paid", remaining: 0 });
+    });
+
+    it("should work out what's left when marked partially paid", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), billData);
+      await store.recordPayment("user1", id, payment("tx-1", 100));
+      await store.setStatus("user1", id, "paid");
+
+      const bill = await store.setStatus("user1", id, "partially_paid");
+
+      expect(bill).toMatchObject({ status: "partially_paid", amountPaid: 100, remaining: 50, paidDate: null });
+    });
+
+    it("should return null for a missing bill", async () => {
+      expect(await store.setStatus("user1", "nope", "paid")).toBeNull();
+    });
+  });
+
+  describe("currency conversion", () => {
+    const usdBill: BillExtraction = { ...billData, company: "Netflix", amount: 15.99, currency: "USD" };
+    const conversion = { baseCurrency: "AUD" as const, baseAmount: 25.58, fxRate: 1.6 };
+
+    it("should store the converted amount next to the original and track payments in it", async () => {
+      const bill = await store.upsert("user1", createTestEmail(), usdBill, conversion);
+
+      expect(bill).toMatchObject({ amount: 15.99, currency: "USD", baseAmount: 25.58, fxRate: 1.6, remaining: 25.58 });
+    });
+
+    it("should allow for FX spread before calling a foreign bill paid", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), usdBill, conversion);
+
+      expect(
+        await store.recordPayment("user1", id, {
+          transactionId: "tx-1",
+          date: "2025-01-20",
+          description: "NETFLIX.COM",
+          amount: 24.6,
+          confidence: 80,
+        })
+      ).toMatchObject({ status: "paid", amountPaid: 24.6 });
+    });
+
+    it("should re-convert stored bills and report how many changed", async () => {
+      const { id } = await store.upsert("user1", createTestEmail(), usdBill, conversion);
+      await store.upsert("user1", createTestEmail("msg-2"), billData, { baseCurrency: "AUD", baseAmount: 150, fxRate: 1 });
+
+      const changed = await store.applyConversions("user1", (bill) =>
+        bill.currency === "USD"
+          ? { baseCurrency: "AUD", baseAmount: 27.18, fxRate: 1.7 }
+          : { baseCurrency: "AUD", baseAmount: bill.amount, fxRate: 1 }
+      );
+
+      expect(changed).toBe(1);
+      expect(db.dump("users/user1/bills")[id]).toMatchObject({ baseAmount: 27.18, fxRate: 1.7, remaining: 27.18 });
+    });
+
+    it("should re-convert more bills than fit in one Firestore batch", async () => {
+      for (let i = 0; i < 600; i++) {
+        await store.upsert("user1", createTestEmail(`msg-${i}`), { ...usdBill, amount: 10 + i }, conversion);
+      }
+
+      const changed = await store.applyConversions("user1", () => ({ baseCurrency: "AUD", baseAmount: 27.18, fxRate: 1.7 }));
+
+      expect(changed).toBe(600);
+      expect(Object.values(db.dump("users/user1/bills")).every((bill) => bill.baseAmount === 27.18)).toBe(true);
+    });
+  });
+});
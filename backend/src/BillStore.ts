@@ -0,0 +1,368 @@
+import { createHash } from "crypto";
+import { DocumentReference, Firestore } from "@google-cloud/firestore";
+import { Email } from "./Email.js";
+import { BillExtraction, BillType, Currency, ValidationError } from "./BillExtraction.js";
+import { FX_SPREAD, PAID_TOLERANCE } from "./BillMatcher.js";
+import { Conversion } from "./FxStore.js";
+
+export type StoredBillStatus = "unpaid" | "partially_paid" | "paid";
+
+/** A bank transaction linked to a bill as (part of) its payment */
+export interface BillPayment {
+  transactionId: string;
+  date: string;
+  description: string;
+  amount: number;
+  /** Match confidence, or null when linked by hand */
+  confidence: number | null;
+}
+
+export interface StoredBill {
+  id: string;
+  sourceEmailIds: string[];
+  emailSubject: string;
+  emailFrom: string;
+  emailDate: string;
+  isBill: boolean;
+  company: string | null;
+  amount: number | null;
+  currency: Currency | null;
+  dueDate: string | null;
+  billType: BillType | null;
+  status: StoredBillStatus;
+  paidDate?: string | null;
+  /** `amount` in the user's base currency, which payments and `remaining` are in */
+  baseCurrency?: Currency;
+  baseAmount?: number | null;
+  fxRate?: number | null;
+  /** Sum of `payments`; absent on bills stored before payments were tracked */
+  amountPaid?: number;
+  remaining?: number | null;
+  payments?: BillPayment[];
+  /** The last transaction linked; the only link on bills matched before payments were tracked */
+  matchedTransactionId?: string | null;
+  autoMatched?: boolean;
+  matchConfidence?: number | null;
+  /** Payment references, absent on bills stored before they were extracted */
+  bpayBillerCode?: string | null;
+  bpayCrn?: string | null;
+  accountNumber?: string | null;
+  invoiceNumber?: string | null;
+  billingPeriodStart?: string | null;
+  billingPeriodEnd?: string | null;
+  payUrl?: string | null;
+  /** Credit card statements only; `amount` is the closing balance */
+  minimumPayment?: number | null;
+  interestRate?: number | null;
+  confidence: number;
+  validationErrors: ValidationError[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export class BillStore {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Deterministic document id for a bill.
+   * Bills with company, amount and due date share an id across emails, so a
+   * repeat reminder lands on the same document. Anything less complete falls
+   * back to the Gmail message id.
+   */
+  static billId(
+    emailId: string,
+    billData: Pick<BillExtraction, "company" | "amount" | "dueDate">
+  ): string {
+    const company = String(billData.company || "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, "");
+    const amount = typeof billData.amount === "number" ? billData.amount.toFixed(2) : "";
+    const dueDate = billData.dueDate || "";
+
+    if (!company || !amount || !dueDate) {
+      return `msg_${emailId}`;
+    }
+
+    const hash = createHash("sha256")
+      .update(`${company}|${amount}|${dueDate}`)
+      .digest("hex")
+      .substring(0, 20);
+    return `bill_${hash}`;
+  }
+
+  /** Every bill the user has */
+  async list(uid: string): Promise<StoredBill[]> {
+    const snapshot = await this.firestore.collection("users").doc(uid).collection("bills").get();
+    return snapshot.docs.map((doc) => doc.data() as StoredBill);
+  }
+
+  /**
+   * Insert or update a bill extracted from an email, with its amount in the
+   * user's base currency when `conversion` is given.
+   * A message that was already stored is updated in place (even if the
+   * extraction changed), and user-set fields like status survive.
+   */
+  async upsert(uid: string, email: Email, billData: BillExtraction, conversion?: Conversion): Promise<StoredBill> {
+    const bills = this.firestore.collection("users").doc(uid).collection("bills");
+
+    // Same Gmail message seen before? Update that document.
+    const byEmail = await bills
+      .where("sourceEmailIds", "array-contains", email.id)
+      .limit(1)
+      .get();
+    const ref = byEmail.empty
+      ? bills.doc(BillStore.billId(email.id, billData))
+      : byEmail.docs[0].ref;
+
+    const snapshot = await ref.get();
+    const existing = snapshot.exists ? (snapshot.data() as StoredBill) : null;
+    const now = Date.now();
+
+    const extracted = {
+      id: ref.id,
+      sourceEmailIds: [...new Set([...(existing?.sourceEmailIds || []), email.id])],
+      emailSubject: email.subject,
+      emailFrom: email.from,
+      emailDate: email.date,
+      isBill: true,
+      company: billData.company,
+      amount: billData.amount,
+      currency: billData.currency,
+      dueDate: billData.dueDate,
+      billType: billData.billType,
+      bpayBillerCode: billData.bpayBillerCode,
+      bpayCrn: billData.bpayCrn,
+      accountNumber: billData.accountNumber,
+      invoiceNumber: billData.invoiceNumber,
+      billingPeriodStart: billData.billingPeriodStart,
+      billingPeriodEnd: billData.billingPeriodEnd,
+      payUrl: billData.payUrl,
+      minimumPayment: billData.minimumPayment,
+      interestRate: billData.interestRate,
+      ...conversion,
+      confidence: billData.confidence,
+      validationErrors: billData.validationErrors,
+      updatedAt: now,
+    };
+
+    if (existing) {
+      // Merge so status, paidDate and any match links stay as the user left them
+      const merged = {
+        ...extracted,
+        ...(existing.amountPaid !== undefined && {
+          remaining: remainingAmount(payableAmount({ ...existing, ...extracted }), existing.amountPaid),
+        }),
+      };
+      await ref.set(merged, { merge: true });
+      return { ...existing, ...merged };
+    }
+
+    const paid = billData.status === "paid";
+    const bill: StoredBill = {
+      ...extracted,
+      status: paid ? "paid" : "unpaid",
+      amountPaid: 0,
+      remaining: paid ? 0 : payableAmount(extracted),
+      payments: [],
+      createdAt: now,
+    };
+    await ref.set(bill);
+    return bill;
+  }
+
+  /**
+   * Link a transaction to a bill as a payment and move the bill along
+   * unpaid -> partially_paid -> paid. Linking the same transaction twice is a
+   * no-op. Returns the updated bill, or null if it doesn't exist.
+   */
+  async recordPayment(uid: string, billId: string, payment: BillPayment): Promise<StoredBill | null> {
+    const ref = this.firestore.collection("users").doc(uid).collection("bills").doc(billId);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) return null;
+      const bill = snapshot.data() as StoredBill;
+
+      const payments = bill.payments || [];
+      if (payments.some((p) => p.transactionId === payment.transactionId)) return bill;
+
+      const allPayments = [...payments, payment];
+      const amountPaid = Math.round(allPayments.reduce((sum, p) => sum + p.amount, 0) * 100) / 100;
+      const status = paymentStatus(payableAmount(bill), amountPaid, paidTolerance(bill));
+      const update = {
+        payments: allPayments,
+        amountPaid,
+        remaining: remainingAmount(payableAmount(bill), amountPaid),
+        status,
+        matchedTransactionId: payment.transactionId,
+        ...(payment.confidence !== null && { autoMatched: true, matchConfidence: payment.confidence }),
+        ...(status === "paid" && { paidDate: payment.date }),
+        updatedAt: Date.now(),
+      };
+
+      transaction.update(ref, update);
+      return { ...bill, ...update };
+    });
+  }
+
+  /**
+   * Unlink a transaction from a bill and work out what's paid from the
+   * payments that are left, so undoing an auto-match puts the bill back to
+   * the status it had before (unpaid, for a bill matched before payments were
+   * recorded). Returns the updated bill, or null if it doesn't exist.
+   */
+  async removePayment(uid: string, billId: string, transactionId: string): Promise<StoredBill | null> {
+    const ref = this.firestore.collection("users").doc(uid).collection("bills").doc(billId);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) return null;
+      const bill = snapshot.data() as StoredBill;
+
+      const payments = bill.payments || [];
+      // Bills auto-matched before payments were tracked only have matchedTransactionId
+      const legacyMatch = payments.length === 0 && bill.matchedTransactionId === transactionId;
+      if (!legacyMatch && !payments.some((p) => p.transactionId === transactionId)) return bill;
+
+      const remainingPayments = payments.filter((p) => p.transactionId !== transactionId);
+      const amountPaid = Math.round(remainingPayments.reduce((sum, p) => sum + p.amount, 0) * 100) / 100;
+      const status = paymentStatus(payableAmount(bill), amountPaid, paidTolerance(bill));
+      const lastAutoMatched = remainingPayments.filter((p) => p.confidence !== null).at(-1);
+      const update = {
+        payments: remainingPayments,
+        amountPaid,
+        remaining: remainingAmount(payableAmount(bill), amountPaid),
+        status,
+        matchedTransactionId: remainingPayments.at(-1)?.transactionId ?? null,
+        autoMatched: Boolean(lastAutoMatched),
+        matchConfidence: lastAutoMatched?.confidence ?? null,
+        paidDate: status === "paid" ? (bill.paidDate ?? null) : null,
+        updatedAt: Date.now(),
+      };
+
+      transaction.update(ref, update);
+      return { ...bill, ...update };
+    });
+  }
+
+  /**
+   * Set a bill's status by hand, keeping its payment fields consistent with it.
+   * Unpaid clears the payments and unlinks their transactions, so later
+   * matches don't add onto payments the user has overridden; paid leaves
+   * nothing remaining; partially_paid works out what's left from the payments.
+   * Returns the updated bill, or null if it doesn't exist.
+   */
+  async setStatus(uid: string, billId: string, status: StoredBillStatus): Promise<StoredBill | null> {
+    const user = this.firestore.collection("users").doc(uid);
+    const ref = user.collection("bills").doc(billId);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) return null;
+      const bill = snapshot.data() as StoredBill;
+      const payable = payableAmount(bill);
+
+      let update: Partial<StoredBill>;
+      if (status === "unpaid") {
+        const linked = new Set((bill.payments || []).map((p) => p.transactionId));
+        if (bill.matchedTransactionId) linked.add(bill.matchedTransactionId);
+        const txRefs = [...linked].map((id) => user.collection("transactions").doc(id));
+        const txSnapshots = await Promise.all(txRefs.map((txRef) => transaction.get(txRef)));
+        txSnapshots.forEach((tx, i) => {
+          if (tx.exists && tx.data()?.matchedBillId === billId) transaction.update(txRefs[i], { matchedBillId: null });
+        });
+        update = {
+          payments: [],
+          amountPaid: 0,
+          remaining: remainingAmount(payable, 0),
+          matchedTransactionId: null,
+          autoMatched: false,
+          matchConfidence: null,
+          paidDate: null,
+        };
+      } else if (status === "paid") {
+        update = {
+          remaining: payable === null ? null : 0,
+          paidDate: bill.paidDate ?? new Date().toISOString().substring(0, 10),
+        };
+      } else {
+        const amountPaid = bill.amountPaid ?? 0;
+        update = { amountPaid, remaining: remainingAmount(payable, amountPaid), paidDate: null };
+      }
+
+      const updated = { ...update, status, updatedAt: Date.now() };
+      transaction.update(ref, updated);
+      return { ...bill, ...updated };
+    });
+  }
+
+  /**
+   * Re-convert every bill, e.g. after the base currency changes or new rates
+   * are imported. Returns how many bills changed.
+   */
+  async applyConversions(uid: string, convert: (bill: StoredBill) => Conversion): Promise<number> {
+    const snapshot = await this.firestore.collection("users").doc(uid).collection("bills").get();
+    const updates: [DocumentReference, Partial<StoredBill>][] = [];
+
+    for (const doc of snapshot.docs) {
+      const bill = doc.data() as StoredBill;
+      const conversion = convert(bill);
+      if (
+        bill.baseCurrency === conversion.baseCurrency &&
+        bill.baseAmount === conversion.baseAmount &&
+        bill.fxRate === conversion.fxRate
+      ) {
+        continue;
+      }
+      updates.push([
+        doc.ref,
+        {
+          ...conversion,
+          ...(bill.amountPaid !== undefined && {
+            remaining: remainingAmount(payableAmount({ ...bill, ...conversion }), bill.amountPaid),
+          }),
+          updatedAt: Date.now(),
+        },
+      ]);
+    }
+
+    // Firestore caps a batch at 500 writes
+    for (let i = 0; i < updates.length; i += 500) {
+      const batch = this.firestore.batch();
+      for (const [ref, update] of updates.slice(i, i + 500)) batch.update(ref, update);
+      await batch.commit();
+    }
+    return updates.length;
+  }
+}
+
+/** What a bill's payments are counted against: its base-currency amount, when it has one */
+function payableAmount(bill: Pick<StoredBill, "amount" | "baseAmount">): number | null {
+  return bill.baseAmount ?? bill.amount;
+}
+
+// Foreign-currency bills are paid at whatever the bank's rate was on the day
+function paidTolerance(bill: Pick<StoredBill, "currency" | "baseCurrency">): number {
+  const foreign = bill.currency && bill.baseCurrency && bill.currency !== bill.baseCurrency;
+  return foreign ? PAID_TOLERANCE + FX_SPREAD : PAID_TOLERANCE;
+}
+
+function remainingAmount(amount: number | null, amountPaid: number): number | null {
+  if (amount === null) return null;
+  return Math.max(0, Math.round((amount - amountPaid) * 100) / 100);
+}
+
+/** Paid once what's left is within the matcher's amount tolerance */
+export function paymentStatus(
+  amount: number | null,
+  amountPaid: number,
+  tolerance: number = PAID_TOLERANCE
+): StoredBillStatus {
+  if (amountPaid <= 0) return "unpaid";
+  if (amount === null || amount - amountPaid <= amount * tolerance) return "paid";
+  return "partially_paid";
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createOcrEngine, extractPdfText, LockedPdfError, sniffImageType, TesseractOcr } from "./DocumentText.js";
+
+const { mockOpen, mockGetText, mockGetScreenshot } = vi.hoisted(() => ({
+  mockOpen: vi.fn(),
+  mockGetText: vi.fn(),
+  mockGetScreenshot: vi.fn(),
+}));
+
+vi.mock("pdf-parse", () => ({
+  PDFParse: class {
+    constructor(options: { password?: string }) {
+      mockOpen(options.password);
+    }
+    getText = mockGetText;
+    getScreenshot = mockGetScreenshot;
+    destroy() {
+      return Promise.resolve();
+    }
+  },
+}));
+
+describe("DocumentText", () => {
+  describe("extractPdfText", () => {
+    const ocr = { name: "fake", recognize: vi.fn() };
+
+    beforeEach(() => {
+      mockOpen.mockReset();
+      mockGetText.mockReset();
+      mockGetScreenshot.mockReset();
+      ocr.recognize.mockReset();
+      mockGetText.mockResolvedValue({
+        text: "Statement period 1-31 January 2025\n\n-- 1 of 2 --\n\n\n\n-- 2 of 2 --\n\n",
+        pages: [
+          { num: 1, text: "Statement period 1-31 January 2025" },
+          { num: 2, text: " 2 " },
+        ],
+        total: 2,
+      });
+      mockGetScreenshot.mockResolvedValue({
+        pages: [{ pageNumber: 2, data: new Uint8Array([1, 2, 3]), width: 1786, height: 2526, scale: 3 }],
+        total: 2,
+      });
+    });
+
+    it("should OCR only the pages without a text layer", async () => {
+      ocr.recognize.mockResolvedValue("03/01 WOOLWORTHS 1234 45.10\n");
+
+      const text = await extractPdfText(Buffer.from("%PDF-1.4"), ocr);
+
+      expect(mockGetScreenshot).toHaveBeenCalledWith(expect.objectContaining({ partial: [2] }));
+      expect(ocr.recognize).toHaveBeenCalledWith(Buffer.from([1, 2, 3]));
+      expect(text).toBe(
+        "Statement period 1-31 January 2025\n\n-- 1 of 2 --\n\n03/01 WOOLWORTHS 1234 45.10\n\n-- 2 of 2 --\n\n"
+      );
+    });
+
+    it("should return the text layer as is without an OCR engine", async () => {
+      const text = await extractPdfText(Buffer.from("%PDF-1.4"));
+
+      expect(mockGetScreenshot).not.toHaveBeenCalled();
+      expect(text).toBe("Statement period 1-31 January 2025\n\n-- 1 of 2 --\n\n\n\n-- 2 of 2 --\n\n");
+    });
+
+    it("should keep going when OCR fails on a page", async () => {
+      ocr.recognize.mockRejectedValue(new Error("tesseract exited with code 1"));
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const text = await extractPdfText(Buffer.from("%PDF-1.4"), ocr);
+
+      expect(text).toContain("Statement period 1-31 January 2025");
+      expect(consoleSpy).toHaveBeenCalledWith("Error running OCR on PDF page 2:", expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    describe("password-protected PDFs", () => {
+      // pdf.js rejects with a PasswordException until it's opened with the right password
+      const lockedWith = (password: string) => {
+        const page = "Closing balance $1,024.00";
+        const text = { text: page, pages: [{ num: 1, text: page }], total: 1 };
+        mockGetText.mockImplementation(async () => {
+          if (mockOpen.mock.lastCall?.[0] === password) return text;
+          throw Object.assign(new Error("No password given"), { name: "PasswordException" });
+        });
+      };
+
+      it("should try each password until one opens the PDF", async () => {
+        lockedWith("01011980");
+
+        const text = await extractPdfText(Buffer.from("%PDF-1.7"), null, ["wrong", "01011980", "unused"]);
+
+        expect(text).toBe("Closing balance $1,024.00");
+        expect(mockOpen.mock.calls).toEqual([[undefined], ["wrong"], ["01011980"]]);
+      });
+
+      it("should say whether the PDF needed a password or none of them worked", async () => {
+        lockedWith("01011980");
+
+        await expect(extractPdfText(Buffer.from("%PDF-1.7"))).rejects.toMatchObject({
+          name: "LockedPdfError",
+          wrongPassword: false,
+        });
+        const err = await extractPdfText(Buffer.from("%PDF-1.7"), null, ["wrong"]).catch((e) => e);
+        expect(err).toBeInstanceOf(LockedPdfError);
+        expect(err.wrongPassword).toBe(true);
+      });
+
+      it("should not retry on other errors", async () => {
+        mockGetText.mockRejectedValue(new Error("Invalid PDF structure"));
+
+        await expect(extractPdfText(Buffer.from("%PDF-1.7"), null, ["01011980"])).rejects.toThrow(
+          "Invalid PDF structure"
+        );
+        expect(mockOpen).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe("sniffImageType", () => {
+    it("should recognise JPEG, PNG and TIFF by their first bytes", () => {
+      expect(sniffImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe1, 0x00]))).toBe("image/jpeg");
+      expect(sniffImageType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe("image/png");
+      expect(sniffImageType(Buffer.from("II*\0rest", "latin1"))).toBe("image/tiff");
+      expect(sniffImageType(Buffer.from("%PDF-1.4"))).toBeNull();
+    });
+  });
+
+  describe("TesseractOcr", () => {
+    // Stand-ins for the tesseract binary: one echoes the image back as its "text", one fails
+    const dir = mkdtempSync(join(tmpdir(), "ocr-test-"));
+    const script = (name: string, body: string) => {
+      const path = join(dir, name);
+      writeFileSync(path, `#!/bin/sh\n${body}\n`);
+      chmodSync(path, 0o755);
+      return path;
+    };
+    const echo = script("echo-ocr", "cat");
+    const failing = script("failing-ocr", 'cat > /dev/null; echo "Error in pixReadMem" >&2; exit 1');
+
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    it("should pipe the image through the command", async () => {
+      expect(await new TesseractOcr(echo).recognize(Buffer.from("Amount due $84.10"))).toBe("Amount due $84.10");
+    });
+
+    it("should report a failed run with its error output", async () => {
+      await expect(new TesseractOcr(failing).recognize(Buffer.from("not an image"))).rejects.toThrow(
+        "tesseract exited with code 1: Error in pixReadMem"
+      );
+    });
+
+    it("should reject when the binary isn't installed", async () => {
+      await expect(new TesseractOcr(join(dir, "missing")).recognize(Buffer.from("x"))).rejects.toThrow(/ENOENT/);
+    });
+  });
+
+  describe("createOcrEngine", () => {
+    it("should default to tesseract and allow turning OCR off", () => {
+      expect(createOcrEngine({})?.name).toBe("tesseract");
+      expect(createOcrEngine({ OCR_ENGINE: "none" })).toBeNull();
+      expect(() => createOcrEngine({ OCR_ENGINE: "cloud" })).toThrow("Unknown OCR_ENGINE: cloud");
+    });
+  });
+});
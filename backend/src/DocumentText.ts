@@ -0,0 +1,164 @@
+import { spawn } from "child_process";
+import { PDFParse } from "pdf-parse";
+
+/** Reads the text in an image */
+export interface OcrEngine {
+  readonly name: string;
+  recognize(image: Buffer): Promise<string>;
+}
+
+/** A PDF that needs a password, when none was given or none of those tried opened it */
+export class LockedPdfError extends Error {
+  /** Passwords were tried and were all wrong, as opposed to there being none to try */
+  readonly wrongPassword: boolean;
+
+  constructor(wrongPassword: boolean) {
+    super(wrongPassword ? "The password didn't unlock the PDF" : "The PDF is password protected");
+    this.name = "LockedPdfError";
+    this.wrongPassword = wrongPassword;
+  }
+}
+
+/** Image formats tesseract reads that bills and statements arrive as */
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/tiff"] as const;
+
+// A page with fewer characters than this has no real text layer: it's a scan, maybe with a page number
+const MIN_PAGE_CHARS = 20;
+// PDF pages are 72 dpi at scale 1; tesseract wants 200-300 dpi
+const OCR_SCALE = 3;
+// OCR takes seconds a page on one CPU, so a long scanned document is only read so far
+const MAX_OCR_PAGES = 10;
+
+/**
+ * Runs the tesseract CLI (https://github.com/tesseract-ocr/tesseract) on the
+ * CPU, piping the image in and the text out so nothing touches the disk.
+ */
+export class TesseractOcr implements OcrEngine {
+  readonly name = "tesseract";
+  private command: string;
+  private language: string;
+  private timeoutMs: number;
+
+  constructor(command = "tesseract", language = "eng", timeoutMs = 60_000) {
+    this.command = command;
+    this.language = language;
+    this.timeoutMs = timeoutMs;
+  }
+
+  recognize(image: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      // Page segmentation mode 3 (fully automatic) suits whole bills and statements
+      const child = spawn(this.command, ["stdin", "stdout", "-l", this.language, "--psm", "3"]);
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill("SIGKILL");
+      }, this.timeoutMs);
+
+      child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+      child.on("error", (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      child.on("close", (code) => {
+        clearTimeout(timer);
+        if (timedOut) {
+          reject(new Error(`tesseract timed out after ${this.timeoutMs}ms`));
+        } else if (code !== 0) {
+          reject(new Error(`tesseract exited with code ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+        } else {
+          resolve(Buffer.concat(stdout).toString("utf8"));
+        }
+      });
+      // The process exiting early closes the pipe; that's reported by "close" above
+      child.stdin.on("error", () => {});
+      child.stdin.end(image);
+    });
+  }
+}
+
+/**
+ * Build the OCR engine selected by the environment, or null for none:
+ * - `OCR_ENGINE`: tesseract (default) or none
+ * - `TESSERACT_PATH`: the tesseract binary, if it isn't on the PATH
+ * - `OCR_LANG`: tesseract language(s), e.g. eng+fra (default eng)
+ */
+export function createOcrEngine(env: NodeJS.ProcessEnv = process.env): OcrEngine | null {
+  switch (env.OCR_ENGINE || "tesseract") {
+    case "tesseract":
+      return new TesseractOcr(env.TESSERACT_PATH || "tesseract", env.OCR_LANG || "eng");
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown OCR_ENGINE: ${env.OCR_ENGINE}`);
+  }
+}
+
+export function isImageType(mimeType: string): boolean {
+  return (IMAGE_TYPES as readonly string[]).includes(mimeType.toLowerCase());
+}
+
+/** The image format going by the file's first bytes, so a renamed file can't pass as an image */
+export function sniffImageType(data: Buffer): (typeof IMAGE_TYPES)[number] | null {
+  if (data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return "image/jpeg";
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  const tiff = data.subarray(0, 4).toString("latin1");
+  if (tiff === "II*\0" || tiff === "MM\0*") return "image/tiff";
+  return null;
+}
+
+/**
+ * Text of a PDF, page by page in pdf-parse's format (each page followed by
+ * "-- N of M --"). Pages with no text layer - scans - are rendered and read
+ * with `ocr` when there is one. An encrypted PDF is opened with the first of
+ * `passwords` that works, or throws LockedPdfError.
+ */
+export async function extractPdfText(
+  data: Buffer,
+  ocr: OcrEngine | null = null,
+  passwords: string[] = []
+): Promise<string> {
+  const { parser, result } = await openPdf(data, passwords);
+  try {
+    const scanned = result.pages
+      .filter((page) => page.text.replace(/\s/g, "").length < MIN_PAGE_CHARS)
+      .slice(0, MAX_OCR_PAGES);
+    if (!ocr || scanned.length === 0) return result.text;
+
+    const screenshots = await parser.getScreenshot({
+      partial: scanned.map((page) => page.num),
+      scale: OCR_SCALE,
+      imageDataUrl: false,
+    });
+    for (const screenshot of screenshots.pages) {
+      const page = scanned.find((p) => p.num === screenshot.pageNumber);
+      if (!page) continue;
+      try {
+        page.text = (await ocr.recognize(Buffer.from(screenshot.data))).trim();
+      } catch (err) {
+        console.error(`Error running OCR on PDF page ${page.num}:`, err);
+      }
+    }
+    return result.pages.map((page) => `${page.text}\n\n-- ${page.num} of ${result.total} --\n\n`).join("");
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Try without a password first: most PDFs aren't encrypted
+async function openPdf(data: Buffer, passwords: string[]) {
+  for (const password of [undefined, ...passwords]) {
+    // pdf.js may take ownership of the bytes, so each attempt gets its own copy
+    const parser = new PDFParse({ data: new Uint8Array(data), ...(password !== undefined && { password }) });
+    try {
+      return { parser, result: await parser.getText() };
+    } catch (err) {
+      await parser.destroy();
+      if ((err as Error)?.name !== "PasswordException") throw err;
+    }
+  }
+  throw new LockedPdfError(passwords.length > 0);
+}
@@ -97,6 +97,19 @@ describe("Email", () => {
       expect(email.fullContent).toBe(body);
     });
 
+    it("should render an HTML body as text", () => {
+      const email = new Email({
+        id: "test-id",
+        subject: "Test",
+        from: "test@example.com",
+        date: "2025-01-15",
+        body: "<style>p { margin: 0 }</style><p>Amount due:&nbsp;&#36;84.10</p>",
+        pdfText: "",
+      });
+
+      expect(email.fullContent).toBe("Amount due: $84.10");
+    });
+
     it("should handle empty body and pdfText", () => {
       const email = new Email({
         id: "test-id",
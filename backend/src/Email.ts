@@ -1,3 +1,14 @@
+import { htmlToText, looksLikeHtml } from "./HtmlText.js";
+
+/** Where a part sits in the message's MIME tree, kept for debugging */
+export interface EmailPart {
+  /** IMAP-style section number: "2.1" is the first child of the second part */
+  path: string;
+  mimeType: string;
+  filename: string;
+  size: number;
+}
+
 export class Email {
   id: string;
   subject: string;
@@ -5,13 +16,18 @@ export class Email {
   date: string;
   body: string;
   pdfText: string;
-  constructor({ id, subject, from, date, body, pdfText }: {
+  parts: EmailPart[];
+  /** PDF attachments (by filename, or part path if unnamed) that none of the saved passwords opened */
+  lockedPdfs: string[];
+  constructor({ id, subject, from, date, body, pdfText, parts = [], lockedPdfs = [] }: {
     id: string;
     subject: string;
     from: string;
     date: string;
     body: string;
     pdfText: string;
+    parts?: EmailPart[];
+    lockedPdfs?: string[];
   }) {
     this.id = id;
     this.subject = subject;
@@ -19,8 +35,14 @@ export class Email {
     this.date = date;
     this.body = body;
     this.pdfText = pdfText;
+    this.parts = parts;
+    this.lockedPdfs = lockedPdfs;
+  }
+  /** The body as text; some senders put HTML in their text/plain part */
+  get textBody() {
+    return looksLikeHtml(this.body) ? htmlToText(this.body) : this.body;
   }
   get fullContent() {
-    return (this.body + this.pdfText).substring(0, 5000);
+    return (this.textBody + this.pdfText).substring(0, 5000);
   }
 }
@@ -1,11 +1,18 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { EmailParser } from "./EmailParser.js";
 
 // Use vi.hoisted to ensure mock class is created before vi.mock runs
 const { MockPDFParse } = vi.hoisted(() => {
   class MockPDFParse {
+    password?: string;
+    constructor(options: { password?: string } = {}) {
+      this.password = options.password;
+    }
     getText() {
-      return Promise.resolve({ text: "Extracted PDF text" });
+      return Promise.resolve({ text: "Extracted PDF text", pages: [{ num: 1, text: "Extracted PDF text" }], total: 1 });
+    }
+    destroy() {
+      return Promise.resolve();
     }
   }
   return { MockPDFParse };
@@ -237,6 +244,62 @@ describe("EmailParser", () => {
       expect(email.pdfText).toBe("");
     });
 
+    describe("password-protected PDFs", () => {
+      const lockedStatement = () =>
+        createMockMessageResponse({
+          from: "ANZ <estatements@statements.anz.com>",
+          parts: [
+            { mimeType: "text/plain", body: { data: Buffer.from("Your statement is attached").toString("base64") } },
+            { mimeType: "application/pdf", filename: "statement.pdf", body: { attachmentId: "att-123" } },
+          ],
+        });
+
+      beforeEach(() => {
+        mockMessagesGet.mockResolvedValue(lockedStatement());
+        mockAttachmentsGet.mockResolvedValue({ data: { data: Buffer.from("%PDF-1.7").toString("base64") } });
+        vi.spyOn(MockPDFParse.prototype, "getText").mockImplementation(async function (this: { password?: string }) {
+          if (this.password !== "01011980") {
+            throw Object.assign(new Error("Incorrect Password"), { name: "PasswordException" });
+          }
+          const text = "Closing balance $1,024.00";
+          return { text, pages: [{ num: 1, text }], total: 1 };
+        });
+      });
+
+      afterEach(() => vi.restoreAllMocks());
+
+      it("should open them with a password saved for the sender's domain", async () => {
+        const email = await EmailParser.parse(
+          mockGmail,
+          { id: "msg-123" },
+          {
+            pdfPasswords: [
+              { sender: "agl.com.au", password: "not for anz" },
+              { sender: "anz.com", password: "01011980" },
+            ],
+          }
+        );
+
+        expect(email.pdfText).toContain("Closing balance $1,024.00");
+        expect(email.lockedPdfs).toEqual([]);
+      });
+
+      it("should list the PDFs that stay locked", async () => {
+        const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+        const email = await EmailParser.parse(
+          mockGmail,
+          { id: "msg-123" },
+          { pdfPasswords: [{ sender: "agl.com.au", password: "01011980" }] }
+        );
+
+        expect(email.pdfText).toBe("");
+        expect(email.body).toBe("Your statement is attached");
+        expect(email.lockedPdfs).toEqual(["statement.pdf"]);
+        expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("is locked"));
+      });
+    });
+
     it("should handle multiple PDF attachments", async () => {
       mockMessagesGet.mockResolvedValue(
         createMockMessageResponse({
@@ -312,4 +375,257 @@ describe("EmailParser", () => {
       expect(email.pdfText).toBe("");
     });
   });
+
+  describe("nested messages", () => {
+    const encode = (content: string | Buffer) => Buffer.from(content).toString("base64url");
+    const message = (payload: any) => ({ data: { id: "msg-123", payload: { headers: [], ...payload } } });
+
+    it("should find the HTML body under mixed, alternative and related parts", async () => {
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/mixed",
+          parts: [
+            {
+              mimeType: "multipart/alternative",
+              parts: [
+                {
+                  mimeType: "multipart/related",
+                  parts: [
+                    { mimeType: "text/html", body: { data: encode("<p>Amount due: <b>$84.10</b></p>") } },
+                    { mimeType: "image/png", filename: "logo.png", body: { attachmentId: "att-logo", size: 2048 } },
+                  ],
+                },
+              ],
+            },
+            { mimeType: "application/pdf", filename: "invoice.pdf", body: { attachmentId: "att-pdf", size: 51200 } },
+          ],
+        })
+      );
+      mockAttachmentsGet.mockResolvedValue({ data: { data: encode("%PDF-1.4") } });
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" });
+
+      expect(email.body.trim()).toBe("Amount due: $84.10");
+      expect(email.pdfText).toContain("Extracted PDF text");
+      expect(mockAttachmentsGet).toHaveBeenCalledTimes(1);
+      expect(mockAttachmentsGet).toHaveBeenCalledWith({ userId: "me", messageId: "msg-123", id: "att-pdf" });
+      expect(email.parts).toEqual([
+        { path: "1.1.1", mimeType: "text/html", filename: "", size: 32 },
+        { path: "1.1.2", mimeType: "image/png", filename: "logo.png", size: 2048 },
+        { path: "2", mimeType: "application/pdf", filename: "invoice.pdf", size: 51200 },
+      ]);
+    });
+
+    it("should prefer plain text within a nested alternative", async () => {
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/mixed",
+          parts: [
+            {
+              mimeType: "multipart/alternative",
+              parts: [
+                { mimeType: "text/plain", body: { data: encode("Plain bill") } },
+                { mimeType: "text/html", body: { data: encode("<p>HTML bill</p>") } },
+              ],
+            },
+          ],
+        })
+      );
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" });
+
+      expect(email.body).toBe("Plain bill");
+    });
+
+    it("should read the body and PDF of a forwarded message Gmail has parsed", async () => {
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/mixed",
+          parts: [
+            { mimeType: "text/plain", body: { data: encode("FYI - can you pay this?") } },
+            {
+              mimeType: "message/rfc822",
+              filename: "Your water bill.eml",
+              parts: [
+                {
+                  mimeType: "multipart/mixed",
+                  parts: [
+                    { mimeType: "text/plain", body: { data: encode("Your water bill of $120.00 is due 3 March") } },
+                    {
+                      mimeType: "application/octet-stream",
+                      filename: "Water-Bill.PDF",
+                      body: { attachmentId: "att-fwd" },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        })
+      );
+      mockAttachmentsGet.mockResolvedValue({ data: { data: encode("%PDF-1.4") } });
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" });
+
+      expect(email.body).toBe("FYI - can you pay this?\n\nYour water bill of $120.00 is due 3 March");
+      expect(email.pdfText).toContain("Extracted PDF text");
+      expect(mockAttachmentsGet).toHaveBeenCalledWith({ userId: "me", messageId: "msg-123", id: "att-fwd" });
+      expect(email.parts.map((p) => p.path)).toEqual(["1", "2.1.1", "2.1.2"]);
+    });
+
+    it("should parse a forwarded message Gmail leaves raw, decoding quoted-printable and its charset", async () => {
+      const raw = [
+        "From: Origin Energy <billing@originenergy.com.au>",
+        "Subject: Your gas bill",
+        "MIME-Version: 1.0",
+        'Content-Type: multipart/mixed; boundary="outer"',
+        "",
+        "This is a multi-part message in MIME format.",
+        "--outer",
+        "Content-Type: text/plain; charset=windows-1252",
+        "Content-Transfer-Encoding: quoted-printable",
+        "",
+        "Amount due: =8045.50 =96 please pay by 3 March. This line is long enough t=",
+        "o need a soft break.",
+        "--outer",
+        "Content-Type: application/pdf; name=gas-bill.pdf",
+        "Content-Disposition: attachment;",
+        ' filename="gas-bill.pdf"',
+        "Content-Transfer-Encoding: base64",
+        "",
+        Buffer.from("%PDF-1.4 gas bill").toString("base64"),
+        "--outer--",
+        "",
+      ].join("\r\n");
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/mixed",
+          parts: [
+            { mimeType: "text/plain", body: { data: encode("Forwarding the gas bill") } },
+            { mimeType: "message/rfc822", filename: "", body: { attachmentId: "att-raw" } },
+          ],
+        })
+      );
+      mockAttachmentsGet.mockResolvedValue({ data: { data: encode(raw) } });
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" });
+
+      expect(email.body).toBe(
+        "Forwarding the gas bill\n\nAmount due: €45.50 – please pay by 3 March. This line is long enough to need a soft break."
+      );
+      // The PDF came inline in the raw message, so only the message itself was fetched
+      expect(mockAttachmentsGet).toHaveBeenCalledTimes(1);
+      expect(email.pdfText).toContain("Extracted PDF text");
+      expect(email.parts).toEqual([
+        { path: "1", mimeType: "text/plain", filename: "", size: 23 },
+        { path: "2.1", mimeType: "text/plain", filename: "", size: 90 },
+        { path: "2.2", mimeType: "application/pdf", filename: "gas-bill.pdf", size: 17 },
+      ]);
+    });
+
+    it("should decode base64url bodies and honour a part's charset", async () => {
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/alternative",
+          parts: [
+            {
+              mimeType: "text/plain",
+              headers: [{ name: "Content-Type", value: 'text/plain; charset="ISO-8859-1"' }],
+              body: { data: encode(Buffer.from("Café bill >>> due??", "latin1")) },
+            },
+          ],
+        })
+      );
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" });
+
+      expect(email.body).toBe("Café bill >>> due??");
+    });
+
+    it("should read attached photos with OCR, but not embedded logos", async () => {
+      const jpeg = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(40 * 1024)]);
+      const ocr = { name: "fake", recognize: vi.fn().mockResolvedValue("ENERGY BILL\nAmount due $84.10\n") };
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/mixed",
+          parts: [
+            {
+              mimeType: "multipart/related",
+              parts: [
+                { mimeType: "text/html", body: { data: encode("<p>Photo of the bill attached</p>") } },
+                {
+                  mimeType: "image/png",
+                  filename: "banner.png",
+                  headers: [{ name: "Content-ID", value: "<banner@example.com>" }],
+                  body: { attachmentId: "att-banner", size: 64 * 1024 },
+                },
+              ],
+            },
+            { mimeType: "image/jpeg", filename: "icon.jpg", body: { attachmentId: "att-icon", size: 2 * 1024 } },
+            { mimeType: "image/jpeg", filename: "IMG_2041.jpg", body: { attachmentId: "att-photo", size: jpeg.length } },
+          ],
+        })
+      );
+      mockAttachmentsGet.mockResolvedValue({ data: { data: encode(jpeg) } });
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" }, { ocr });
+
+      expect(mockAttachmentsGet).toHaveBeenCalledTimes(1);
+      expect(mockAttachmentsGet).toHaveBeenCalledWith({ userId: "me", messageId: "msg-123", id: "att-photo" });
+      expect(ocr.recognize).toHaveBeenCalledWith(jpeg);
+      expect(email.pdfText).toBe("\n\nENERGY BILL\nAmount due $84.10");
+    });
+
+    it("should skip image attachments without an OCR engine", async () => {
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/mixed",
+          parts: [{ mimeType: "image/jpeg", filename: "IMG_2041.jpg", body: { attachmentId: "att-photo", size: 200_000 } }],
+        })
+      );
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" });
+
+      expect(mockAttachmentsGet).not.toHaveBeenCalled();
+      expect(email.pdfText).toBe("");
+    });
+
+    it("should leave text attachments out of the body", async () => {
+      mockMessagesGet.mockResolvedValue(
+        message({
+          mimeType: "multipart/mixed",
+          parts: [
+            { mimeType: "text/plain", body: { data: encode("See attached") } },
+            { mimeType: "text/plain", filename: "usage.csv", body: { data: encode("date,kwh\n2025-01-01,12") } },
+          ],
+        })
+      );
+
+      const email = await EmailParser.parse(mockGmail, { id: "msg-123" });
+
+      expect(email.body).toBe("See attached");
+    });
+  });
+
+  describe("parseBatch", () => {
+    it("should parse every message in order", async () => {
+      mockMessagesGet.mockImplementation(({ id }: { id: string }) =>
+        Promise.resolve(createMockMessageResponse({ id, subject: `Subject ${id}`, bodyData: "Body" }))
+      );
+
+      const msgs = Array(7)
+        .fill(null)
+        .map((_, i) => ({ id: `msg-${i}` }));
+      const emails = await EmailParser.parseBatch(mockGmail, msgs, 3);
+
+      expect(emails.map((e) => e.id)).toEqual(msgs.map((m) => m.id));
+      expect(emails[4].subject).toBe("Subject msg-4");
+      expect(mockMessagesGet).toHaveBeenCalledTimes(7);
+    });
+
+    it("should handle an empty message list", async () => {
+      expect(await EmailParser.parseBatch(mockGmail, [])).toEqual([]);
+      expect(mockMessagesGet).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,62 +1,376 @@
-import { PDFParse } from "pdf-parse";
-import { Email } from "./Email.js";
+import { Email, EmailPart } from "./Email.js";
+import { extractPdfText, isImageType, LockedPdfError, OcrEngine, sniffImageType } from "./DocumentText.js";
+import { htmlToText } from "./HtmlText.js";
+import { passwordsFor, SenderPassword } from "./PdfPasswordStore.js";
+
+/** A part as the Gmail API returns it with format "full" */
+interface GmailPart {
+  mimeType?: string;
+  filename?: string;
+  headers?: { name: string; value: string }[];
+  body?: { data?: string; attachmentId?: string; size?: number };
+  parts?: GmailPart[];
+}
+
+type Headers = Record<string, string>;
+
+/** A part with no children, decoded as far as it can be without fetching anything */
+interface Leaf extends EmailPart {
+  /** 0 for the email itself, then one number per forwarded message found inside it */
+  message: number;
+  charset: string | null;
+  attachment: boolean;
+  /** Referenced from the HTML by Content-ID, like a logo */
+  embedded: boolean;
+  data: Buffer | null;
+  attachmentId: string | null;
+}
+
+/** State carried down the MIME tree while walking one message */
+interface Walk {
+  gmail: any;
+  messageId: string;
+  leaves: Leaf[];
+  messages: number;
+}
+
+export interface ParseOptions {
+  /** Reads image attachments and scanned PDF pages; without one they're skipped */
+  ocr?: OcrEngine | null;
+  /** The user's saved PDF passwords; those for the sender are tried on encrypted PDFs */
+  pdfPasswords?: SenderPassword[];
+}
+
+// Anything nested deeper than this is malformed rather than a bill
+const MAX_DEPTH = 10;
+// Smaller images are logos and icons rather than photos or scans of a bill
+const MIN_OCR_IMAGE_BYTES = 30 * 1024;
 
 export class EmailParser {
-  static async parse(gmail: any, msg: any): Promise<Email> {
+  /**
+   * Fetch a message and walk its whole MIME tree: nested multiparts, and
+   * forwarded messages whether Gmail has parsed them or left them raw. The
+   * body is the plain text of the email and of each forwarded message (or
+   * their HTML rendered as text when there's none), and every PDF found at
+   * any depth is extracted. With an OCR engine, scanned PDF pages and
+   * attached photos or scans are read too, their text going after the PDFs'.
+   * Encrypted PDFs are opened with the sender's saved passwords; any that
+   * stay locked are listed in `lockedPdfs`.
+   */
+  static async parse(gmail: any, msg: any, options: ParseOptions = {}): Promise<Email> {
     const msgRes = await gmail.users.messages.get({
       userId: "me",
       id: msg.id,
       format: "full",
     });
-    const headers = msgRes.data.payload?.headers || [];
+    const payload: GmailPart = msgRes.data.payload || {};
+    const headers = payload.headers || [];
     const subject = headers.find((h: any) => h.name === "Subject")?.value || "";
     const from = headers.find((h: any) => h.name === "From")?.value || "";
     const date = headers.find((h: any) => h.name === "Date")?.value || "";
-    // Get body text
-    let body = "";
-    if (msgRes.data.payload?.body?.data) {
-      body = Buffer.from(msgRes.data.payload.body.data, "base64").toString();
-    } else if (msgRes.data.payload?.parts) {
-      const textPart = msgRes.data.payload.parts.find(
-        (p: any) => p.mimeType === "text/plain"
-      );
-      if (textPart?.body?.data) {
-        body = Buffer.from(textPart.body.data, "base64").toString();
-      }
-      if (!body) {
-        const htmlPart = msgRes.data.payload.parts.find(
-          (p: any) => p.mimeType === "text/html"
-        );
-        if (htmlPart?.body?.data) {
-          body = Buffer.from(htmlPart.body.data, "base64").toString();
-          body = body.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ");
-        }
-      }
-    }
+
+    const walk: Walk = { gmail, messageId: msg.id, leaves: [], messages: 0 };
+    await walkGmailPart(payload, "", 0, walk, 0);
+    const body = bodyText(walk);
+
+    const ocr = options.ocr ?? null;
+    const passwords = passwordsFor(options.pdfPasswords || [], from);
     // Extract PDF attachments
     let pdfText = "";
-    if (msgRes.data.payload?.parts) {
-      for (const part of msgRes.data.payload.parts) {
-        if (part.mimeType === "application/pdf" && part.body?.attachmentId) {
-          try {
-            const attachment = await gmail.users.messages.attachments.get({
-              userId: "me",
-              messageId: msg.id,
-              id: part.body.attachmentId,
-            });
-            if (attachment.data.data) {
-              const pdfBuffer = Buffer.from(attachment.data.data, "base64");
-              const parser = new PDFParse({ data: new Uint8Array(pdfBuffer) });
-              const textResult = await parser.getText({ first: 3 });
-              const text = textResult.text;
-              pdfText += "\n\n" + text;
-            }
-          } catch (pdfErr) {
-            console.error("Error extracting PDF:", pdfErr);
-          }
+    const lockedPdfs: string[] = [];
+    for (const leaf of walk.leaves.filter(isPdf)) {
+      try {
+        const pdfBuffer = await leafData(walk, leaf);
+        if (!pdfBuffer) continue;
+        // All pages - long statements are chunked by StatementAnalyzer
+        pdfText += "\n\n" + (await extractPdfText(pdfBuffer, ocr, passwords));
+      } catch (pdfErr) {
+        if (pdfErr instanceof LockedPdfError) {
+          console.warn(`PDF at part ${leaf.path} of message ${msg.id} is locked: ${pdfErr.message}`);
+          lockedPdfs.push(leaf.filename || `part ${leaf.path}`);
+          continue;
         }
+        console.error(`Error extracting PDF at part ${leaf.path}:`, pdfErr);
       }
     }
-    return new Email({ id: msg.id, subject, from, date, body, pdfText });
+
+    // Photos and scans of bills
+    for (const leaf of ocr ? walk.leaves.filter(isOcrImage) : []) {
+      try {
+        const image = await leafData(walk, leaf);
+        if (!image || !sniffImageType(image)) continue;
+        pdfText += "\n\n" + (await ocr!.recognize(image)).trim();
+      } catch (ocrErr) {
+        console.error(`Error running OCR on image at part ${leaf.path}:`, ocrErr);
+      }
+    }
+
+    const parts = walk.leaves.map(({ path, mimeType, filename, size }) => ({ path, mimeType, filename, size }));
+    return new Email({ id: msg.id, subject, from, date, body, pdfText, parts, lockedPdfs });
+  }
+
+  static async parseBatch(
+    gmail: any,
+    msgs: any[],
+    concurrency: number = 10,
+    options: ParseOptions = {}
+  ): Promise<Email[]> {
+    const results: Email[] = [];
+
+    // A first sync can return hundreds of messages - don't fire them all at Gmail at once
+    for (let i = 0; i < msgs.length; i += concurrency) {
+      const batch = msgs.slice(i, i + concurrency);
+      const batchResults = await Promise.all(
+        batch.map((msg) => EmailParser.parse(gmail, msg, options))
+      );
+      results.push(...batchResults);
+    }
+
+    return results;
+  }
+}
+
+async function walkGmailPart(part: GmailPart, path: string, message: number, walk: Walk, depth: number): Promise<void> {
+  if (depth > MAX_DEPTH) return;
+  const mimeType = (part.mimeType || "").toLowerCase();
+  const children = part.parts || [];
+
+  if (mimeType === "message/rfc822") {
+    const forwarded = ++walk.messages;
+    for (const [i, child] of children.entries()) {
+      await walkGmailPart(child, childPath(path, i), forwarded, walk, depth + 1);
+    }
+    if (children.length > 0) return;
+
+    // Gmail leaves some forwarded messages unparsed, as one raw attachment
+    try {
+      const raw = part.body?.data
+        ? decodeBase64Url(part.body.data)
+        : part.body?.attachmentId
+          ? await fetchAttachment(walk, part.body.attachmentId)
+          : null;
+      if (raw) walkRawPart(raw, path, forwarded, walk, depth + 1);
+    } catch (err) {
+      console.error(`Error reading forwarded message at part ${path || "1"}:`, err);
+    }
+    return;
+  }
+
+  if (children.length > 0) {
+    for (const [i, child] of children.entries()) {
+      await walkGmailPart(child, childPath(path, i), message, walk, depth + 1);
+    }
+    return;
+  }
+
+  // Gmail has already undone the transfer encoding, but not the charset
+  addLeaf(walk, {
+    path,
+    message,
+    headers: headerMap(part.headers),
+    mimeType,
+    filename: part.filename,
+    data: part.body?.data ? decodeBase64Url(part.body.data) : null,
+    attachmentId: part.body?.attachmentId || null,
+    size: part.body?.size,
+  });
+}
+
+// A part in RFC 822 form: headers, a blank line, then the (still encoded) content
+function walkRawPart(raw: Buffer, path: string, message: number, walk: Walk, depth: number): void {
+  if (depth > MAX_DEPTH) return;
+  const { headers, body } = splitHeaders(raw);
+  const contentType = parseHeaderValue(headers["content-type"]);
+  const mimeType = contentType.value || "text/plain";
+
+  if (mimeType.startsWith("multipart/") && contentType.params.boundary) {
+    splitMultipart(body, contentType.params.boundary).forEach((child, i) =>
+      walkRawPart(child, childPath(path, i), message, walk, depth + 1)
+    );
+    return;
+  }
+
+  const data = decodeTransferEncoding(body, headers["content-transfer-encoding"]);
+  if (mimeType === "message/rfc822") {
+    walkRawPart(data, path, ++walk.messages, walk, depth + 1);
+    return;
+  }
+  addLeaf(walk, { path, message, headers, mimeType, data, attachmentId: null });
+}
+
+function addLeaf(
+  walk: Walk,
+  part: {
+    path: string;
+    message: number;
+    headers: Headers;
+    mimeType: string;
+    filename?: string;
+    data: Buffer | null;
+    attachmentId: string | null;
+    size?: number;
+  }
+): void {
+  const contentType = parseHeaderValue(part.headers["content-type"]);
+  const disposition = parseHeaderValue(part.headers["content-disposition"]);
+  const filename = part.filename || disposition.params.filename || contentType.params.name || "";
+  walk.leaves.push({
+    // A message that isn't multipart is its own first part
+    path: part.path || "1",
+    // Untyped parts are plain text (RFC 2045)
+    mimeType: part.mimeType || contentType.value || "text/plain",
+    filename,
+    size: part.size ?? part.data?.length ?? 0,
+    message: part.message,
+    charset: contentType.params.charset || null,
+    attachment: disposition.value === "attachment" || filename !== "",
+    embedded: Boolean(part.headers["content-id"]),
+    data: part.data,
+    attachmentId: part.attachmentId,
+  });
+}
+
+// Each message's plain text, or its HTML rendered as text when it has none.
+// The email itself comes first, then anything forwarded in it.
+function bodyText(walk: Walk): string {
+  const texts: string[] = [];
+  for (let message = 0; message <= walk.messages; message++) {
+    const inline = walk.leaves.filter((l) => l.message === message && !l.attachment && l.data);
+    const plain = inline.filter((l) => l.mimeType === "text/plain");
+    if (plain.length > 0) {
+      texts.push(...plain.map((l) => decodeText(l.data!, l.charset)));
+    } else {
+      texts.push(
+        ...inline
+          .filter((l) => l.mimeType === "text/html")
+          .map((l) => htmlToText(decodeText(l.data!, l.charset)))
+      );
+    }
+  }
+  return texts.filter((text) => text.trim()).join("\n\n");
+}
+
+function isPdf(leaf: Leaf): boolean {
+  return leaf.mimeType === "application/pdf" || leaf.filename.toLowerCase().endsWith(".pdf");
+}
+
+function isOcrImage(leaf: Leaf): boolean {
+  return isImageType(leaf.mimeType) && !leaf.embedded && leaf.size >= MIN_OCR_IMAGE_BYTES;
+}
+
+// Inline content, or fetched from Gmail when it's held as an attachment
+async function leafData(walk: Walk, leaf: Leaf): Promise<Buffer | null> {
+  if (leaf.data) return leaf.data;
+  return leaf.attachmentId ? fetchAttachment(walk, leaf.attachmentId) : null;
+}
+
+async function fetchAttachment(walk: Walk, id: string): Promise<Buffer | null> {
+  const attachment = await walk.gmail.users.messages.attachments.get({
+    userId: "me",
+    messageId: walk.messageId,
+    id,
+  });
+  return attachment.data.data ? decodeBase64Url(attachment.data.data) : null;
+}
+
+function childPath(path: string, index: number): string {
+  return path ? `${path}.${index + 1}` : String(index + 1);
+}
+
+function headerMap(headers: GmailPart["headers"]): Headers {
+  const map: Headers = {};
+  for (const { name, value } of headers || []) {
+    const key = name.toLowerCase();
+    if (!(key in map)) map[key] = value;
+  }
+  return map;
+}
+
+// "text/plain; charset=\"utf-8\"" -> { value: "text/plain", params: { charset: "utf-8" } }
+function parseHeaderValue(header?: string): { value: string; params: Record<string, string> } {
+  if (!header) return { value: "", params: {} };
+  const params: Record<string, string> = {};
+  for (const match of header.matchAll(/;\s*([\w*-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;\s]*))/g)) {
+    params[match[1].toLowerCase()] = match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3];
+  }
+  return { value: header.split(";")[0].trim().toLowerCase(), params };
+}
+
+// Latin-1 maps bytes to characters one to one, so binary content survives the round trip
+function splitHeaders(raw: Buffer): { headers: Headers; body: Buffer } {
+  const text = raw.toString("latin1");
+  const blank = /^\r?\n|\r?\n\r?\n/.exec(text);
+  const end = blank ? blank.index : text.length;
+  const headers: Headers = {};
+  for (const line of text.substring(0, end).replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.substring(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.substring(colon + 1).trim();
+  }
+  return { headers, body: raw.subarray(blank ? blank.index + blank[0].length : text.length) };
+}
+
+// The parts between boundary lines; the preamble and epilogue are dropped
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const delimiter = `--${boundary}`;
+  const parts: Buffer[] = [];
+  let current: string[] | null = null;
+  for (const line of body.toString("latin1").split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed !== delimiter && trimmed !== `${delimiter}--`) {
+      current?.push(line);
+      continue;
+    }
+    if (current) parts.push(Buffer.from(current.join("\r\n"), "latin1"));
+    if (trimmed !== delimiter) return parts;
+    current = [];
+  }
+  // No closing boundary: keep what's there
+  if (current) parts.push(Buffer.from(current.join("\r\n"), "latin1"));
+  return parts;
+}
+
+function decodeTransferEncoding(body: Buffer, encoding?: string): Buffer {
+  switch ((encoding || "").trim().toLowerCase()) {
+    case "base64":
+      return decodeBase64Url(body.toString("latin1").replace(/\s+/g, ""));
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return body;
+  }
+}
+
+// Gmail uses the URL-safe alphabet without padding; Node reads that and standard base64 alike
+function decodeBase64Url(data: string): Buffer {
+  return Buffer.from(data, "base64url");
+}
+
+function decodeQuotedPrintable(body: Buffer): Buffer {
+  const text = body
+    .toString("latin1")
+    // Soft line breaks, allowing for whitespace a relay added before them
+    .replace(/=[ \t]*\r?\n/g, "")
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(text, "latin1");
+}
+
+// What windows-1252 puts in 0x80-0x9F, where Latin-1 has control characters
+const WINDOWS_1252 =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+// Unknown charsets fall back to UTF-8 rather than losing the text
+function decodeText(data: Buffer, charset: string | null): string {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || "utf-8");
+  } catch {
+    return data.toString("utf8");
   }
+  // Node decodes windows-1252 (and the Latin-1 labels that mean it) as plain
+  // Latin-1, losing the euro sign and smart quotes Outlook sends
+  if (decoder.encoding !== "windows-1252") return decoder.decode(data);
+  return data.toString("latin1").replace(/[\x80-\x9f]/g, (c) => WINDOWS_1252[c.charCodeAt(0) - 0x80]);
 }
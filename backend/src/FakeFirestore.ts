@@ -0,0 +1,235 @@
+/**
+ * Minimal in-memory stand-in for the parts of the Firestore API the stores use.
+ * Only intended for tests: pass it where a Firestore is expected with
+ * `new FakeFirestore() as unknown as Firestore`.
+ */
+
+type Data = Record<string, any>;
+type Op = "==" | "!=" | "<" | "<=" | ">" | ">=" | "array-contains" | "in";
+
+interface Filter {
+  field: string;
+  op: Op;
+  value: any;
+}
+
+class FakeDocSnapshot {
+  constructor(
+    public ref: FakeDocRef,
+    private value: Data | undefined
+  ) {}
+
+  get id() {
+    return this.ref.id;
+  }
+
+  get exists() {
+    return this.value !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.value === undefined ? undefined : structuredClone(this.value);
+  }
+}
+
+class FakeDocRef {
+  constructor(
+    private db: FakeFirestore,
+    public path: string
+  ) {}
+
+  get id() {
+    return this.path.split("/").pop()!;
+  }
+
+  collection(name: string) {
+    return new FakeQuery(this.db, `${this.path}/${name}`);
+  }
+
+  async get() {
+    return new FakeDocSnapshot(this, this.db.read(this.path));
+  }
+
+  async set(data: Data, options?: { merge?: boolean }) {
+    const existing = options?.merge ? this.db.read(this.path) : undefined;
+    this.db.write(this.path, { ...(existing || {}), ...data });
+  }
+
+  async update(data: Data) {
+    const existing = this.db.read(this.path);
+    if (existing === undefined) {
+      throw new Error(`No document to update: ${this.path}`);
+    }
+    this.db.write(this.path, { ...existing, ...data });
+  }
+
+  async delete(precondition?: { exists?: boolean }) {
+    if (precondition?.exists && this.db.read(this.path) === undefined) {
+      throw new Error(`No document to delete: ${this.path}`);
+    }
+    this.db.remove(this.path);
+  }
+}
+
+class FakeQuery {
+  constructor(
+    private db: FakeFirestore,
+    private path: string,
+    private filters: Filter[] = [],
+    private order: { field: string; dir: "asc" | "desc" } | null = null,
+    private max: number | null = null
+  ) {}
+
+  doc(id: string = crypto.randomUUID()) {
+    return new FakeDocRef(this.db, `${this.path}/${id}`);
+  }
+
+  where(field: string, op: Op, value: any) {
+    return new FakeQuery(this.db, this.path, [...this.filters, { field, op, value }], this.order, this.max);
+  }
+
+  orderBy(field: string, dir: "asc" | "desc" = "asc") {
+    return new FakeQuery(this.db, this.path, this.filters, { field, dir }, this.max);
+  }
+
+  limit(n: number) {
+    return new FakeQuery(this.db, this.path, this.filters, this.order, n);
+  }
+
+  async get() {
+    let docs = this.db
+      .list(this.path)
+      .filter(([, data]) => this.filters.every((f) => matches(data, f)))
+      .map(([path, data]) => new FakeDocSnapshot(new FakeDocRef(this.db, path), data));
+
+    if (this.order) {
+      const { field, dir } = this.order;
+      docs = docs.filter((d) => d.data()![field] !== undefined);
+      docs.sort((a, b) => {
+        const av = a.data()![field];
+        const bv = b.data()![field];
+        const cmp = av < bv ? -1 : av > bv ? 1 : 0;
+        return dir === "asc" ? cmp : -cmp;
+      });
+    }
+    if (this.max !== null) docs = docs.slice(0, this.max);
+
+    return { docs, empty: docs.length === 0, size: docs.length };
+  }
+}
+
+function matches(data: Data, { field, op, value }: Filter): boolean {
+  const actual = data[field];
+  switch (op) {
+    case "==":
+      return actual === value;
+    case "!=":
+      return actual !== undefined && actual !== value;
+    case "<":
+      return actual !== undefined && actual < value;
+    case "<=":
+      return actual !== undefined && actual <= value;
+    case ">":
+      return actual !== undefined && actual > value;
+    case ">=":
+      return actual !== undefined && actual >= value;
+    case "array-contains":
+      return Array.isArray(actual) && actual.includes(value);
+    case "in":
+      return Array.isArray(value) && value.includes(actual);
+  }
+}
+
+export class FakeFirestore {
+  private docs = new Map<string, Data>();
+
+  collection(name: string) {
+    return new FakeQuery(this, name);
+  }
+
+  /** Every collection called `name`, at any depth. Only get() is supported. */
+  collectionGroup(name: string) {
+    return {
+      get: async () => {
+        const docs = [...this.docs.entries()]
+          .filter(([path]) => path.split("/").at(-2) === name)
+          .map(([path, data]) => new FakeDocSnapshot(new FakeDocRef(this, path), structuredClone(data)));
+        return { docs, empty: docs.length === 0, size: docs.length };
+      },
+    };
+  }
+
+  batch() {
+    const ops: (() => Promise<void>)[] = [];
+    const batch = {
+      set: (ref: FakeDocRef, data: Data, options?: { merge?: boolean }) => {
+        ops.push(() => ref.set(data, options));
+        return batch;
+      },
+      update: (ref: FakeDocRef, data: Data) => {
+        ops.push(() => ref.update(data));
+        return batch;
+      },
+      delete: (ref: FakeDocRef) => {
+        ops.push(() => ref.delete());
+        return batch;
+      },
+      commit: async () => {
+        // As Firestore does, so code that doesn't chunk its batches fails here too
+        if (ops.length > 500) throw new Error("maximum 500 writes allowed per request");
+        for (const op of ops) await op();
+      },
+    };
+    return batch;
+  }
+
+  /** Runs the callback once - there are no concurrent writers to retry against */
+  async runTransaction<T>(fn: (transaction: any) => Promise<T>): Promise<T> {
+    const ops: (() => Promise<void>)[] = [];
+    const transaction = {
+      get: (ref: FakeDocRef) => ref.get(),
+      set: (ref: FakeDocRef, data: Data, options?: { merge?: boolean }) => {
+        ops.push(() => ref.set(data, options));
+        return transaction;
+      },
+      update: (ref: FakeDocRef, data: Data) => {
+        ops.push(() => ref.update(data));
+        return transaction;
+      },
+      delete: (ref: FakeDocRef) => {
+        ops.push(() => ref.delete());
+        return transaction;
+      },
+    };
+    const result = await fn(transaction);
+    for (const op of ops) await op();
+    return result;
+  }
+
+  /** Raw access for assertions, e.g. `db.dump("users/u1/bills")` */
+  dump(collectionPath: string): Record<string, Data> {
+    return Object.fromEntries(
+      this.list(collectionPath).map(([path, data]) => [path.split("/").pop()!, data])
+    );
+  }
+
+  read(path: string): Data | undefined {
+    const data = this.docs.get(path);
+    return data === undefined ? undefined : structuredClone(data);
+  }
+
+  write(path: string, data: Data) {
+    this.docs.set(path, structuredClone(data));
+  }
+
+  remove(path: string) {
+    this.docs.delete(path);
+  }
+
+  list(collectionPath: string): [string, Data][] {
+    const depth = collectionPath.split("/").length + 1;
+    return [...this.docs.entries()].filter(
+      ([path]) => path.startsWith(`${collectionPath}/`) && path.split("/").length === depth
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FixtureProvider } from "./FixtureProvider.js";
+
+describe("FixtureProvider", () => {
+  it("should replay the response recorded for a prompt", async () => {
+    const provider = new FixtureProvider().add("prompt A", "response A").add("prompt B", "response B");
+
+    expect(await provider.generate("prompt B")).toBe("response B");
+    expect(await provider.generate("prompt A")).toBe("response A");
+    expect(provider.prompts).toEqual(["prompt B", "prompt A"]);
+  });
+
+  it("should throw for an unknown prompt", async () => {
+    await expect(new FixtureProvider().generate("unrecorded")).rejects.toThrow("No fixture for prompt");
+  });
+
+  it("should load fixtures keyed by prompt hash from a file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+    const file = join(dir, "fixtures.json");
+    writeFileSync(file, JSON.stringify({ [FixtureProvider.key("hello")]: "world" }));
+
+    expect(await FixtureProvider.fromFile(file).generate("hello")).toBe("world");
+  });
+});
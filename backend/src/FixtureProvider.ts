@@ -0,0 +1,42 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { LLMProvider } from "./LLMProvider.js";
+
+/**
+ * Deterministic replay of recorded completions, keyed by a hash of the prompt.
+ * Lets the analyzers run in tests and CI without a model. An unknown prompt
+ * throws so a changed prompt can't silently pass.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture";
+  private fixtures: Map<string, string>;
+  /** Prompts seen so far, in order - handy for asserting on prompt content */
+  readonly prompts: string[] = [];
+
+  constructor(fixtures: Record<string, string> = {}) {
+    this.fixtures = new Map(Object.entries(fixtures));
+  }
+
+  static fromFile(path: string): FixtureProvider {
+    return new FixtureProvider(JSON.parse(readFileSync(path, "utf8")));
+  }
+
+  static key(prompt: string): string {
+    return createHash("sha256").update(prompt).digest("hex");
+  }
+
+  /** Register a response for an exact prompt */
+  add(prompt: string, response: string): this {
+    this.fixtures.set(FixtureProvider.key(prompt), response);
+    return this;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    const response = this.fixtures.get(FixtureProvider.key(prompt));
+    if (response === undefined) {
+      throw new Error(`No fixture for prompt ${FixtureProvider.key(prompt).substring(0, 12)}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import { convertBill, FxImportError, FxStore, FxTable, parseFxCsv } from "./FxStore.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+describe("FxStore", () => {
+  describe("parseFxCsv", () => {
+    it("should read one rate per row", () => {
+      const { rates, skipped } = parseFxCsv("Date,From,To,Rate\n2025-01-15,USD,AUD,1.61\n16/01/2025,eur,aud,1.66\n");
+
+      expect(rates).toEqual([
+        { from: "USD", to: "AUD", date: "2025-01-15", rate: 1.61 },
+        { from: "EUR", to: "AUD", date: "2025-01-16", rate: 1.66 },
+      ]);
+      expect(skipped).toEqual([]);
+    });
+
+    it("should read a column per currency quoted against the base", () => {
+      const { rates } = parseFxCsv("date,USD,EUR,GBP\n2025-01-15,0.6211,0.6024,\n", "AUD");
+
+      expect(rates).toEqual([
+        { from: "AUD", to: "USD", date: "2025-01-15", rate: 0.6211 },
+        { from: "AUD", to: "EUR", date: "2025-01-15", rate: 0.6024 },
+      ]);
+    });
+
+    it("should skip and report rows that don't parse", () => {
+      const { rates, skipped } = parseFxCsv(
+        "date,from,to,rate\nyesterday,USD,AUD,1.6\n2025-01-15,BTC,AUD,150000\n2025-01-15,USD,AUD,n/a\n2025-01-15,USD,AUD,1.6\n"
+      );
+
+      expect(rates).toHaveLength(1);
+      expect(skipped).toEqual([
+        { line: 2, reason: 'Unreadable date "yesterday"' },
+        { line: 3, reason: "Unsupported currency pair BTC/AUD" },
+        { line: 4, reason: 'Unreadable rate "n/a"' },
+      ]);
+    });
+
+    it("should reject files it can't make sense of", () => {
+      expect(() => parseFxCsv("")).toThrow(FxImportError);
+      expect(() => parseFxCsv("when,rate\n2025-01-15,1.6")).toThrow("The file needs a date column");
+      expect(() => parseFxCsv("date,USD\n2025-01-15,0.62")).toThrow("Say which currency the rates are quoted against");
+    });
+  });
+
+  describe("FxTable", () => {
+    const table = new FxTable([
+      { from: "USD", to: "AUD", date: "2025-01-10", rate: 1.6 },
+      { from: "USD", to: "AUD", date: "2025-01-15", rate: 1.62 },
+      { from: "AUD", to: "EUR", date: "2025-01-15", rate: 0.6 },
+    ]);
+
+    it("should use the latest rate on or before the day", () => {
+      expect(table.rate("USD", "AUD", "2025-01-14")).toBe(1.6);
+      expect(table.rate("USD", "AUD", "2025-01-15T10:00:00.000Z")).toBe(1.62);
+      expect(table.rate("USD", "AUD", "2025-01-20")).toBe(1.62);
+    });
+
+    it("should not use a rate more than a week old, or one from the future", () => {
+      expect(table.rate("USD", "AUD", "2025-01-23")).toBeNull();
+      expect(table.rate("USD", "AUD", "2025-01-09")).toBeNull();
+    });
+
+    it("should invert and cross rates it isn't given directly", () => {
+      expect(table.rate("AUD", "USD", "2025-01-15")).toBeCloseTo(1 / 1.62);
+      expect(table.rate("USD", "EUR", "2025-01-15")).toBeCloseTo(1.62 * 0.6);
+      expect(table.rate("AUD", "AUD", "2025-01-15")).toBe(1);
+    });
+
+    it("should convert to the cent", () => {
+      expect(table.convert(15.99, "USD", "AUD", "2025-01-15")).toBe(25.9);
+      expect(table.convert(15.99, "GBP", "AUD", "2025-01-15")).toBeNull();
+    });
+  });
+
+  describe("convertBill", () => {
+    const fx = {
+      baseCurrency: "AUD" as const,
+      table: new FxTable([{ from: "USD", to: "AUD", date: "2025-01-15", rate: 1.6 }]),
+    };
+
+    it("should convert at the rate on the day the bill arrived", () => {
+      expect(convertBill({ amount: 20, currency: "USD", emailDate: "Wed, 15 Jan 2025 09:00:00 +1100" }, fx)).toEqual({
+        baseCurrency: "AUD",
+        baseAmount: 32,
+        fxRate: 1.6,
+      });
+    });
+
+    it("should take bills without a currency to be in the base currency", () => {
+      expect(convertBill({ amount: 20, currency: null, emailDate: "2025-01-15" }, fx)).toEqual({
+        baseCurrency: "AUD",
+        baseAmount: 20,
+        fxRate: 1,
+      });
+    });
+
+    it("should leave the base amount empty when there's no rate", () => {
+      expect(convertBill({ amount: 20, currency: "EUR", emailDate: "2025-01-15" }, fx).baseAmount).toBeNull();
+    });
+  });
+
+  describe("store", () => {
+    let db: FakeFirestore;
+    let store: FxStore;
+
+    beforeEach(() => {
+      db = new FakeFirestore();
+      store = new FxStore(db as unknown as Firestore);
+    });
+
+    it("should default the base currency to AUD until one is set", async () => {
+      expect(await store.getBaseCurrency("user1")).toBe("AUD");
+
+      await store.setBaseCurrency("user1", "NZD");
+
+      expect(await store.getBaseCurrency("user1")).toBe("NZD");
+    });
+
+    it("should replace rates for the same pair and day on re-import", async () => {
+      await store.importRates("user1", [{ from: "USD", to: "AUD", date: "2025-01-15", rate: 1.6 }]);
+      await store.importRates("user1", [
+        { from: "USD", to: "AUD", date: "2025-01-15", rate: 1.61 },
+        { from: "USD", to: "AUD", date: "2025-01-16", rate: 1.62 },
+      ]);
+
+      expect(Object.keys(db.dump("users/user1/fxRates"))).toHaveLength(2);
+      const { baseCurrency, table } = await store.conversion("user1");
+      expect(baseCurrency).toBe("AUD");
+      expect(table.rate("USD", "AUD", "2025-01-15")).toBe(1.61);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Firestore } from "@google-cloud/firestore";
+import { CURRENCIES, Currency } from "./BillExtraction.js";
+import { parseAmount, parseCsv, parseDate } from "./StatementImporter.js";
+
+/** 1 `from` buys `rate` of `to` on `date` */
+export interface FxRate {
+  from: Currency;
+  to: Currency;
+  date: string;
+  rate: number;
+}
+
+/** A bill's amount in the user's base currency, stored next to the original */
+export interface Conversion {
+  baseCurrency: Currency;
+  /** Null when there's no rate for the bill's currency on the day */
+  baseAmount: number | null;
+  fxRate: number | null;
+}
+
+/** What converting needs: the user's base currency and their rate table */
+export interface FxConversion {
+  baseCurrency: Currency;
+  table: FxTable;
+}
+
+export class FxImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FxImportError";
+  }
+}
+
+export const DEFAULT_BASE_CURRENCY: Currency = "AUD";
+
+// A rate this many days old still counts, to cover weekends and holidays
+const MAX_RATE_AGE_DAYS = 7;
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === "string" && (CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse an FX rate CSV. Two layouts are understood:
+ * - one rate per row, with date, from, to and rate columns
+ *   (base/quote work as well as from/to);
+ * - a date column and one column per currency, as central banks publish
+ *   them, where each value is what one `base` buys.
+ * Rows that don't parse are skipped and reported by line number.
+ */
+export function parseFxCsv(
+  text: string,
+  base?: Currency
+): { rates: FxRate[]; skipped: { line: number; reason: string }[] } {
+  const rows = parseCsv(text.replace(/^\uFEFF/, "")).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length < 2) throw new FxImportError("The file has no rates");
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const dateCol = column("date", "day");
+  if (dateCol === -1) throw new FxImportError("The file needs a date column");
+
+  const fromCol = column("from", "base");
+  const toCol = column("to", "quote");
+  const rateCol = column("rate");
+  const long = fromCol !== -1 && toCol !== -1 && rateCol !== -1;
+
+  const currencyCols = header
+    .map((h, i) => ({ currency: h.toUpperCase(), i }))
+    .filter(({ currency, i }) => i !== dateCol && isCurrency(currency));
+  if (!long && currencyCols.length === 0) {
+    throw new FxImportError("The file needs from, to and rate columns, or one column per currency");
+  }
+  if (!long && !base) {
+    throw new FxImportError("Say which currency the rates are quoted against");
+  }
+
+  const rates: FxRate[] = [];
+  const skipped: { line: number; reason: string }[] = [];
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const date = parseDate(row[dateCol], "DMY");
+    if (!date) {
+      skipped.push({ line, reason: `Unreadable date "${row[dateCol] ?? ""}"` });
+      return;
+    }
+
+    if (long) {
+      const from = row[fromCol]?.trim().toUpperCase();
+      const to = row[toCol]?.trim().toUpperCase();
+      const rate = parseAmount(row[rateCol]);
+      if (!isCurrency(from) || !isCurrency(to) || from === to) {
+        skipped.push({ line, reason: `Unsupported currency pair ${from}/${to}` });
+      } else if (rate === null || rate <= 0) {
+        skipped.push({ line, reason: `Unreadable rate "${row[rateCol] ?? ""}"` });
+      } else {
+        rates.push({ from, to, date, rate });
+      }
+      return;
+    }
+
+    for (const { currency, i } of currencyCols) {
+      const rate = parseAmount(row[i]);
+      // Blank cells are days the currency wasn't quoted
+      if (rate !== null && rate > 0 && currency !== base) {
+        rates.push({ from: base!, to: currency as Currency, date, rate });
+      }
+    }
+  });
+
+  return { rates, skipped };
+}
+
+/**
+ * Rates by currency pair and day. A pair that isn't in the table is worked
+ * out from its inverse, or across a currency both sides are quoted in.
+ */
+export class FxTable {
+  private pairs = new Map<string, FxRate[]>();
+
+  constructor(rates: FxRate[]) {
+    for (const rate of rates) {
+      const key = `${rate.from}|${rate.to}`;
+      this.pairs.set(key, [...(this.pairs.get(key) || []), rate]);
+    }
+    for (const list of this.pairs.values()) list.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /** What 1 `from` buys in `to` on `date`, using the latest rate up to a week old */
+  rate(from: Currency, to: Currency, date: string): number | null {
+    if (from === to) return 1;
+    const direct = this.quoted(from, to, date);
+    if (direct !== null) return direct;
+
+    for (const via of CURRENCIES) {
+      if (via === from || via === to) continue;
+      const first = this.quoted(from, via, date);
+      const second = first === null ? null : this.quoted(via, to, date);
+      if (first !== null && second !== null) return first * second;
+    }
+    return null;
+  }
+
+  convert(amount: number, from: Currency, to: Currency, date: string): number | null {
+    const rate = this.rate(from, to, date);
+    return rate === null ? null : Math.round(amount * rate * 100) / 100;
+  }
+
+  // The pair as quoted, or the inverse of the opposite quote
+  private quoted(from: Currency, to: Currency, date: string): number | null {
+    const direct = this.latest(`${from}|${to}`, date);
+    if (direct !== null) return direct;
+    const inverse = this.latest(`${to}|${from}`, date);
+    return inverse === null ? null : 1 / inverse;
+  }
+
+  private latest(key: string, date: string): number | null {
+    const list = this.pairs.get(key);
+    if (!list) return null;
+    const day = date.substring(0, 10);
+    const time = Date.parse(day);
+    if (isNaN(time)) return null;
+    const oldest = new Date(time - MAX_RATE_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+
+    // Binary search for the last rate on or before the day
+    let low = 0;
+    let high = list.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (list[mid].date <= day) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found !== -1 && list[found].date >= oldest ? list[found].rate : null;
+  }
+}
+
+/**
+ * Convert a bill into the base currency at the rate on the day it was issued.
+ * Bills without a currency are taken to be in the base currency already.
+ */
+export function convertBill(
+  bill: { amount: number | null; currency: Currency | null; emailDate: string },
+  fx: FxConversion
+): Conversion {
+  const { baseCurrency } = fx;
+  if (bill.amount === null) return { baseCurrency, baseAmount: null, fxRate: null };
+  if (!bill.currency || bill.currency === baseCurrency) {
+    return { baseCurrency, baseAmount: bill.amount, fxRate: 1 };
+  }
+
+  const fxRate = fx.table.rate(bill.currency, baseCurrency, localDay(bill.emailDate));
+  return {
+    baseCurrency,
+    baseAmount: fxRate === null ? null : Math.round(bill.amount * fxRate * 100) / 100,
+    fxRate,
+  };
+}
+
+// The calendar day in the sender's time zone: "Wed, 15 Jan 2025 09:00 +1100" is the 15th, not the 14th
+function localDay(date: string): string {
+  const time = Date.parse(date);
+  if (isNaN(time)) return new Date().toISOString().substring(0, 10);
+  const offset = date.match(/([+-])(\d{2}):?(\d{2})\s*(\(.*\))?$/);
+  const minutes = offset ? (offset[1] === "-" ? -1 : 1) * (Number(offset[2]) * 60 + Number(offset[3])) : 0;
+  return new Date(time + minutes * 60 * 1000).toISOString().substring(0, 10);
+}
+
+/**
+ * The user's base currency (`users/{uid}/settings/currency`) and their FX
+ * rate table (`users/{uid}/fxRates`, one document per pair and day so
+ * importing an overlapping file updates rates instead of duplicating them).
+ */
+export class FxStore {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  static rateId(rate: Pick<FxRate, "from" | "to" | "date">): string {
+    return `${rate.from}_${rate.to}_${rate.date}`;
+  }
+
+  private settings(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("settings").doc("currency");
+  }
+
+  private rates(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("fxRates");
+  }
+
+  async getBaseCurrency(uid: string): Promise<Currency> {
+    const snapshot = await this.settings(uid).get();
+    const stored = snapshot.exists ? snapshot.data()?.baseCurrency : null;
+    return isCurrency(stored) ? stored : DEFAULT_BASE_CURRENCY;
+  }
+
+  async setBaseCurrency(uid: string, baseCurrency: Currency): Promise<void> {
+    await this.settings(uid).set({ baseCurrency, updatedAt: Date.now() }, { merge: true });
+  }
+
+  /** Store rates, replacing any already held for the same pair and day. Returns how many were written. */
+  async importRates(uid: string, rates: FxRate[]): Promise<number> {
+    // Firestore caps a batch at 500 writes
+    for (let i = 0; i < rates.length; i += 500) {
+      const batch = this.firestore.batch();
+      for (const rate of rates.slice(i, i + 500)) {
+        batch.set(this.rates(uid).doc(FxStore.rateId(rate)), rate);
+      }
+      await batch.commit();
+    }
+    return rates.length;
+  }
+
+  async conversion(uid: string): Promise<FxConversion> {
+    const [baseCurrency, snapshot] = await Promise.all([this.getBaseCurrency(uid), this.rates(uid).get()]);
+    return { baseCurrency, table: new FxTable(snapshot.docs.map((doc) => doc.data() as FxRate)) };
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const { mockGenerateContent } = vi.hoisted(() => ({
+  mockGenerateContent: vi.fn(),
+}));
+
+vi.mock("@google/genai", () => ({
+  GoogleGenAI: class {
+    models = { generateContent: mockGenerateContent };
+  },
+}));
+
+import { GeminiProvider } from "./GeminiProvider.js";
+
+describe("GeminiProvider", () => {
+  beforeEach(() => {
+    mockGenerateContent.mockReset();
+    mockGenerateContent.mockResolvedValue({ text: "response" });
+  });
+
+  it("should return the response text", async () => {
+    const provider = new GeminiProvider("key");
+
+    expect(await provider.generate("prompt")).toBe("response");
+  });
+
+  it("should default to gemini-2.5-flash-lite with the caller's token hint", async () => {
+    await new GeminiProvider("key").generate("prompt", { maxOutputTokens: 256 });
+
+    expect(mockGenerateContent).toHaveBeenCalledWith({
+      model: "gemini-2.5-flash-lite",
+      contents: "prompt",
+      config: { temperature: 0, maxOutputTokens: 256 },
+    });
+  });
+
+  it("should let provider config override model, temperature and tokens", async () => {
+    const provider = new GeminiProvider("key", {
+      model: "gemini-2.5-pro",
+      temperature: 0.2,
+      maxOutputTokens: 2048,
+    });
+
+    await provider.generate("prompt", { maxOutputTokens: 256 });
+
+    expect(mockGenerateContent).toHaveBeenCalledWith({
+      model: "gemini-2.5-pro",
+      contents: "prompt",
+      config: { temperature: 0.2, maxOutputTokens: 2048 },
+    });
+  });
+
+  it("should return an empty string when there is no text", async () => {
+    mockGenerateContent.mockResolvedValue({ text: undefined });
+
+    expect(await new GeminiProvider("key").generate("prompt")).toBe("");
+  });
+});
@@ -0,0 +1,28 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerateOptions, LLMConfig, LLMProvider, resolveOptions } from "./LLMProvider.js";
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private genAI: GoogleGenAI;
+  private config: LLMConfig;
+
+  constructor(apiKey: string = process.env.GOOGLE_API_KEY!, config: LLMConfig = {}) {
+    this.genAI = new GoogleGenAI({ apiKey });
+    this.config = config;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const { temperature, maxOutputTokens } = resolveOptions(this.config, options, {
+      temperature: 0,
+      maxOutputTokens: 1024,
+    });
+
+    const response = await this.genAI.models.generateContent({
+      model: this.config.model || "gemini-2.5-flash-lite",
+      contents: prompt,
+      config: { temperature, maxOutputTokens },
+    });
+
+    return response.text || "";
+  }
+}
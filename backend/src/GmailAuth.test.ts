@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { google } from "googleapis";
+import { Firestore } from "@google-cloud/firestore";
+import { GmailAuth } from "./GmailAuth.js";
+import { OAuthState, InvalidStateError } from "./OAuthState.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+describe("GmailAuth", () => {
+  // Stands in for https://oauth2.googleapis.com/token
+  let tokenServer: Server;
+  let tokenUrl: string;
+  let redeemedCodes: string[];
+
+  beforeAll(async () => {
+    tokenServer = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const code = new URLSearchParams(body).get("code") || "";
+        redeemedCodes.push(code);
+        res.setHeader("Content-Type", "application/json");
+        if (code !== "good-code") {
+          res.statusCode = 400;
+          res.end(JSON.stringify({ error: "invalid_grant" }));
+          return;
+        }
+        res.end(
+          JSON.stringify({
+            access_token: "access-123",
+            refresh_token: "refresh-456",
+            expires_in: 3600,
+            token_type: "Bearer",
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => tokenServer.listen(0, "127.0.0.1", resolve));
+    tokenUrl = `http://127.0.0.1:${(tokenServer.address() as AddressInfo).port}/token`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => tokenServer.close(resolve));
+  });
+
+  let gmailAuth: GmailAuth;
+
+  beforeEach(() => {
+    redeemedCodes = [];
+    const oAuth2Client = new google.auth.OAuth2({
+      clientId: "client-id",
+      clientSecret: "client-secret",
+      redirectUri: "http://localhost/exchange",
+      endpoints: { oauth2TokenUrl: tokenUrl },
+    });
+    const db = new FakeFirestore();
+    gmailAuth = new GmailAuth(oAuth2Client, new OAuthState(db as unknown as Firestore, "secret"));
+  });
+
+  const stateFrom = (url: string) => new URL(url).searchParams.get("state")!;
+
+  it("should put a signed state, not the uid, in the consent URL", async () => {
+    const url = await gmailAuth.authUrl("user1");
+
+    expect(url).toContain("access_type=offline");
+    expect(stateFrom(url)).not.toBe("user1");
+  });
+
+  it("should exchange the code and return the uid from the state", async () => {
+    const state = stateFrom(await gmailAuth.authUrl("user1"));
+
+    const { uid, tokens } = await gmailAuth.exchange("good-code", state);
+
+    expect(uid).toBe("user1");
+    expect(tokens.access_token).toBe("access-123");
+    expect(tokens.refresh_token).toBe("refresh-456");
+    expect(redeemedCodes).toEqual(["good-code"]);
+  });
+
+  it("should reject a replayed state without redeeming the code again", async () => {
+    const state = stateFrom(await gmailAuth.authUrl("user1"));
+    await gmailAuth.exchange("good-code", state);
+
+    await expect(gmailAuth.exchange("good-code", state)).rejects.toBeInstanceOf(InvalidStateError);
+    expect(redeemedCodes).toHaveLength(1);
+  });
+
+  it("should not redeem the code when the state is a raw uid", async () => {
+    await expect(gmailAuth.exchange("good-code", "victimUid")).rejects.toBeInstanceOf(
+      InvalidStateError
+    );
+    expect(redeemedCodes).toEqual([]);
+  });
+
+  it("should surface token endpoint errors", async () => {
+    const state = stateFrom(await gmailAuth.authUrl("user1"));
+
+    await expect(gmailAuth.exchange("bad-code", state)).rejects.toThrow();
+    expect(redeemedCodes).toEqual(["bad-code"]);
+  });
+});
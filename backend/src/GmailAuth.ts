@@ -0,0 +1,40 @@
+import { Auth } from "googleapis";
+import { OAuthState } from "./OAuthState.js";
+
+export const GMAIL_SCOPES = [
+  "https://www.googleapis.com/auth/gmail.readonly",
+  "https://www.googleapis.com/auth/userinfo.email",
+];
+
+/**
+ * Gmail consent flow. The uid travels through Google as a signed OAuthState,
+ * so /exchange can't be tricked into binding tokens to someone else's account.
+ */
+export class GmailAuth {
+  private oAuth2Client: Auth.OAuth2Client;
+  private state: OAuthState;
+
+  constructor(oAuth2Client: Auth.OAuth2Client, state: OAuthState) {
+    this.oAuth2Client = oAuth2Client;
+    this.state = state;
+  }
+
+  async authUrl(uid: string): Promise<string> {
+    return this.oAuth2Client.generateAuthUrl({
+      access_type: "offline",
+      scope: GMAIL_SCOPES,
+      prompt: "consent",
+      state: await this.state.issue(uid),
+    });
+  }
+
+  /**
+   * Check the state before redeeming the code - an invalid state throws
+   * InvalidStateError and the code is never sent to Google.
+   */
+  async exchange(code: string, state: string): Promise<{ uid: string; tokens: Auth.Credentials }> {
+    const uid = await this.state.consume(state);
+    const { tokens } = await this.oAuth2Client.getToken(code);
+    return { uid, tokens };
+  }
+}
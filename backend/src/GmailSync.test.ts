@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import { GmailSync } from "./GmailSync.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+describe("GmailSync", () => {
+  let db: FakeFirestore;
+  let sync: GmailSync;
+  let mockGmail: any;
+  let mockGetProfile: ReturnType<typeof vi.fn>;
+  let mockMessagesList: ReturnType<typeof vi.fn>;
+  let mockMessagesGet: ReturnType<typeof vi.fn>;
+  let mockHistoryList: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    sync = new GmailSync(db as unknown as Firestore, "bills", "subject:bill", /\bbill\b/i);
+
+    mockGetProfile = vi.fn().mockResolvedValue({ data: { historyId: "1000" } });
+    mockMessagesList = vi.fn();
+    mockMessagesGet = vi.fn();
+    mockHistoryList = vi.fn();
+
+    mockGmail = {
+      users: {
+        getProfile: mockGetProfile,
+        messages: { list: mockMessagesList, get: mockMessagesGet },
+        history: { list: mockHistoryList },
+      },
+    };
+  });
+
+  const subjectResponse = (subject: string) => ({
+    data: { payload: { headers: [{ name: "Subject", value: subject }] } },
+  });
+
+  describe("first sync", () => {
+    it("should paginate through every matching message", async () => {
+      mockMessagesList
+        .mockResolvedValueOnce({
+          data: { messages: [{ id: "a" }, { id: "b" }], nextPageToken: "page-2" },
+        })
+        .mockResolvedValueOnce({ data: { messages: [{ id: "c" }] } });
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(result).toEqual({ messageIds: ["a", "b", "c"], historyId: "1000", fullSync: true, backfillBefore: null });
+      expect(mockMessagesList).toHaveBeenCalledTimes(2);
+      expect(mockMessagesList.mock.calls[0][0]).toMatchObject({ q: "subject:bill" });
+      expect(mockMessagesList.mock.calls[1][0]).toMatchObject({ pageToken: "page-2" });
+      expect(mockHistoryList).not.toHaveBeenCalled();
+    });
+
+    it("should stop at the backfill limit and note where older mail starts", async () => {
+      const limited = new GmailSync(db as unknown as Firestore, "bills", "subject:bill", /\bbill\b/i, 3);
+      mockMessagesList
+        .mockResolvedValueOnce({ data: { messages: [{ id: "a" }, { id: "b" }], nextPageToken: "page-2" } })
+        .mockResolvedValueOnce({ data: { messages: [{ id: "c" }], nextPageToken: "page-3" } });
+      mockMessagesGet.mockResolvedValue({ data: { id: "c", internalDate: "1736899200000" } });
+
+      const result = await limited.fetchNewMessageIds("user1", mockGmail);
+
+      expect(result).toEqual({
+        messageIds: ["a", "b", "c"],
+        historyId: "1000",
+        fullSync: true,
+        backfillBefore: 1736899201,
+      });
+      expect(mockMessagesList.mock.calls.map(([params]) => params.maxResults)).toEqual([3, 1]);
+      expect(mockMessagesGet).toHaveBeenCalledWith({ userId: "me", id: "c", format: "minimal" });
+    });
+
+    it("should handle a mailbox with no matching messages", async () => {
+      mockMessagesList.mockResolvedValue({ data: {} });
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(result.messageIds).toEqual([]);
+      expect(result.historyId).toBe("1000");
+    });
+  });
+
+  describe("incremental sync", () => {
+    beforeEach(async () => {
+      await sync.commit("user1", "500");
+    });
+
+    it("should only fetch messages added since the saved cursor", async () => {
+      mockHistoryList.mockResolvedValue({
+        data: {
+          historyId: "600",
+          history: [
+            { messagesAdded: [{ message: { id: "new-1", labelIds: ["INBOX"] } }] },
+            { messagesAdded: [{ message: { id: "new-2", labelIds: ["INBOX"] } }] },
+          ],
+        },
+      });
+      mockMessagesGet.mockResolvedValue(subjectResponse("Your bill is ready"));
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(mockHistoryList.mock.calls[0][0]).toMatchObject({
+        startHistoryId: "500",
+        historyTypes: ["messageAdded"],
+      });
+      expect(result).toEqual({
+        messageIds: ["new-1", "new-2"],
+        historyId: "600",
+        fullSync: false,
+        backfillBefore: null,
+      });
+      expect(mockMessagesList).not.toHaveBeenCalled();
+    });
+
+    it("should filter new messages by subject", async () => {
+      mockHistoryList.mockResolvedValue({
+        data: {
+          historyId: "600",
+          history: [
+            {
+              messagesAdded: [
+                { message: { id: "bill", labelIds: ["INBOX"] } },
+                { message: { id: "newsletter", labelIds: ["INBOX"] } },
+              ],
+            },
+          ],
+        },
+      });
+      mockMessagesGet.mockImplementation(({ id }: { id: string }) =>
+        Promise.resolve(subjectResponse(id === "bill" ? "Electricity bill" : "Weekly news"))
+      );
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(result.messageIds).toEqual(["bill"]);
+      expect(mockMessagesGet).toHaveBeenCalledWith(
+        expect.objectContaining({ format: "metadata" })
+      );
+    });
+
+    it("should skip sent, draft and spam messages and de-duplicate ids", async () => {
+      mockHistoryList.mockResolvedValue({
+        data: {
+          historyId: "600",
+          history: [
+            {
+              messagesAdded: [
+                { message: { id: "a", labelIds: ["INBOX"] } },
+                { message: { id: "a", labelIds: ["INBOX"] } },
+                { message: { id: "sent", labelIds: ["SENT"] } },
+                { message: { id: "spam", labelIds: ["SPAM"] } },
+              ],
+            },
+          ],
+        },
+      });
+      mockMessagesGet.mockResolvedValue(subjectResponse("bill"));
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(result.messageIds).toEqual(["a"]);
+      expect(mockMessagesGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should paginate history", async () => {
+      mockHistoryList
+        .mockResolvedValueOnce({
+          data: {
+            history: [{ messagesAdded: [{ message: { id: "a" } }] }],
+            nextPageToken: "next",
+          },
+        })
+        .mockResolvedValueOnce({
+          data: { historyId: "700", history: [{ messagesAdded: [{ message: { id: "b" } }] }] },
+        });
+      mockMessagesGet.mockResolvedValue(subjectResponse("bill"));
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(result.messageIds).toEqual(["a", "b"]);
+      expect(result.historyId).toBe("700");
+    });
+
+    it("should fall back to a full sync when the cursor has expired", async () => {
+      mockHistoryList.mockRejectedValue(Object.assign(new Error("Not Found"), { code: 404 }));
+      mockMessagesList.mockResolvedValue({ data: { messages: [{ id: "a" }] } });
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(result.fullSync).toBe(true);
+      expect(result.messageIds).toEqual(["a"]);
+    });
+
+    it("should carry on backfilling older mail alongside new messages", async () => {
+      await sync.commit("user1", "500", 1736899201);
+      mockHistoryList.mockResolvedValue({
+        data: { historyId: "600", history: [{ messagesAdded: [{ message: { id: "new-1" } }] }] },
+      });
+      mockMessagesGet.mockResolvedValue(subjectResponse("Your bill is ready"));
+      mockMessagesList.mockResolvedValue({ data: { messages: [{ id: "old-1" }, { id: "old-2" }] } });
+
+      const result = await sync.fetchNewMessageIds("user1", mockGmail);
+
+      expect(mockMessagesList.mock.calls[0][0]).toMatchObject({ q: "subject:bill before:1736899201" });
+      // Nothing older left, so the backfill is done
+      expect(result).toEqual({
+        messageIds: ["new-1", "old-1", "old-2"],
+        historyId: "600",
+        fullSync: false,
+        backfillBefore: null,
+      });
+    });
+
+    it("should rethrow other history errors", async () => {
+      mockHistoryList.mockRejectedValue(new Error("Quota exceeded"));
+
+      await expect(sync.fetchNewMessageIds("user1", mockGmail)).rejects.toThrow("Quota exceeded");
+    });
+  });
+
+  describe("commit", () => {
+    it("should store the cursor per user and feed", async () => {
+      await sync.commit("user1", "1234");
+
+      expect(await sync.getCursor("user1")).toBe("1234");
+      expect(await sync.getCursor("user2")).toBeNull();
+      expect(db.dump("users/user1/sync").bills.historyId).toBe("1234");
+    });
+
+    it("should keep the backfill position until it's done", async () => {
+      await sync.commit("user1", "1234", 1736899201);
+      expect(db.dump("users/user1/sync").bills.backfillBefore).toBe(1736899201);
+
+      await sync.commit("user1", "1300");
+      expect(db.dump("users/user1/sync").bills.backfillBefore).toBeNull();
+    });
+
+    it("should ignore a missing history id", async () => {
+      await sync.commit("user1", null);
+
+      expect(await sync.getCursor("user1")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { Firestore } from "@google-cloud/firestore";
+
+export interface SyncResult {
+  messageIds: string[];
+  historyId: string | null;
+  fullSync: boolean;
+  /** Older mail the backfill hasn't reached yet is before this (Unix seconds); null once it's done */
+  backfillBefore: number | null;
+}
+
+// Every backfilled message goes through the LLM (and OCR) in one request, so a scan takes at most this many
+const DEFAULT_BACKFILL_LIMIT = 200;
+
+/**
+ * Tracks a per-user Gmail History API cursor so each scan only sees messages
+ * added since the previous one. The first run (or a cursor Gmail no longer
+ * remembers) backfills `query` instead, newest first and at most
+ * `backfillLimit` messages a scan; later scans carry on into older mail
+ * alongside the new messages until the backfill reaches the end.
+ */
+export class GmailSync {
+  private firestore: Firestore;
+  private feed: string;
+  private query: string;
+  private subjectFilter: RegExp;
+  private backfillLimit: number;
+
+  constructor(
+    firestore: Firestore,
+    feed: string,
+    query: string,
+    subjectFilter: RegExp,
+    backfillLimit = DEFAULT_BACKFILL_LIMIT
+  ) {
+    this.firestore = firestore;
+    this.feed = feed;
+    this.query = query;
+    this.subjectFilter = subjectFilter;
+    this.backfillLimit = backfillLimit;
+  }
+
+  private cursorRef(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("sync").doc(this.feed);
+  }
+
+  async getCursor(uid: string): Promise<string | null> {
+    const doc = await this.cursorRef(uid).get();
+    return doc.exists ? doc.data()?.historyId || null : null;
+  }
+
+  /**
+   * Save the cursor, and how far the backfill has got, once the messages from
+   * fetchNewMessageIds have been processed. Until then a failed scan simply
+   * retries the same messages next time.
+   */
+  async commit(uid: string, historyId: string | null, backfillBefore: number | null = null): Promise<void> {
+    if (!historyId) return;
+    await this.cursorRef(uid).set({ historyId, backfillBefore, updatedAt: Date.now() });
+  }
+
+  async fetchNewMessageIds(uid: string, gmail: any): Promise<SyncResult> {
+    const doc = await this.cursorRef(uid).get();
+    const cursor: string | null = doc.exists ? doc.data()?.historyId || null : null;
+    const backfillBefore: number | null = doc.exists ? (doc.data()?.backfillBefore ?? null) : null;
+
+    if (cursor) {
+      let result: SyncResult | null = null;
+      try {
+        result = await this.fetchHistory(gmail, cursor);
+      } catch (err: any) {
+        // Gmail only keeps history for about a week; an expired cursor 404s
+        if (err?.code !== 404 && err?.response?.status !== 404) throw err;
+        console.log(`History cursor ${cursor} expired, running full sync`);
+      }
+      if (result) {
+        if (backfillBefore === null) return result;
+        // The next stretch of older mail the first sync didn't get to
+        const older = await this.fetchBackfill(gmail, backfillBefore);
+        return {
+          ...result,
+          messageIds: [...new Set([...result.messageIds, ...older.messageIds])],
+          backfillBefore: older.backfillBefore,
+        };
+      }
+    }
+
+    return this.fetchAll(gmail);
+  }
+
+  private async fetchAll(gmail: any): Promise<SyncResult> {
+    // Read the profile first so anything arriving mid-backfill is picked up next time
+    const profile = await gmail.users.getProfile({ userId: "me" });
+    const historyId = profile.data.historyId || null;
+
+    const backfill = await this.fetchBackfill(gmail, null);
+    return { ...backfill, historyId, fullSync: true };
+  }
+
+  /**
+   * Up to backfillLimit of the newest messages matching the query (before
+   * `before`, in Unix seconds, if given), and where the next stretch starts
+   * if there are more.
+   */
+  private async fetchBackfill(
+    gmail: any,
+    before: number | null
+  ): Promise<{ messageIds: string[]; backfillBefore: number | null }> {
+    const q = before === null ? this.query : `${this.query} before:${before}`;
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const res = await gmail.users.messages.list({
+        userId: "me",
+        q,
+        maxResults: Math.min(500, this.backfillLimit - messageIds.length),
+        pageToken,
+      });
+      for (const msg of res.data.messages || []) {
+        messageIds.push(msg.id);
+      }
+      pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken && messageIds.length < this.backfillLimit);
+
+    const ids = [...new Set(messageIds)];
+    if (!pageToken || ids.length === 0) return { messageIds: ids, backfillBefore: null };
+
+    // Lists are newest first, so carry on from the last one. `before:` is exclusive and in whole
+    // seconds: going a second past it re-reads that message rather than skipping others sent
+    // in the same second, and never going back to the same bound stops it looping.
+    const oldest = await gmail.users.messages.get({ userId: "me", id: ids[ids.length - 1], format: "minimal" });
+    const next = Math.floor(Number(oldest.data.internalDate) / 1000) + 1;
+    if (!Number.isFinite(next)) return { messageIds: ids, backfillBefore: null };
+    return { messageIds: ids, backfillBefore: before === null ? next : Math.min(next, before - 1) };
+  }
+
+  private async fetchHistory(gmail: any, startHistoryId: string): Promise<SyncResult> {
+    const added: string[] = [];
+    let historyId: string | null = startHistoryId;
+    let pageToken: string | undefined;
+    do {
+      const res = await gmail.users.history.list({
+        userId: "me",
+        startHistoryId,
+        historyTypes: ["messageAdded"],
+        pageToken,
+      });
+      for (const record of res.data.history || []) {
+        for (const { message } of record.messagesAdded || []) {
+          if (message?.id && !isExcluded(message.labelIds)) added.push(message.id);
+        }
+      }
+      historyId = res.data.historyId || historyId;
+      pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    // History can't be filtered by query, so check subjects via cheap metadata fetches
+    const messageIds: string[] = [];
+    for (const id of new Set(added)) {
+      const res = await gmail.users.messages.get({
+        userId: "me",
+        id,
+        format: "metadata",
+        metadataHeaders: ["Subject"],
+      });
+      const subject =
+        res.data.payload?.headers?.find((h: any) => h.name === "Subject")?.value || "";
+      if (this.subjectFilter.test(subject)) messageIds.push(id);
+    }
+
+    return { messageIds, historyId, fullSync: false, backfillBefore: null };
+  }
+}
+
+function isExcluded(labelIds: string[] | undefined): boolean {
+  return (labelIds || []).some((label) => ["SENT", "DRAFT", "SPAM", "TRASH"].includes(label));
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { decodeEntities, htmlToText, looksLikeHtml } from "./HtmlText.js";
+
+describe("HtmlText", () => {
+  describe("htmlToText", () => {
+    it("should drop head, style and script content", () => {
+      const html = `<html><head><title>Your bill</title><style>.amount { color: red; }</style></head>
+        <body><script>track("open")</script><p>Amount due: $84.10</p><noscript>Enable JavaScript</noscript></body></html>`;
+
+      expect(htmlToText(html)).toBe("Amount due: $84.10");
+    });
+
+    it("should decode named and numeric entities", () => {
+      expect(htmlToText("<p>Total&nbsp;&#36;120.50 &ndash; due 3&nbsp;March &amp; that&#x27;s&hellip;</p>")).toBe(
+        "Total $120.50 – due 3 March & that's…"
+      );
+    });
+
+    it("should put each table row on a line with its cells separated", () => {
+      const html = `<table>
+        <tr><th>Description</th><th>Amount</th></tr>
+        <tr><td>Supply charge</td><td>&#36;32.10</td></tr>
+        <tr><td></td><td>&nbsp;</td></tr>
+        <tr><td><b>Total due</b></td><td><b>$84.10</b></td></tr>
+      </table>`;
+
+      expect(htmlToText(html)).toBe("Description | Amount\nSupply charge | $32.10\nTotal due | $84.10");
+    });
+
+    it("should flatten nested layout tables without stray separators", () => {
+      const html = `<table><tr><td width="20"></td><td>
+        <table><tr><td>Account</td><td>1234 5678</td></tr></table>
+      </td><td width="20"></td></tr></table>`;
+
+      expect(htmlToText(html)).toBe("Account | 1234 5678");
+    });
+
+    it("should keep link URLs inline after their text", () => {
+      const html = `<p><a href="https://agl.com.au/pay?ref=1&amp;src=email">Pay now</a> or visit
+        <a href="https://agl.com.au">https://agl.com.au</a>.
+        <a href="https://agl.com.au/home"><img src="logo.png" alt=""></a></p>`;
+
+      expect(htmlToText(html)).toBe("Pay now (https://agl.com.au/pay?ref=1&src=email) or visit https://agl.com.au.");
+    });
+
+    it("should strip tracking pixels and hidden preview text but keep image alt text", () => {
+      const html = `<div style="display:none;max-height:0">Your bill is ready&zwnj;&nbsp;&zwnj;&nbsp;</div>
+        <img src="https://t.example.com/open.gif" width="1" height="1" alt="tracking">
+        <img src="https://t.example.com/o.gif" style="width:1px;height:1px" alt="pixel">
+        <img src="banner.png" alt="Pay by 3 March">
+        <p>Amount due: $84.10</p>`;
+
+      expect(htmlToText(html)).toBe("Pay by 3 March\nAmount due: $84.10");
+    });
+
+    it("should cut the footer and the view-in-browser line", () => {
+      const html = `<p><a href="https://example.com/view">View this email in your browser</a></p>
+        <p>Your Telstra bill</p>
+        <p>Amount due: $89.00</p>
+        <p>Due date: 3 March 2025</p>
+        <footer><p>Telstra Corporation Limited ABN 33 051 775 556</p></footer>
+        <p>You're receiving this email because you have a Telstra account.</p>
+        <p><a href="https://example.com/unsub">Unsubscribe</a> | Privacy</p>
+        <p>&copy; 2025 Telstra. All rights reserved.</p>`;
+
+      expect(htmlToText(html)).toBe("Your Telstra bill\nAmount due: $89.00\nDue date: 3 March 2025");
+    });
+
+    it("should keep a copyright line near the top", () => {
+      expect(htmlToText("<p>© Origin Energy</p><p>Amount due: $50</p><p>Due 3 March</p>")).toBe(
+        "© Origin Energy\nAmount due: $50\nDue 3 March"
+      );
+    });
+
+    it("should break lines at blocks, breaks and list items", () => {
+      expect(htmlToText("<h1>Statement</h1>Opening balance<br>Closing balance<ul><li>Fees</li><li>Interest</li></ul>")).toBe(
+        "Statement\nOpening balance\nClosing balance\n- Fees\n- Interest"
+      );
+    });
+
+    it("should not hide content whose class merely mentions hidden", () => {
+      expect(htmlToText('<div class="a hidden b">Amount due: $12</div><div hidden>Secret</div>')).toBe("Amount due: $12");
+    });
+  });
+
+  describe("decodeEntities", () => {
+    it("should leave unknown entities and bare ampersands alone", () => {
+      expect(decodeEntities("AT&T &bogus; &#0; &euro;5")).toBe("AT&T &bogus; &#0; €5");
+    });
+  });
+
+  describe("looksLikeHtml", () => {
+    it("should tell HTML from plain text", () => {
+      expect(looksLikeHtml("<div>Amount due</div>")).toBe(true);
+      expect(looksLikeHtml("Amount due <$100 on 3/3")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// Tags, comments and declarations, or a run of text
+const TOKEN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?\]\]>|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+
+// Elements whose content is never shown, or is boilerplate
+const SKIPPED = new Set(["head", "title", "style", "script", "noscript", "template", "svg", "iframe", "object", "footer"]);
+
+const VOID = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+
+const BLOCK = new Set([
+  "address", "article", "aside", "blockquote", "caption", "center", "dd", "div", "dl", "dt", "fieldset", "figcaption",
+  "figure", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "main", "nav", "ol", "p", "pre", "section",
+  "table", "tbody", "tfoot", "thead", "tr", "ul",
+]);
+
+// Marks the start of a table cell until the row is joined up
+const CELL = "\u0001";
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ensp: " ", emsp: " ", thinsp: " ",
+  zwnj: "", zwj: "", shy: "", copy: "©", reg: "®", trade: "™", hellip: "…", mdash: "—", ndash: "–",
+  lsquo: "‘", rsquo: "’", sbquo: "‚", ldquo: "“", rdquo: "”", bull: "•", middot: "·", euro: "€", pound: "£",
+  yen: "¥", cent: "¢", dollar: "$", percnt: "%", num: "#", deg: "°", times: "×", divide: "÷", laquo: "«",
+  raquo: "»", eacute: "é", egrave: "è", aacute: "á", agrave: "à", ccedil: "ç", ouml: "ö", uuml: "ü", auml: "ä",
+};
+
+// Characters that take up budget without showing anything, used to pad out preview text
+const INVISIBLE = /[\u00ad\u034f\u200b-\u200d\u2060\ufeff]/g;
+
+// Lines that start the boilerplate at the bottom of a marketing-style email
+const FOOTER =
+  /unsubscribe|you(?:'|’)?re receiving this|you are receiving this|this (?:e-?mail|message) was sent to|manage (?:your )?(?:email |subscription |communication )?preferences|all rights reserved|^(?:©|copyright\b)/i;
+
+const VIEW_ONLINE = /^view (?:this (?:e-?mail|message) )?(?:online|in (?:your |a )?(?:web )?browser)\b/i;
+
+/** Whether a body is HTML rather than plain text, going by its tags */
+export function looksLikeHtml(text: string): boolean {
+  return /<\/?(?:html|head|body|div|p|br|table|tr|td|span|a|img|style)\b[^>]*>/i.test(text);
+}
+
+/**
+ * Render an HTML email body as the text a reader would see: non-content
+ * elements, hidden elements and tracking pixels are dropped, entities are
+ * decoded, each table row becomes one line with its cells joined by " | ",
+ * link URLs follow their text in brackets, and the unsubscribe/copyright
+ * footer is cut off. Whitespace is collapsed and blank lines removed, so
+ * layout tables don't eat into the prompt budget.
+ */
+export function htmlToText(html: string): string {
+  let out = "";
+  let skipping: { tag: string; depth: number } | null = null;
+  let pre = 0;
+  const links: { href: string; start: number }[] = [];
+
+  for (const [token, closing, rawName, attrs] of html.matchAll(TOKEN)) {
+    if (rawName === undefined) {
+      // Comments, doctypes and CDATA say nothing to the reader
+      if (skipping || /^<[!?]/.test(token)) continue;
+      const text = decodeEntities(token).replace(INVISIBLE, "");
+      out += pre > 0 ? text : text.replace(/\s+/g, " ");
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const opening = closing !== "/";
+    if (skipping) {
+      if (name === skipping.tag && !VOID.has(name)) skipping.depth += opening ? 1 : -1;
+      if (skipping.depth === 0) skipping = null;
+      continue;
+    }
+    if (opening && (SKIPPED.has(name) || isHidden(attrs))) {
+      if (!VOID.has(name) && !attrs.trimEnd().endsWith("/")) skipping = { tag: name, depth: 1 };
+      continue;
+    }
+
+    switch (name) {
+      case "br":
+        out += "\n";
+        break;
+      case "img": {
+        const alt = attribute(attrs, "alt");
+        if (alt && !isTrackingPixel(attrs)) out += ` ${alt} `;
+        break;
+      }
+      case "td":
+      case "th":
+        if (opening) out += CELL;
+        break;
+      case "li":
+        if (opening) out += "\n- ";
+        break;
+      case "a":
+        if (opening) {
+          links.push({ href: attribute(attrs, "href") || "", start: out.length });
+        } else {
+          const link = links.pop();
+          const text = link ? out.substring(link.start).trim() : "";
+          // Image-only links are logos and banners; links that show their own URL don't need it twice
+          if (link && text && /^https?:\/\//i.test(link.href) && !text.includes(link.href)) {
+            out += ` (${link.href})`;
+          }
+        }
+        break;
+      default:
+        if (name === "pre") pre = Math.max(0, pre + (opening ? 1 : -1));
+        if (BLOCK.has(name)) out += "\n";
+    }
+  }
+
+  const lines = out
+    .split("\n")
+    .map((line) =>
+      line
+        .split(CELL)
+        .map((cell) => cell.replace(/\s+/g, " ").trim())
+        .filter(Boolean)
+        .join(" | ")
+    )
+    .filter((line) => line && !VIEW_ONLINE.test(line));
+
+  // Only in the bottom half, so a bill that opens with its sender's copyright line loses nothing
+  const footer = lines.findIndex((line, i) => i >= lines.length / 2 && FOOTER.test(line));
+  return (footer === -1 ? lines : lines.slice(0, footer)).join("\n");
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name] ?? ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === "x" || name[1] === "X" ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+function attribute(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i"));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]).trim() : null;
+}
+
+function isHidden(attrs: string): boolean {
+  const style = attribute(attrs, "style") || "";
+  return (
+    /display\s*:\s*none|visibility\s*:\s*hidden|mso-hide\s*:\s*all/i.test(style) ||
+    // The bare attribute, not the word inside a class or other value
+    /(?:^|\s)hidden(?:\s|=|\/|$)/i.test(attrs.replace(/"[^"]*"|'[^']*'/g, '""'))
+  );
+}
+
+// 1x1 (or 0x0) images are there to report that the email was opened
+function isTrackingPixel(attrs: string): boolean {
+  const tiny = (value: string | null) => value !== null && /^[01](?:px)?$/i.test(value.trim());
+  const style = attribute(attrs, "style") || "";
+  return (
+    tiny(attribute(attrs, "width")) ||
+    tiny(attribute(attrs, "height")) ||
+    /(?:^|;)\s*(?:width|height)\s*:\s*[01]px/i.test(style)
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createLLMProvider, resolveOptions } from "./LLMProvider.js";
+
+describe("LLMProvider", () => {
+  describe("resolveOptions", () => {
+    const defaults = { temperature: 0, maxOutputTokens: 1024 };
+
+    it("should fall back to defaults", () => {
+      expect(resolveOptions({}, {}, defaults)).toEqual(defaults);
+    });
+
+    it("should prefer caller hints over defaults", () => {
+      expect(resolveOptions({}, { maxOutputTokens: 256 }, defaults)).toEqual({
+        temperature: 0,
+        maxOutputTokens: 256,
+      });
+    });
+
+    it("should prefer provider config over caller hints", () => {
+      expect(resolveOptions({ maxOutputTokens: 8192 }, { maxOutputTokens: 256 }, defaults)).toEqual({
+        temperature: 0,
+        maxOutputTokens: 8192,
+      });
+    });
+  });
+
+  describe("createLLMProvider", () => {
+    it("should default to Gemini", () => {
+      expect(createLLMProvider({ GOOGLE_API_KEY: "key" }).name).toBe("gemini");
+    });
+
+    it("should build an OpenAI-compatible provider", () => {
+      const provider = createLLMProvider({
+        LLM_PROVIDER: "openai",
+        LLM_BASE_URL: "http://localhost:11434/v1",
+      });
+
+      expect(provider.name).toBe("openai");
+    });
+
+    it("should require a base URL for the openai provider", () => {
+      expect(() => createLLMProvider({ LLM_PROVIDER: "openai" })).toThrow("LLM_BASE_URL");
+    });
+
+    it("should build a fixture provider from a file", () => {
+      const file = join(mkdtempSync(join(tmpdir(), "fixtures-")), "fixtures.json");
+      writeFileSync(file, "{}");
+
+      expect(createLLMProvider({ LLM_PROVIDER: "fixture", LLM_FIXTURES: file }).name).toBe("fixture");
+    });
+
+    it("should reject settings that aren't numbers", () => {
+      expect(() => createLLMProvider({ LLM_TEMPERATURE: "warm" })).toThrow("LLM_TEMPERATURE must be a number");
+      expect(() => createLLMProvider({ LLM_MAX_OUTPUT_TOKENS: "Infinity" })).toThrow("LLM_MAX_OUTPUT_TOKENS");
+    });
+
+    it("should reject unknown providers", () => {
+      expect(() => createLLMProvider({ LLM_PROVIDER: "nope" })).toThrow("Unknown LLM_PROVIDER");
+    });
+  });
+});
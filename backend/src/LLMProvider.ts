@@ -0,0 +1,69 @@
+import { GeminiProvider } from "./GeminiProvider.js";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+import { FixtureProvider } from "./FixtureProvider.js";
+
+/** Per-provider settings. Anything set here overrides the caller's hints. */
+export interface LLMConfig {
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+/** What a caller would like for a single request, e.g. a small token budget */
+export interface GenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Returns the raw text of the completion (empty string if there was none) */
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+export function resolveOptions(
+  config: LLMConfig,
+  options: GenerateOptions,
+  defaults: Required<GenerateOptions>
+): Required<GenerateOptions> {
+  return {
+    temperature: config.temperature ?? options.temperature ?? defaults.temperature,
+    maxOutputTokens: config.maxOutputTokens ?? options.maxOutputTokens ?? defaults.maxOutputTokens,
+  };
+}
+
+/**
+ * Build the provider selected by the environment:
+ * - `LLM_PROVIDER`: gemini (default), openai or fixture
+ * - `LLM_MODEL`, `LLM_TEMPERATURE`, `LLM_MAX_OUTPUT_TOKENS`: per-provider overrides
+ * - `LLM_BASE_URL`, `LLM_API_KEY`: OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+ * - `LLM_FIXTURES`: JSON fixture file for the fixture provider
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const config: LLMConfig = {
+    model: env.LLM_MODEL || undefined,
+    temperature: numberSetting(env, "LLM_TEMPERATURE"),
+    maxOutputTokens: numberSetting(env, "LLM_MAX_OUTPUT_TOKENS"),
+  };
+
+  switch (env.LLM_PROVIDER || "gemini") {
+    case "gemini":
+      return new GeminiProvider(env.GOOGLE_API_KEY!, config);
+    case "openai":
+      if (!env.LLM_BASE_URL) throw new Error("LLM_BASE_URL is required for the openai provider");
+      return new OpenAICompatibleProvider(env.LLM_BASE_URL, env.LLM_API_KEY, config);
+    case "fixture":
+      if (!env.LLM_FIXTURES) throw new Error("LLM_FIXTURES is required for the fixture provider");
+      return FixtureProvider.fromFile(env.LLM_FIXTURES);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${env.LLM_PROVIDER}`);
+  }
+}
+
+function numberSetting(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name];
+  if (!value) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`${name} must be a number: ${value}`);
+  return number;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import { MatchStore } from "./MatchStore.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+import { Match } from "./BillMatcher.js";
+
+describe("MatchStore", () => {
+  let db: FakeFirestore;
+  let store: MatchStore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    store = new MatchStore(db as unknown as Firestore);
+  });
+
+  const tx = { date: "2025-01-20", amount: 150, description: "AGL ENERGY  BPAY" };
+
+  describe("rejections", () => {
+    it("should remember a rejected pair by the transaction's content", async () => {
+      const rejection = await store.reject("user1", "bill-1", "tx-1", tx);
+
+      expect(rejection).toMatchObject({
+        billId: "bill-1",
+        transactionId: "tx-1",
+        transactionKey: "2025-01-20|150.00|agl energy bpay",
+      });
+      expect(await store.listRejected("user1")).toEqual([rejection]);
+    });
+
+    it("should not duplicate a repeat rejection, even from a re-imported copy", async () => {
+      const first = await store.reject("user1", "bill-1", "tx-1", tx);
+      const second = await store.reject("user1", "bill-1", "tx-copy", { ...tx, description: "agl energy bpay" });
+
+      expect(second).toEqual(first);
+      expect(Object.keys(db.dump("users/user1/rejectedMatches"))).toHaveLength(1);
+    });
+
+    it("should forget a rejection", async () => {
+      await store.reject("user1", "bill-1", "tx-1", tx);
+      await store.reject("user1", "bill-2", "tx-1", tx);
+
+      await store.unreject("user1", "bill-1", tx);
+
+      expect((await store.listRejected("user1")).map((r) => r.billId)).toEqual(["bill-2"]);
+    });
+
+    it("should keep users' rejections separate", async () => {
+      await store.reject("user1", "bill-1", "tx-1", tx);
+
+      expect(await store.listRejected("user2")).toEqual([]);
+    });
+  });
+
+  describe("pending reviews", () => {
+    const match = (billId: string, confidence: number, description = "AGL ENERGY BPAY"): Match => ({
+      transactionDate: "2025-01-20",
+      transactionDescription: description,
+      transactionAmount: 150,
+      billId,
+      billCompany: "AGL Energy",
+      billAmount: 150,
+      billDueDate: "2025-01-10",
+      confidence,
+      partial: false,
+      breakdown: {
+        amount: { score: 0.5, reason: "exact amount" },
+        date: { score: 0.15, reason: "paid 10 days after due" },
+        name: { score: 0, reason: "no name words match", alias: null },
+        explanation: "exact amount, paid 10 days after due",
+        rejected: [],
+      },
+    });
+
+    it("should queue a match and list the best first", async () => {
+      await store.addPending("user1", "tx-1", match("bill-1", 55));
+      await store.addPending("user1", "tx-2", match("bill-2", 65, "ORIGIN"));
+
+      const pending = await store.listPending("user1");
+
+      expect(pending.map((p) => [p.billId, p.transactionId, p.confidence])).toEqual([
+        ["bill-2", "tx-2", 65],
+        ["bill-1", "tx-1", 55],
+      ]);
+      expect(pending[1].match.breakdown.explanation).toBe("exact amount, paid 10 days after due");
+    });
+
+    it("should update the same entry when the suggestion comes up again", async () => {
+      const first = await store.addPending("user1", "tx-1", match("bill-1", 55));
+      const again = await store.addPending("user1", "tx-1-copy", match("bill-1", 60));
+
+      expect(again.id).toBe(first.id);
+      expect(again.createdAt).toBe(first.createdAt);
+      expect(await store.listPending("user1")).toEqual([expect.objectContaining({ transactionId: "tx-1-copy", confidence: 60 })]);
+    });
+
+    it("should fetch and remove a single entry", async () => {
+      const { id } = await store.addPending("user1", "tx-1", match("bill-1", 55));
+
+      expect(await store.getPending("user1", id)).toMatchObject({ billId: "bill-1" });
+      await store.removePending("user1", id);
+      expect(await store.getPending("user1", id)).toBeNull();
+    });
+
+    it("should drop every suggestion for a transaction", async () => {
+      await store.addPending("user1", "tx-1", match("bill-1", 55));
+      await store.addPending("user1", "tx-1", match("bill-2", 52));
+      await store.addPending("user1", "tx-2", match("bill-1", 60, "ORIGIN"));
+
+      await store.removePendingFor("user1", "tx-1");
+
+      expect((await store.listPending("user1")).map((p) => p.transactionId)).toEqual(["tx-2"]);
+    });
+
+    it("should take a rejected pair off the queue", async () => {
+      await store.addPending("user1", "tx-1", match("bill-1", 55));
+
+      await store.reject("user1", "bill-1", "tx-1", { date: "2025-01-20", amount: 150, description: "AGL ENERGY BPAY" });
+
+      expect(await store.listPending("user1")).toEqual([]);
+    });
+  });
+});
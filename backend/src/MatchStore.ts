@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import { Firestore } from "@google-cloud/firestore";
+import { Match, RejectedPair, transactionKey } from "./BillMatcher.js";
+import { Transaction } from "./StatementAnalyzer.js";
+
+export interface StoredRejection extends RejectedPair {
+  id: string;
+  /** The transaction document the user rejected the match from */
+  transactionId: string;
+  createdAt: number;
+}
+
+/** A medium-confidence match waiting for the user to accept or reject it */
+export interface PendingMatch {
+  id: string;
+  transactionId: string;
+  billId: string;
+  confidence: number;
+  /** The match as the matcher proposed it, breakdown included */
+  match: Match;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type TransactionFields = Pick<Transaction, "date" | "amount" | "description">;
+
+/**
+ * Matches waiting on the user (`users/{uid}/pendingMatches`) and the ones
+ * they've turned down (`users/{uid}/rejectedMatches`). A rejected
+ * transaction/bill pair is handed to BillMatcher on every run so it's never
+ * suggested again.
+ */
+export class MatchStore {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  static pendingId(billId: string, tx: TransactionFields): string {
+    return `pending_${createHash("sha256").update(`${billId}|${transactionKey(tx)}`).digest("hex").substring(0, 20)}`;
+  }
+
+  static rejectionId(billId: string, tx: TransactionFields): string {
+    return `reject_${createHash("sha256").update(`${billId}|${transactionKey(tx)}`).digest("hex").substring(0, 20)}`;
+  }
+
+  private rejections(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("rejectedMatches");
+  }
+
+  private pending(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("pendingMatches");
+  }
+
+  /**
+   * Queue a match for review. The same suggestion from a re-imported statement
+   * updates the existing entry rather than adding another.
+   */
+  async addPending(uid: string, transactionId: string, match: Match): Promise<PendingMatch> {
+    const id = MatchStore.pendingId(match.billId, {
+      date: match.transactionDate,
+      amount: match.transactionAmount,
+      description: match.transactionDescription,
+    });
+    const ref = this.pending(uid).doc(id);
+    const existing = await ref.get();
+    const now = Date.now();
+    const pending: PendingMatch = {
+      id,
+      transactionId,
+      billId: match.billId,
+      confidence: match.confidence,
+      match,
+      createdAt: existing.exists ? (existing.data() as PendingMatch).createdAt : now,
+      updatedAt: now,
+    };
+    await ref.set(pending);
+    return pending;
+  }
+
+  /** Best suggestions first */
+  async listPending(uid: string): Promise<PendingMatch[]> {
+    const snapshot = await this.pending(uid).orderBy("confidence", "desc").get();
+    return snapshot.docs.map((doc) => doc.data() as PendingMatch);
+  }
+
+  async getPending(uid: string, pendingId: string): Promise<PendingMatch | null> {
+    const snapshot = await this.pending(uid).doc(pendingId).get();
+    return snapshot.exists ? (snapshot.data() as PendingMatch) : null;
+  }
+
+  async removePending(uid: string, pendingId: string): Promise<void> {
+    await this.pending(uid).doc(pendingId).delete();
+  }
+
+  /** Drop every suggestion for a transaction, e.g. once it's been linked by hand */
+  async removePendingFor(uid: string, transactionId: string): Promise<void> {
+    const snapshot = await this.pending(uid).where("transactionId", "==", transactionId).get();
+    await Promise.all(snapshot.docs.map((doc) => doc.ref.delete()));
+  }
+
+  async listRejected(uid: string): Promise<StoredRejection[]> {
+    const snapshot = await this.rejections(uid).get();
+    return snapshot.docs.map((doc) => doc.data() as StoredRejection);
+  }
+
+  /**
+   * Remember that `tx` doesn't pay `billId`, dropping the pair from the review
+   * queue if it's there. Rejecting twice is a no-op.
+   */
+  async reject(uid: string, billId: string, transactionId: string, tx: TransactionFields): Promise<StoredRejection> {
+    await this.removePending(uid, MatchStore.pendingId(billId, tx));
+
+    const rejection: StoredRejection = {
+      id: MatchStore.rejectionId(billId, tx),
+      billId,
+      transactionKey: transactionKey(tx),
+      transactionId,
+      createdAt: Date.now(),
+    };
+    const ref = this.rejections(uid).doc(rejection.id);
+    const existing = await ref.get();
+    if (existing.exists) return existing.data() as StoredRejection;
+
+    await ref.set(rejection);
+    return rejection;
+  }
+
+  /** Forget a rejection, e.g. when the user links the pair by hand after all */
+  async unreject(uid: string, billId: string, tx: TransactionFields): Promise<void> {
+    await this.rejections(uid).doc(MatchStore.rejectionId(billId, tx)).delete();
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import { OAuthState, InvalidStateError } from "./OAuthState.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+describe("OAuthState", () => {
+  let db: FakeFirestore;
+  let oauthState: OAuthState;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    oauthState = new OAuthState(db as unknown as Firestore, "test-secret", 60 * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const expectReason = async (promise: Promise<unknown>, reason: string) => {
+    await expect(promise).rejects.toBeInstanceOf(InvalidStateError);
+    await expect(promise).rejects.toMatchObject({ reason });
+  };
+
+  it("should round-trip the uid", async () => {
+    const state = await oauthState.issue("user1");
+
+    expect(await oauthState.consume(state)).toBe("user1");
+  });
+
+  it("should not expose the raw uid as the whole state", async () => {
+    const state = await oauthState.issue("user1");
+
+    expect(state).not.toBe("user1");
+    expect(state.split(".")).toHaveLength(2);
+  });
+
+  it("should issue a different state each time", async () => {
+    expect(await oauthState.issue("user1")).not.toBe(await oauthState.issue("user1"));
+  });
+
+  it("should reject a replayed state", async () => {
+    const state = await oauthState.issue("user1");
+    await oauthState.consume(state);
+
+    await expectReason(oauthState.consume(state), "replayed");
+  });
+
+  it("should reject an expired state", async () => {
+    vi.useFakeTimers();
+    const state = await oauthState.issue("user1");
+    vi.advanceTimersByTime(61 * 1000);
+
+    await expectReason(oauthState.consume(state), "expired");
+    expect(db.dump("oauth_states")).toEqual({});
+  });
+
+  it("should reject a payload swapped to another uid", async () => {
+    const state = await oauthState.issue("victim");
+    const [, signature] = state.split(".");
+    const claims = JSON.parse(Buffer.from(state.split(".")[0], "base64url").toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, uid: "attacker" })).toString("base64url");
+
+    await expectReason(oauthState.consume(`${forged}.${signature}`), "tampered");
+  });
+
+  it("should reject a state signed with a different secret", async () => {
+    const other = new OAuthState(db as unknown as Firestore, "other-secret");
+    const state = await other.issue("user1");
+
+    await expectReason(oauthState.consume(state), "tampered");
+  });
+
+  it("should reject a bare uid as the state", async () => {
+    await expectReason(oauthState.consume("user1"), "malformed");
+    await expectReason(oauthState.consume(""), "malformed");
+  });
+
+  it("should refuse to sign without a secret", async () => {
+    const unconfigured = new OAuthState(db as unknown as Firestore, "");
+
+    await expect(unconfigured.issue("user1")).rejects.toThrow("OAUTH_STATE_SECRET");
+  });
+});
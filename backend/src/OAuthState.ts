@@ -0,0 +1,93 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Firestore } from "@google-cloud/firestore";
+
+export type InvalidStateReason = "malformed" | "tampered" | "expired" | "replayed";
+
+export class InvalidStateError extends Error {
+  reason: InvalidStateReason;
+
+  constructor(reason: InvalidStateReason) {
+    super(`Invalid OAuth state: ${reason}`);
+    this.name = "InvalidStateError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Signed, single-use, short-lived OAuth `state` values.
+ * The state is `<base64url payload>.<HMAC-SHA256>` where the payload carries
+ * the uid, a random nonce and an expiry. The nonce is also written to
+ * `oauth_states` and deleted on first use, so a state can't be replayed.
+ */
+export class OAuthState {
+  private firestore: Firestore;
+  private secret: string;
+  private ttlMs: number;
+
+  constructor(firestore: Firestore, secret: string, ttlMs: number = 10 * 60 * 1000) {
+    this.firestore = firestore;
+    this.secret = secret;
+    this.ttlMs = ttlMs;
+  }
+
+  async issue(uid: string): Promise<string> {
+    const nonce = randomBytes(16).toString("hex");
+    const exp = Date.now() + this.ttlMs;
+
+    // expireAt lets a Firestore TTL policy clean up states that are never used
+    await this.firestore
+      .collection("oauth_states")
+      .doc(nonce)
+      .set({ uid, expireAt: new Date(exp) });
+
+    const payload = Buffer.from(JSON.stringify({ uid, nonce, exp })).toString("base64url");
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /** Verify and burn a state, returning the uid it was issued for */
+  async consume(state: string): Promise<string> {
+    const [payload, signature, ...rest] = (state || "").split(".");
+    if (!payload || !signature || rest.length > 0) {
+      throw new InvalidStateError("malformed");
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new InvalidStateError("tampered");
+    }
+
+    let claims: { uid: string; nonce: string; exp: number };
+    try {
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    } catch {
+      throw new InvalidStateError("malformed");
+    }
+    if (!claims.uid || !claims.nonce || typeof claims.exp !== "number") {
+      throw new InvalidStateError("malformed");
+    }
+
+    const ref = this.firestore.collection("oauth_states").doc(claims.nonce);
+
+    if (Date.now() > claims.exp) {
+      await ref.delete().catch(() => undefined);
+      throw new InvalidStateError("expired");
+    }
+
+    // Delete only succeeds if the nonce is still there, so only one caller wins
+    try {
+      await ref.delete({ exists: true });
+    } catch {
+      throw new InvalidStateError("replayed");
+    }
+
+    return claims.uid;
+  }
+
+  private sign(payload: string): string {
+    if (!this.secret) {
+      throw new Error("OAUTH_STATE_SECRET is not configured");
+    }
+    return createHmac("sha256", this.secret).update(payload).digest("base64url");
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+
+describe("OpenAICompatibleProvider", () => {
+  // Stands in for a local llama.cpp / Ollama server
+  let server: Server;
+  let baseUrl: string;
+  let requests: { url?: string; headers: IncomingHttpHeaders; body: unknown }[];
+  let reply: { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        res.statusCode = reply.status;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = { status: 200, body: { choices: [{ message: { content: '{"isBill":true}' } }] } };
+  });
+
+  it("should post a chat completion and return the message content", async () => {
+    const provider = new OpenAICompatibleProvider(baseUrl);
+
+    const text = await provider.generate("Extract bill info", { maxOutputTokens: 256 });
+
+    expect(text).toBe('{"isBill":true}');
+    expect(requests[0].url).toBe("/v1/chat/completions");
+    expect(requests[0].body).toEqual({
+      model: "default",
+      messages: [{ role: "user", content: "Extract bill info" }],
+      temperature: 0,
+      max_tokens: 256,
+    });
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it("should send the configured model, temperature, token limit and API key", async () => {
+    const provider = new OpenAICompatibleProvider(`${baseUrl}/`, "sk-test", {
+      model: "llama3.1:8b",
+      temperature: 0.1,
+      maxOutputTokens: 512,
+    });
+
+    await provider.generate("prompt", { maxOutputTokens: 256 });
+
+    expect(requests[0].url).toBe("/v1/chat/completions");
+    expect(requests[0].body).toMatchObject({ model: "llama3.1:8b", temperature: 0.1, max_tokens: 512 });
+    expect(requests[0].headers.authorization).toBe("Bearer sk-test");
+  });
+
+  it("should throw on an error status", async () => {
+    reply = { status: 500, body: { error: "model not loaded" } };
+
+    await expect(new OpenAICompatibleProvider(baseUrl).generate("prompt")).rejects.toThrow(
+      "LLM request failed: 500"
+    );
+  });
+
+  it("should throw on a response that isn't a chat completion", async () => {
+    reply = { status: 200, body: { choices: [{ message: { content: { text: "hi" } } }] } };
+    await expect(new OpenAICompatibleProvider(baseUrl).generate("prompt")).rejects.toThrow("LLM response was malformed");
+
+    reply = { status: 200, body: { choices: "none" } };
+    await expect(new OpenAICompatibleProvider(baseUrl).generate("prompt")).rejects.toThrow("LLM response was malformed");
+  });
+
+  it("should return an empty string when there are no choices", async () => {
+    reply = { status: 200, body: { choices: [] } };
+
+    expect(await new OpenAICompatibleProvider(baseUrl).generate("prompt")).toBe("");
+  });
+});
@@ -0,0 +1,71 @@
+import { GenerateOptions, LLMConfig, LLMProvider, resolveOptions } from "./LLMProvider.js";
+
+/**
+ * Any server speaking the OpenAI chat completions API - OpenAI itself, or a
+ * local llama.cpp (`llama-server`) / Ollama instance for offline runs.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private baseUrl: string;
+  private apiKey: string | undefined;
+  private config: LLMConfig;
+
+  constructor(baseUrl: string, apiKey?: string, config: LLMConfig = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+    this.config = config;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const { temperature, maxOutputTokens } = resolveOptions(this.config, options, {
+      temperature: 0,
+      maxOutputTokens: 1024,
+    });
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        // llama.cpp ignores the model name; Ollama and OpenAI need one
+        model: this.config.model || "default",
+        messages: [{ role: "user", content: prompt }],
+        temperature,
+        max_tokens: maxOutputTokens,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data: unknown = await response.json();
+    if (!isChatCompletion(data)) {
+      throw new Error(`LLM response was malformed: ${JSON.stringify(data).substring(0, 200)}`);
+    }
+    return data.choices?.[0]?.message?.content || "";
+  }
+}
+
+// The part of a chat completion response we read
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+function isChatCompletion(data: unknown): data is ChatCompletion {
+  if (typeof data !== "object" || data === null) return false;
+  const { choices } = data as ChatCompletion;
+  if (choices === undefined) return true;
+  if (!Array.isArray(choices)) return false;
+  if (choices.length === 0) return true;
+
+  const first: unknown = choices[0];
+  if (typeof first !== "object" || first === null) return false;
+  const { message } = first as { message?: unknown };
+  if (message === undefined) return true;
+  if (typeof message !== "object" || message === null) return false;
+  const { content } = message as { content?: unknown };
+  return content === undefined || content === null || typeof content === "string";
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { randomBytes } from "crypto";
+import { Firestore } from "@google-cloud/firestore";
+import { normalizeSender, passwordsFor, PdfPasswordStore } from "./PdfPasswordStore.js";
+import { TokenCipher } from "./TokenCipher.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+const key1 = randomBytes(32).toString("base64");
+const key2 = randomBytes(32).toString("base64");
+
+describe("PdfPasswordStore", () => {
+  let db: FakeFirestore;
+  let store: PdfPasswordStore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    store = new PdfPasswordStore(db as unknown as Firestore, TokenCipher.fromEnv(`v1:${key1}`));
+  });
+
+  it("should list saved senders without their passwords", async () => {
+    await store.save("user1", "statements.anz.com", "01011980");
+    await store.save("user1", "bills@agl.com.au", "1234567");
+
+    const listed = await store.list("user1");
+
+    expect(listed.map((p) => p.sender)).toEqual(["bills@agl.com.au", "statements.anz.com"]);
+    expect(JSON.stringify(listed)).not.toContain("1234567");
+  });
+
+  it("should not store passwords in plaintext", async () => {
+    const saved = await store.save("user1", "bills@agl.com.au", "1234567");
+
+    const raw = db.dump("users/user1/pdfPasswords")[saved.id];
+    expect(JSON.stringify(raw)).not.toContain("1234567");
+    expect(raw.encrypted.key_version).toBe("v1");
+    expect(await store.passwords("user1")).toEqual([{ sender: "bills@agl.com.au", password: "1234567" }]);
+  });
+
+  it("should replace the password for a sender, keeping when it was first saved", async () => {
+    const first = await store.save("user1", "agl.com.au", "old");
+    const second = await store.save("user1", "agl.com.au", "new");
+
+    expect(second.id).toBe(first.id);
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(await store.passwords("user1")).toEqual([{ sender: "agl.com.au", password: "new" }]);
+  });
+
+  it("should not decrypt a password copied to another user", async () => {
+    const saved = await store.save("user1", "agl.com.au", "1234567");
+    const copied = db.dump("users/user1/pdfPasswords")[saved.id];
+    await db.collection("users").doc("user2").collection("pdfPasswords").doc(saved.id).set(copied);
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await store.passwords("user2")).toEqual([]);
+    consoleSpy.mockRestore();
+  });
+
+  it("should delete a password", async () => {
+    const saved = await store.save("user1", "agl.com.au", "1234567");
+
+    expect(await store.delete("user1", saved.id)).toBe(true);
+    expect(await store.delete("user1", saved.id)).toBe(false);
+    expect(await store.list("user1")).toEqual([]);
+  });
+
+  it("should re-wrap every user's passwords from an older key version", async () => {
+    await store.save("user1", "agl.com.au", "1234567");
+    await store.save("user2", "anz.com", "01011980");
+    const rotated = new PdfPasswordStore(
+      db as unknown as Firestore,
+      TokenCipher.fromEnv(`v1:${key1},v2:${key2}`)
+    );
+
+    expect(await rotated.migrate()).toEqual({ rewrapped: 2, unchanged: 0 });
+    expect(await rotated.migrate()).toEqual({ rewrapped: 0, unchanged: 2 });
+
+    // The old key can now be retired
+    const v2Only = new PdfPasswordStore(db as unknown as Firestore, TokenCipher.fromEnv(`v2:${key2}`));
+    expect(await v2Only.passwords("user2")).toEqual([{ sender: "anz.com", password: "01011980" }]);
+  });
+
+  describe("normalizeSender", () => {
+    it("should accept addresses, domains and From headers", () => {
+      expect(normalizeSender("AGL <Bills@AGL.com.au>")).toBe("bills@agl.com.au");
+      expect(normalizeSender(" @ANZ.com ")).toBe("anz.com");
+      expect(normalizeSender("not a sender")).toBeNull();
+      expect(normalizeSender("localhost")).toBeNull();
+    });
+  });
+
+  describe("passwordsFor", () => {
+    const saved = [
+      { sender: "anz.com", password: "domain" },
+      { sender: "statements.anz.com", password: "subdomain" },
+      { sender: "estatements@statements.anz.com", password: "address" },
+      { sender: "agl.com.au", password: "other" },
+      { sender: "notanz.com", password: "lookalike" },
+    ];
+
+    it("should try the address first, then the closest domains", () => {
+      expect(passwordsFor(saved, "ANZ <estatements@statements.anz.com>")).toEqual(["address", "subdomain", "domain"]);
+      expect(passwordsFor(saved, "alerts@anz.com")).toEqual(["domain"]);
+      expect(passwordsFor(saved, "PDF Upload")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { createHash } from "crypto";
+import { Firestore } from "@google-cloud/firestore";
+import { EncryptedFields, TokenCipher } from "./TokenCipher.js";
+
+/** A saved PDF password, as listed back to the user: never the password itself */
+export interface PdfPassword {
+  id: string;
+  /** An email address, or a domain that covers every address at it and its subdomains */
+  sender: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A saved password, decrypted for trying on a PDF */
+export interface SenderPassword {
+  sender: string;
+  password: string;
+}
+
+interface StoredPdfPassword extends PdfPassword {
+  encrypted: EncryptedFields;
+}
+
+/**
+ * Lowercase an address or domain the user typed, taking the address out of a
+ * From header ("AGL <bills@agl.com.au>") and dropping a leading "@".
+ * Returns null for anything that's neither.
+ */
+export function normalizeSender(input: string): string | null {
+  const sender = senderAddress(input).replace(/^@/, "");
+  if (/^[^\s@]+@[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(sender)) return sender;
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(sender) ? sender : null;
+}
+
+/** The address in a From header, lowercased */
+export function senderAddress(from: string): string {
+  const angled = from.match(/<([^>]+)>/);
+  return (angled ? angled[1] : from).trim().toLowerCase();
+}
+
+/**
+ * Passwords to try on a PDF from `from`: ones saved for the exact address
+ * first, then ones saved for its domain or a parent domain, closest first.
+ */
+export function passwordsFor(saved: SenderPassword[], from: string): string[] {
+  const address = senderAddress(from);
+  const domain = address.split("@")[1] || "";
+  const covers = (sender: string) => domain === sender || domain.endsWith(`.${sender}`);
+
+  const exact = saved.filter((s) => s.sender === address);
+  const byDomain = saved
+    .filter((s) => !s.sender.includes("@") && covers(s.sender))
+    .sort((a, b) => b.sender.length - a.sender.length);
+  return [...new Set([...exact, ...byDomain].map((s) => s.password))];
+}
+
+/**
+ * Per-sender PDF passwords in `users/{uid}/pdfPasswords`, one document per
+ * sender. Passwords (often a date of birth or account number) are encrypted
+ * with the same envelope encryption as Gmail tokens, bound to the user and
+ * document so they can't be copied between records.
+ */
+export class PdfPasswordStore {
+  private firestore: Firestore;
+  private cipher: TokenCipher;
+
+  constructor(firestore: Firestore, cipher: TokenCipher) {
+    this.firestore = firestore;
+    this.cipher = cipher;
+  }
+
+  static passwordId(sender: string): string {
+    return `pdfpw_${createHash("sha256").update(sender).digest("hex").substring(0, 20)}`;
+  }
+
+  private collection(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("pdfPasswords");
+  }
+
+  /** Save the password for a sender, replacing any saved before. `sender` must already be normalised. */
+  async save(uid: string, sender: string, password: string): Promise<PdfPassword> {
+    const id = PdfPasswordStore.passwordId(sender);
+    const ref = this.collection(uid).doc(id);
+    const existing = await ref.get();
+    const now = Date.now();
+    const stored: StoredPdfPassword = {
+      id,
+      sender,
+      encrypted: this.cipher.encrypt(`${uid}:${id}`, { password }),
+      createdAt: existing.exists ? (existing.data() as StoredPdfPassword).createdAt : now,
+      updatedAt: now,
+    };
+    await ref.set(stored);
+    return toListed(stored);
+  }
+
+  /** By sender, without the passwords */
+  async list(uid: string): Promise<PdfPassword[]> {
+    const snapshot = await this.collection(uid).get();
+    return snapshot.docs
+      .map((doc) => toListed(doc.data() as StoredPdfPassword))
+      .sort((a, b) => a.sender.localeCompare(b.sender));
+  }
+
+  /** Returns false if there was nothing to delete */
+  async delete(uid: string, passwordId: string): Promise<boolean> {
+    const ref = this.collection(uid).doc(passwordId);
+    if (!(await ref.get()).exists) return false;
+    await ref.delete();
+    return true;
+  }
+
+  /** Every saved password, decrypted. One that no longer decrypts (say its key was retired) is skipped. */
+  async passwords(uid: string): Promise<SenderPassword[]> {
+    const snapshot = await this.collection(uid).get();
+    const passwords: SenderPassword[] = [];
+    for (const doc of snapshot.docs) {
+      const stored = doc.data() as StoredPdfPassword;
+      try {
+        const { password } = this.cipher.decrypt(`${uid}:${stored.id}`, stored.encrypted);
+        passwords.push({ sender: stored.sender, password });
+      } catch (err) {
+        console.error(`Error decrypting PDF password ${stored.id}:`, err);
+      }
+    }
+    return passwords;
+  }
+
+  /** Re-wrap every user's passwords that use an older key version, for key rotation */
+  async migrate(): Promise<{ rewrapped: number; unchanged: number }> {
+    const result = { rewrapped: 0, unchanged: 0 };
+    const snapshot = await this.firestore.collectionGroup("pdfPasswords").get();
+
+    for (const doc of snapshot.docs) {
+      const stored = doc.data() as StoredPdfPassword;
+      if (stored.encrypted.key_version === this.cipher.activeKeyVersion) {
+        result.unchanged++;
+        continue;
+      }
+      // users/{uid}/pdfPasswords/{id}
+      const uid = doc.ref.path.split("/")[1];
+      await doc.ref.update({ encrypted: this.cipher.rewrap(`${uid}:${stored.id}`, stored.encrypted) });
+      result.rewrapped++;
+    }
+
+    return result;
+  }
+}
+
+function toListed({ id, sender, createdAt, updatedAt }: StoredPdfPassword): PdfPassword {
+  return { id, sender, createdAt, updatedAt };
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { billerId, detectCadence, expectedBills, groupBillers } from "./RecurringBills.js";
+
+describe("RecurringBills", () => {
+  const bill = (id: string, company: string | null, amount: number | null, dueDate: string | null) => ({
+    id,
+    isBill: true,
+    company,
+    amount,
+    dueDate,
+    emailDate: "2025-01-01T09:00:00.000Z",
+    billType: "electricity" as const,
+  });
+
+  describe("detectCadence", () => {
+    it.each([
+      [["2025-01-15", "2025-02-14", "2025-03-15"], "monthly"],
+      [["2025-01-10", "2025-04-10", "2025-07-11"], "quarterly"],
+      [["2023-06-01", "2024-06-01", "2025-06-02"], "annual"],
+      [["2025-01-01", "2025-01-15", "2025-02-01"], "irregular"],
+    ])("should classify %j as %s", (dates, cadence) => {
+      expect(detectCadence(dates).cadence).toBe(cadence);
+    });
+
+    it("should need at least two distinct dates", () => {
+      expect(detectCadence(["2025-01-15"])).toEqual({ cadence: "irregular", intervalDays: null });
+      expect(detectCadence(["2025-01-15", "2025-01-15"])).toEqual({ cadence: "irregular", intervalDays: null });
+    });
+
+    it("should shrug off one odd gap", () => {
+      expect(detectCadence(["2025-01-15", "2025-02-15", "2025-03-15", "2025-05-15", "2025-06-15"])).toEqual({
+        cadence: "monthly",
+        intervalDays: 31,
+      });
+    });
+  });
+
+  describe("groupBillers", () => {
+    const today = new Date("2025-04-20T00:00:00Z");
+
+    it("should group bills by normalised company name", () => {
+      const billers = groupBillers(
+        [
+          bill("b2", "AGL Energy Pty Ltd", 160, "2025-02-15"),
+          bill("b1", "AGL ENERGY", 150, "2025-01-15"),
+          bill("n1", "Netflix", 22.99, "2025-01-03"),
+        ],
+        today
+      );
+
+      expect(billers.map((b) => [b.name, b.billIds])).toEqual([
+        ["AGL Energy Pty Ltd", ["b1", "b2"]],
+        ["Netflix", ["n1"]],
+      ]);
+      expect(billers[0].id).toBe(billerId("agl energy"));
+    });
+
+    it("should predict the next bill's date and amount range", () => {
+      const [agl] = groupBillers(
+        [
+          bill("b1", "AGL Energy", 150, "2025-01-31"),
+          bill("b2", "AGL Energy", 170, "2025-02-28"),
+          bill("b3", "AGL Energy", 160, "2025-03-31"),
+        ],
+        today
+      );
+
+      expect(agl).toMatchObject({ cadence: "monthly", lastDate: "2025-03-31" });
+      expect(agl.nextExpected).toEqual({
+        billerId: agl.id,
+        company: "AGL Energy",
+        billType: "electricity",
+        cadence: "monthly",
+        expectedDate: "2025-04-30",
+        amountLow: 150,
+        amountHigh: 170,
+        amountTypical: 160,
+        status: "expected",
+      });
+    });
+
+    it("should flag a bill that hasn't shown up after the grace period", () => {
+      const [agl] = groupBillers(
+        [bill("b1", "AGL Energy", 150, "2025-02-01"), bill("b2", "AGL Energy", 150, "2025-03-01")],
+        today
+      );
+
+      expect(agl.nextExpected).toMatchObject({ expectedDate: "2025-04-01", status: "missing" });
+    });
+
+    it("should stop predicting once a whole cycle more has passed", () => {
+      const [agl] = groupBillers(
+        [bill("b1", "AGL Energy", 150, "2025-01-01"), bill("b2", "AGL Energy", 150, "2025-02-01")],
+        today
+      );
+
+      expect(agl.nextExpected).toBeNull();
+    });
+
+    it("should fall back to the email date and skip non-bills and unnamed bills", () => {
+      const billers = groupBillers(
+        [
+          { ...bill("q1", "Origin", 300, null), emailDate: "Tue, 14 Jan 2025 10:00:00 +0000" },
+          { ...bill("q2", "Origin", 320, null), emailDate: "Mon, 14 Apr 2025 10:00:00 +0000" },
+          { ...bill("x", "Promo Co", 10, "2025-01-01"), isBill: false },
+          bill("y", null, 10, "2025-01-01"),
+        ],
+        today
+      );
+
+      expect(billers).toHaveLength(1);
+      expect(billers[0]).toMatchObject({ cadence: "quarterly", lastDate: "2025-04-14" });
+      expect(billers[0].nextExpected?.expectedDate).toBe("2025-07-14");
+    });
+
+    it("should split a company into billers by account number", () => {
+      const billers = groupBillers(
+        [
+          { ...bill("h1", "AGL", 150, "2025-01-15"), accountNumber: "1111 2222" },
+          { ...bill("h2", "AGL", 155, "2025-02-15"), accountNumber: "11112222" },
+          { ...bill("r1", "AGL", 80, "2025-01-20"), accountNumber: "3333 4444" },
+          bill("u1", "AGL", 90, "2025-01-25"),
+        ],
+        today
+      );
+
+      expect(billers.map((b) => [b.billIds, b.accountNumber])).toEqual([
+        [["h1", "u1", "h2"], "11112222"],
+        [["r1"], "3333 4444"],
+      ]);
+      expect(billers[0].id).toBe(billerId("agl"));
+      expect(billers[1].id).toBe(billerId("agl|33334444"));
+    });
+
+    it("should keep the first account's biller when a second account turns up", () => {
+      const older = [
+        { ...bill("h1", "AGL", 150, "2025-01-15"), accountNumber: "1111 2222" },
+        { ...bill("h2", "AGL", 155, "2025-02-15"), accountNumber: "1111 2222" },
+      ];
+      const before = groupBillers(older, today);
+      const after = groupBillers([...older, { ...bill("r1", "AGL", 80, "2025-03-01"), accountNumber: "3333 4444" }], today);
+
+      expect(after.find((b) => b.billIds.includes("h1"))?.id).toBe(before[0].id);
+      expect(after).toHaveLength(2);
+    });
+
+    it("should not merge accounts that only share their last digits", () => {
+      const billers = groupBillers(
+        [
+          { ...bill("h1", "AGL", 150, "2025-01-15"), accountNumber: "1111 2222" },
+          { ...bill("r1", "AGL", 80, "2025-01-20"), accountNumber: "9999 2222" },
+        ],
+        today
+      );
+
+      expect(billers.map((b) => b.billIds)).toEqual([["h1"], ["r1"]]);
+    });
+
+    it("should keep one account's bills together when only some show the number", () => {
+      const billers = groupBillers(
+        [bill("b1", "AGL", 150, "2025-01-15"), { ...bill("b2", "AGL", 160, "2025-02-15"), accountNumber: "1111 2222" }],
+        today
+      );
+
+      expect(billers).toHaveLength(1);
+      expect(billers[0]).toMatchObject({ id: billerId("agl"), billIds: ["b1", "b2"], accountNumber: "1111 2222" });
+    });
+  });
+
+  describe("expectedBills", () => {
+    it("should list predictions soonest first", () => {
+      const billers = groupBillers(
+        [
+          bill("a1", "AGL Energy", 150, "2025-03-20"),
+          bill("a2", "AGL Energy", 150, "2025-04-20"),
+          bill("n1", "Netflix", 22.99, "2025-03-03"),
+          bill("n2", "Netflix", 22.99, "2025-04-03"),
+          bill("o1", "Once Off", 99, "2025-04-01"),
+        ],
+        new Date("2025-04-20T00:00:00Z")
+      );
+
+      expect(expectedBills(billers).map((e) => [e.company, e.expectedDate])).toEqual([
+        ["Netflix", "2025-05-03"],
+        ["AGL Energy", "2025-05-20"],
+      ]);
+    });
+  });
+});
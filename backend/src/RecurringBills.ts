@@ -0,0 +1,217 @@
+import { createHash } from "crypto";
+import { BillType } from "./BillExtraction.js";
+import { StoredBill } from "./BillStore.js";
+import { normalizeDescription } from "./AliasStore.js";
+
+export type Cadence = "monthly" | "quarterly" | "annual" | "irregular";
+
+/** The next bill a biller is expected to send */
+export interface ExpectedBill {
+  billerId: string;
+  company: string;
+  billType: BillType | null;
+  cadence: Exclude<Cadence, "irregular">;
+  expectedDate: string;
+  /** Range of recent amounts, and their median */
+  amountLow: number | null;
+  amountHigh: number | null;
+  amountTypical: number | null;
+  /** missing: the grace period after expectedDate has passed with no bill */
+  status: "expected" | "missing";
+}
+
+/** All the bills from one account with one biller, e.g. "my AGL electricity account" */
+export interface Biller {
+  id: string;
+  /** Company name as it appears on the most recent bill */
+  name: string;
+  billType: BillType | null;
+  /** Account number from the most recent bill that shows one */
+  accountNumber: string | null;
+  /** Oldest first */
+  billIds: string[];
+  cadence: Cadence;
+  /** Median days between bills, null with only one bill */
+  intervalDays: number | null;
+  lastDate: string | null;
+  nextExpected: ExpectedBill | null;
+}
+
+type GroupableBill = Pick<
+  StoredBill,
+  "id" | "isBill" | "company" | "amount" | "dueDate" | "emailDate" | "billType" | "accountNumber"
+>;
+
+// Median interval bands for each cadence, in days
+const CADENCES: { cadence: Exclude<Cadence, "irregular">; min: number; max: number; months: number; graceDays: number }[] = [
+  { cadence: "monthly", min: 25, max: 35, months: 1, graceDays: 7 },
+  { cadence: "quarterly", min: 80, max: 100, months: 3, graceDays: 14 },
+  { cadence: "annual", min: 350, max: 380, months: 12, graceDays: 30 },
+];
+
+// How many recent bills the amount range is taken from
+const AMOUNT_HISTORY = 6;
+
+/** Bills with the same normalised company name belong to the same biller */
+export function billerKey(bill: Pick<StoredBill, "company">): string | null {
+  const name = normalizeDescription(bill.company || "");
+  return name || null;
+}
+
+/** The whole account number, so "1111 2222" and "11112222" agree but "9999 2222" doesn't */
+function accountKey(account?: string | null): string {
+  if (!account) return "";
+  const digits = account.replace(/\D/g, "");
+  return digits || account.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Biller key for each bill, by bill id. Bills go by company name, except that
+ * a company the user has more than one account with (two properties with the
+ * same energy retailer) is split by account number. The account seen first
+ * keeps the plain company key, along with bills that don't show an account
+ * number, so a second account turning up doesn't change the biller of bills
+ * (and alerts) that already exist.
+ */
+export function assignBillers(
+  bills: Pick<StoredBill, "id" | "company" | "accountNumber" | "dueDate" | "emailDate">[]
+): Map<string, string> {
+  const firstAccounts = new Map<string, { account: string; date: string }>();
+  for (const bill of bills) {
+    const key = billerKey(bill);
+    const account = accountKey(bill.accountNumber);
+    if (!key || !account) continue;
+    // Undated bills sort last; ties go to the lower account so the choice doesn't depend on order
+    const date = billDate(bill) || "9999-12-31";
+    const first = firstAccounts.get(key);
+    if (!first || date < first.date || (date === first.date && account < first.account)) {
+      firstAccounts.set(key, { account, date });
+    }
+  }
+
+  const keys = new Map<string, string>();
+  for (const bill of bills) {
+    const key = billerKey(bill);
+    if (!key) continue;
+    const account = accountKey(bill.accountNumber);
+    keys.set(bill.id, account && account !== firstAccounts.get(key)?.account ? `${key}|${account}` : key);
+  }
+  return keys;
+}
+
+export function billerId(key: string): string {
+  return `biller_${createHash("sha256").update(key).digest("hex").substring(0, 20)}`;
+}
+
+/** Classify the median gap between bills; one bill isn't enough to tell */
+export function detectCadence(dates: string[]): { cadence: Cadence; intervalDays: number | null } {
+  const sorted = [...dates].sort();
+  const intervals: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const days = daysBetween(sorted[i - 1], sorted[i]);
+    if (days > 0) intervals.push(days);
+  }
+  if (intervals.length === 0) return { cadence: "irregular", intervalDays: null };
+
+  const intervalDays = median(intervals);
+  const match = CADENCES.find((c) => intervalDays >= c.min && intervalDays <= c.max);
+  return { cadence: match?.cadence ?? "irregular", intervalDays };
+}
+
+/**
+ * Group bills into billers, work out how often each one bills and predict
+ * its next bill. A prediction is flagged missing once its grace period
+ * (a week for monthly bills, longer for rarer ones) has passed, and dropped
+ * once a whole further cycle has gone by - the account was probably closed.
+ */
+export function groupBillers(bills: GroupableBill[], today: Date = new Date()): Biller[] {
+  const keys = assignBillers(bills.filter((b) => b.isBill));
+  const groups = new Map<string, { bill: GroupableBill; date: string | null }[]>();
+  for (const bill of bills) {
+    const key = keys.get(bill.id);
+    if (!key) continue;
+    const entries = groups.get(key) || [];
+    entries.push({ bill, date: billDate(bill) });
+    groups.set(key, entries);
+  }
+
+  const todayIso = today.toISOString().substring(0, 10);
+  const billers: Biller[] = [];
+  for (const [key, entries] of groups) {
+    entries.sort((a, b) => (a.date || "").localeCompare(b.date || ""));
+    const dates = entries.map((e) => e.date).filter((d): d is string => d !== null);
+    const { cadence, intervalDays } = detectCadence(dates);
+    const latest = entries[entries.length - 1].bill;
+    const lastDate = dates.length > 0 ? dates[dates.length - 1] : null;
+
+    const biller: Biller = {
+      id: billerId(key),
+      name: latest.company!,
+      billType: latest.billType,
+      accountNumber: entries.map((e) => e.bill.accountNumber).filter(Boolean).at(-1) ?? null,
+      billIds: entries.map((e) => e.bill.id),
+      cadence,
+      intervalDays,
+      lastDate,
+      nextExpected: null,
+    };
+
+    const rule = CADENCES.find((c) => c.cadence === cadence);
+    const stale = rule && lastDate && addMonths(lastDate, rule.months * 2) < todayIso;
+    if (rule && lastDate && !stale) {
+      const amounts = entries
+        .map((e) => e.bill.amount)
+        .filter((a): a is number => a !== null)
+        .slice(-AMOUNT_HISTORY);
+      const expectedDate = addMonths(lastDate, rule.months);
+      biller.nextExpected = {
+        billerId: biller.id,
+        company: biller.name,
+        billType: biller.billType,
+        cadence: rule.cadence,
+        expectedDate,
+        amountLow: amounts.length > 0 ? Math.min(...amounts) : null,
+        amountHigh: amounts.length > 0 ? Math.max(...amounts) : null,
+        amountTypical: amounts.length > 0 ? median(amounts) : null,
+        status: daysBetween(expectedDate, todayIso) > rule.graceDays ? "missing" : "expected",
+      };
+    }
+    billers.push(biller);
+  }
+
+  return billers.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Upcoming and missing bills across all billers, soonest first */
+export function expectedBills(billers: Biller[]): ExpectedBill[] {
+  return billers
+    .map((b) => b.nextExpected)
+    .filter((e): e is ExpectedBill => e !== null)
+    .sort((a, b) => a.expectedDate.localeCompare(b.expectedDate));
+}
+
+/** A bill's place in time: its due date, or when the email arrived if there isn't one */
+export function billDate(bill: Pick<StoredBill, "dueDate" | "emailDate">): string | null {
+  if (bill.dueDate) return bill.dueDate;
+  const received = new Date(bill.emailDate);
+  return isNaN(received.getTime()) ? null : received.toISOString().substring(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// Same day of the month, clamped to the month's length (31 Jan + 1 month = 28 Feb)
+function addMonths(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().substring(0, 10);
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : Math.round(((sorted[mid - 1] + sorted[mid]) / 2) * 100) / 100;
+}
@@ -14,6 +14,7 @@ vi.mock("@google/genai", () => ({
 
 // Must import after vi.mock
 import { StatementAnalyzer, Transaction } from "./StatementAnalyzer.js";
+import { FixtureProvider } from "./FixtureProvider.js";
 
 const setGenAIResponse = (response: string) => {
   mockGenerateContent.mockResolvedValue({ text: response });
@@ -54,6 +55,8 @@ describe("StatementAnalyzer", () => {
         description: "GROCERY STORE",
         amount: 50.0,
         type: "debit",
+        page: null,
+        chunk: 0,
       });
     });
 
@@ -163,6 +166,124 @@ describe("StatementAnalyzer", () => {
     });
   });
 
+  describe("long statements", () => {
+    const pdfPage = (page: number, total: number, rows: string[]) =>
+      `${rows.join("\n")}\n-- ${page} of ${total} --\n`;
+
+    const createStatement = (pdfText: string) =>
+      new Email({
+        id: "stmt",
+        subject: "Your statement",
+        from: "statements@bank.com",
+        date: "2025-02-01",
+        body: "",
+        pdfText,
+      });
+
+    it("should read past the old 5000 character limit", async () => {
+      const rows = Array.from({ length: 200 }, (_, i) => `2025-01-${String((i % 28) + 1).padStart(2, "0")} SHOP ${i} ${i + 1}.00`);
+      const pdfText = [0, 1, 2, 3].map((p) => pdfPage(p + 1, 4, rows.slice(p * 50, p * 50 + 50))).join("");
+      const generate = vi.fn().mockResolvedValue("[]");
+
+      await new StatementAnalyzer({ name: "stub", generate }, { maxChars: 2000 }).analyze(createStatement(pdfText));
+
+      const prompts = generate.mock.calls.map((c) => c[0] as string).join("\n");
+      expect(pdfText.length).toBeGreaterThan(5000);
+      expect(generate.mock.calls.length).toBeGreaterThan(1);
+      expect(prompts).toContain("SHOP 0 1.00");
+      expect(prompts).toContain("SHOP 199 200.00");
+      expect(prompts).toContain("[Page 4]");
+    });
+
+    it("should record page and chunk and drop duplicates from the overlap", async () => {
+      const pdfText =
+        pdfPage(1, 2, ["2025-01-03 RENT 1500.00", "2025-01-05 AGL ENERGY 210.55"]) +
+        pdfPage(2, 2, ["2025-01-09 NETFLIX 22.99"]);
+      const generate = vi
+        .fn()
+        .mockResolvedValueOnce(
+          JSON.stringify([
+            { date: "2025-01-03", description: "RENT", amount: 1500, type: "debit", page: 1 },
+            { date: "2025-01-05", description: "AGL ENERGY", amount: 210.55, type: "debit", page: 1 },
+          ])
+        )
+        .mockResolvedValueOnce(
+          JSON.stringify([
+            // Seen again because it's in the overlap
+            { date: "2025-01-05", description: "AGL Energy", amount: 210.55, type: "debit", page: 1 },
+            { date: "2025-01-09", description: "NETFLIX", amount: 22.99, type: "debit", page: 2 },
+          ])
+        );
+
+      const transactions = await new StatementAnalyzer(
+        { name: "stub", generate },
+        { maxChars: 70, overlapChars: 35 }
+      ).analyze(createStatement(pdfText));
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(transactions).toEqual([
+        { date: "2025-01-03", description: "RENT", amount: 1500, type: "debit", page: 1, chunk: 0 },
+        { date: "2025-01-05", description: "AGL ENERGY", amount: 210.55, type: "debit", page: 1, chunk: 0 },
+        { date: "2025-01-09", description: "NETFLIX", amount: 22.99, type: "debit", page: 2, chunk: 1 },
+      ]);
+    });
+
+    it("should keep going when one chunk fails", async () => {
+      const pdfText = pdfPage(1, 2, ["2025-01-03 RENT 1500.00"]) + pdfPage(2, 2, ["2025-01-09 NETFLIX 22.99"]);
+      const generate = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Rate limited"))
+        .mockResolvedValueOnce(
+          JSON.stringify([{ date: "2025-01-09", description: "NETFLIX", amount: 22.99, type: "debit", page: 2 }])
+        );
+
+      const transactions = await new StatementAnalyzer(
+        { name: "stub", generate },
+        { maxChars: 40, overlapChars: 0 }
+      ).analyze(createStatement(pdfText));
+
+      expect(transactions).toEqual([
+        { date: "2025-01-09", description: "NETFLIX", amount: 22.99, type: "debit", page: 2, chunk: 1 },
+      ]);
+    });
+
+    it("should not call the model for an empty email", async () => {
+      const generate = vi.fn();
+
+      expect(await new StatementAnalyzer({ name: "stub", generate }).analyze(createStatement(""))).toEqual([]);
+      expect(generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("with an injected provider", () => {
+    it("should run against fixtures without calling Gemini", async () => {
+      const fixtures = new FixtureProvider();
+      const offline = new StatementAnalyzer(fixtures);
+      const email = createTestEmail("WOOLWORTHS 50.00");
+
+      // Record the prompt once, then replay a canned response for it
+      await offline.analyze(email);
+      fixtures.add(
+        fixtures.prompts[0],
+        JSON.stringify([{ date: "2025-01-10", description: "WOOLWORTHS", amount: 50, type: "debit" }])
+      );
+
+      const transactions = await offline.analyze(email);
+
+      expect(transactions).toEqual([
+        { date: "2025-01-10", description: "WOOLWORTHS", amount: 50, type: "debit", page: null, chunk: 0 },
+      ]);
+      expect(mockGenerateContent).not.toHaveBeenCalled();
+    });
+
+    it("should ask for a large token budget", async () => {
+      const generate = vi.fn().mockResolvedValue("[]");
+      await new StatementAnalyzer({ name: "stub", generate }).analyze(createTestEmail());
+
+      expect(generate).toHaveBeenCalledWith(expect.any(String), { maxOutputTokens: 4096 });
+    });
+  });
+
   describe("analyzeBatch", () => {
     it("should process emails and return results with email reference", async () => {
       const emails = [
@@ -1,50 +1,85 @@
-import { GoogleGenAI } from "@google/genai";
 import { Email } from "./Email.js";
+import { LLMProvider } from "./LLMProvider.js";
+import { GeminiProvider } from "./GeminiProvider.js";
+import {
+  ChunkOptions,
+  PageText,
+  StatementChunk,
+  chunkPages,
+  mergeChunkResults,
+  splitPages,
+} from "./StatementChunker.js";
 
 export interface Transaction {
   date: string;
   description: string;
   amount: number;
   type: "debit" | "credit";
+  /** PDF page the transaction was printed on (null for the email body or unknown) */
+  page?: number | null;
+  /** Index of the statement chunk it was extracted from */
+  chunk?: number;
+  /** Account number as given by the statement or upload, when known */
+  account?: string;
 }
 
 export class StatementAnalyzer {
-  private genAI: GoogleGenAI;
+  private llm: LLMProvider;
+  private chunkOptions: ChunkOptions;
 
-  constructor() {
-    this.genAI = new GoogleGenAI({ apiKey: process.env.GOOGLE_API_KEY! });
+  constructor(llm: LLMProvider = new GeminiProvider(), chunkOptions: ChunkOptions = {}) {
+    this.llm = llm;
+    this.chunkOptions = chunkOptions;
   }
 
+  /**
+   * Long statements are split into overlapping, page-aware chunks that are
+   * analyzed one at a time, then merged with boundary duplicates removed.
+   */
   async analyze(email: Email): Promise<Transaction[]> {
+    const pages: PageText[] = [];
+    if (email.textBody.trim()) pages.push({ page: null, text: email.textBody });
+    pages.push(...splitPages(email.pdfText));
+
+    const chunks = chunkPages(pages, this.chunkOptions);
+    const results: (Transaction & { chunk: number })[][] = [];
+    for (const chunk of chunks) {
+      results.push(await this.analyzeChunk(email, chunk, chunks.length));
+    }
+
+    return mergeChunkResults(chunks, results);
+  }
+
+  private async analyzeChunk(
+    email: Email,
+    chunk: StatementChunk,
+    totalChunks: number
+  ): Promise<(Transaction & { chunk: number })[]> {
+    const part =
+      totalChunks > 1
+        ? `\nThis is part ${chunk.index + 1} of ${totalChunks} of the statement. It may start or end mid-table.\n`
+        : "";
     const prompt = `Extract all transactions from this bank statement email. Return ONLY valid JSON array (no markdown).
 
 From: ${email.from}
 Subject: ${email.subject}
-Date: ${email.date}
-Content: ${email.fullContent}
+Date: ${email.date}${part}
+Content: ${chunk.text}
 
 Return an array of transactions. Each transaction should have:
 {
   "date": "YYYY-MM-DD",
   "description": "merchant/payee name",
   "amount": number (positive value),
-  "type": "debit" or "credit"
+  "type": "debit" or "credit",
+  "page": number from the nearest [Page N] marker above it, or null
 }
 
 If this is not a bank statement or contains no transactions, return an empty array [].
 Only include actual transactions, not headers or totals.`;
 
     try {
-      const response = await this.genAI.models.generateContent({
-        model: "gemini-2.5-flash-lite",
-        contents: prompt,
-        config: {
-          temperature: 0,
-          maxOutputTokens: 4096,
-        },
-      });
-
-      const content = response.text;
+      const content = await this.llm.generate(prompt, { maxOutputTokens: 4096 });
       if (!content) {
         return [];
       }
@@ -54,14 +89,23 @@ Only include actual transactions, not headers or totals.`;
       if (jsonMatch) {
         const transactions = JSON.parse(jsonMatch[0]) as Transaction[];
         // Validate and filter transactions
-        return transactions.filter(
-          (tx) =>
-            tx.date &&
-            tx.description &&
-            typeof tx.amount === "number" &&
-            tx.amount > 0 &&
-            (tx.type === "debit" || tx.type === "credit")
-        );
+        return transactions
+          .filter(
+            (tx) =>
+              tx.date &&
+              tx.description &&
+              typeof tx.amount === "number" &&
+              tx.amount > 0 &&
+              (tx.type === "debit" || tx.type === "credit")
+          )
+          .map((tx) => ({
+            date: tx.date,
+            description: tx.description,
+            amount: tx.amount,
+            type: tx.type,
+            page: resolvePage(tx.page, chunk),
+            chunk: chunk.index,
+          }));
       }
       return [];
     } catch (error) {
@@ -90,3 +134,10 @@ Only include actual transactions, not headers or totals.`;
     return results;
   }
 }
+
+// Trust the model's page only if it's one of the pages in this chunk
+function resolvePage(page: unknown, chunk: StatementChunk): number | null {
+  const pdfPages = chunk.pages.filter((p): p is number => p !== null);
+  if (typeof page === "number" && pdfPages.includes(page)) return page;
+  return chunk.pages.length === 1 ? chunk.pages[0] : null;
+}
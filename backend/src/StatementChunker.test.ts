@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { splitPages, chunkPages, mergeChunkResults, StatementChunk, ChunkTransaction } from "./StatementChunker.js";
+
+describe("StatementChunker", () => {
+  describe("splitPages", () => {
+    it("should split on pdf-parse page markers", () => {
+      const pages = splitPages("first page\n\n-- 1 of 2 --\n\nsecond page\n\n-- 2 of 2 --\n");
+
+      expect(pages).toEqual([
+        { page: 1, text: "first page" },
+        { page: 2, text: "second page" },
+      ]);
+    });
+
+    it("should treat text without markers as page 1", () => {
+      expect(splitPages("just some text")).toEqual([{ page: 1, text: "just some text" }]);
+    });
+
+    it("should skip blank pages", () => {
+      expect(splitPages("-- 1 of 2 --\nback page\n-- 2 of 2 --")).toEqual([{ page: 2, text: "back page" }]);
+    });
+  });
+
+  describe("chunkPages", () => {
+    const rows = (page: number, count: number) =>
+      Array.from({ length: count }, (_, i) => `2025-01-${String(i + 1).padStart(2, "0")} P${page} ROW ${i} 10.00`).join("\n");
+
+    it("should return a single chunk for short text", () => {
+      const chunks = chunkPages([{ page: null, text: "Hello" }, { page: 1, text: "Row" }]);
+
+      expect(chunks).toEqual([
+        { index: 0, text: "[Email body]\nHello\n[Page 1]\nRow", pages: [null, 1], overlap: "" },
+      ]);
+    });
+
+    it("should keep every chunk within maxChars", () => {
+      const chunks = chunkPages(
+        [1, 2, 3].map((page) => ({ page, text: rows(page, 30) })),
+        { maxChars: 500, overlapChars: 100 }
+      );
+
+      expect(chunks.length).toBeGreaterThan(3);
+      for (const chunk of chunks) {
+        expect(chunk.text.length).toBeLessThanOrEqual(500);
+      }
+    });
+
+    it("should include every line at least once", () => {
+      const pages = [1, 2].map((page) => ({ page, text: rows(page, 20) }));
+      const text = chunkPages(pages, { maxChars: 300, overlapChars: 60 })
+        .map((c) => c.text)
+        .join("\n");
+
+      for (const { text: pageText } of pages) {
+        for (const line of pageText.split("\n")) {
+          expect(text).toContain(line);
+        }
+      }
+    });
+
+    it("should start each later chunk with the end of the previous one", () => {
+      const chunks = chunkPages([{ page: 1, text: rows(1, 20) }], { maxChars: 300, overlapChars: 60 });
+
+      for (let i = 1; i < chunks.length; i++) {
+        const lastLine = chunks[i - 1].text.split("\n").pop()!;
+        expect(chunks[i].overlap).toContain(lastLine);
+        expect(chunks[i].text.startsWith(chunks[i].overlap)).toBe(true);
+      }
+    });
+
+    it("should label the page an overlap came from", () => {
+      const chunks = chunkPages(
+        [1, 2].map((page) => ({ page, text: rows(page, 10) })),
+        { maxChars: 300, overlapChars: 60 }
+      );
+
+      for (const chunk of chunks) {
+        expect(chunk.text).toMatch(/^\[Page \d+\]\n/);
+      }
+    });
+
+    it("should list the pages each chunk covers", () => {
+      const chunks = chunkPages(
+        [1, 2].map((page) => ({ page, text: rows(page, 10) })),
+        { maxChars: 280, overlapChars: 0 }
+      );
+
+      expect(chunks.map((c) => c.pages)).toEqual([[1], [2]]);
+    });
+
+    it("should split a single line longer than maxChars", () => {
+      const chunks = chunkPages([{ page: 1, text: "x".repeat(1000) }], { maxChars: 300, overlapChars: 0 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.map((c) => c.text.replace(/\[Page 1\]\n?/g, "").replace(/\n/g, "")).join("")).toBe(
+        "x".repeat(1000)
+      );
+    });
+
+    it("should return no chunks for no pages", () => {
+      expect(chunkPages([])).toEqual([]);
+    });
+  });
+
+  describe("mergeChunkResults", () => {
+    const chunk = (index: number, overlap: string): StatementChunk => ({ index, text: "", pages: [1], overlap });
+    const tx = (description: string, amount: number, chunk: number, date = "2025-01-05"): ChunkTransaction => ({
+      date,
+      description,
+      amount,
+      type: "debit",
+      chunk,
+    });
+
+    it("should drop a transaction repeated from the overlap", () => {
+      const merged = mergeChunkResults(
+        [chunk(0, ""), chunk(1, "2025-01-05 AGL ENERGY 210.55")],
+        [[tx("AGL ENERGY", 210.55, 0)], [tx("agl  energy", 210.55, 1), tx("NETFLIX", 22.99, 1)]]
+      );
+
+      expect(merged).toEqual([tx("AGL ENERGY", 210.55, 0), tx("NETFLIX", 22.99, 1)]);
+    });
+
+    it("should keep a genuine repeat that isn't in the overlap", () => {
+      const merged = mergeChunkResults(
+        [chunk(0, ""), chunk(1, "2025-01-06 SOMETHING ELSE 5.00")],
+        [[tx("COFFEE", 4.5, 0)], [tx("COFFEE", 4.5, 1)]]
+      );
+
+      expect(merged).toHaveLength(2);
+    });
+
+    it("should only drop as many repeats as the previous chunk had", () => {
+      const merged = mergeChunkResults(
+        [chunk(0, ""), chunk(1, "2025-01-05 COFFEE 4.50\n2025-01-05 COFFEE 4.50")],
+        [[tx("COFFEE", 4.5, 0)], [tx("COFFEE", 4.5, 1), tx("COFFEE", 4.5, 1)]]
+      );
+
+      expect(merged).toEqual([tx("COFFEE", 4.5, 0), tx("COFFEE", 4.5, 1)]);
+    });
+
+    it("should match amounts written with thousands separators", () => {
+      const merged = mergeChunkResults(
+        [chunk(0, ""), chunk(1, "2025-01-03 RENT 1,500.00")],
+        [[tx("RENT", 1500, 0, "2025-01-03")], [tx("RENT", 1500, 1, "2025-01-03")]]
+      );
+
+      expect(merged).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+export interface PageText {
+  /** 1-based PDF page number, or null for text that isn't from a PDF page (e.g. the email body) */
+  page: number | null;
+  text: string;
+}
+
+export interface StatementChunk {
+  index: number;
+  /** Chunk text with a `[Page N]` marker wherever a new page starts */
+  text: string;
+  pages: (number | null)[];
+  /** Leading text repeated from the previous chunk (empty for the first chunk) */
+  overlap: string;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+// pdf-parse ends each page with "-- N of M --" by default
+const PAGE_MARKER = /^-- (\d+) of \d+ --$/;
+
+interface Line {
+  page: number | null;
+  text: string;
+}
+
+const marker = (page: number | null): Line => ({
+  page,
+  text: page === null ? "[Email body]" : `[Page ${page}]`,
+});
+const isMarker = (line: Line) => /^\[(Page \d+|Email body)\]$/.test(line.text);
+
+/**
+ * Split text produced by pdf-parse into pages using its page markers.
+ * Text without markers comes back as a single page 1.
+ */
+export function splitPages(pdfText: string): PageText[] {
+  const pages: PageText[] = [];
+  let current: string[] = [];
+
+  for (const line of pdfText.split("\n")) {
+    const marker = line.trim().match(PAGE_MARKER);
+    if (marker) {
+      pages.push({ page: Number(marker[1]), text: current.join("\n").trim() });
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+
+  const rest = current.join("\n").trim();
+  if (rest) {
+    // Trailing text after the last marker, or a document without markers
+    const lastPage = pages.length > 0 ? pages[pages.length - 1].page : 0;
+    pages.push({ page: (lastPage ?? 0) + 1, text: rest });
+  }
+
+  return pages.filter((p) => p.text.length > 0);
+}
+
+/**
+ * Pack pages into chunks of at most `maxChars`, keeping whole lines together.
+ * Each chunk after the first starts with the last ~`overlapChars` of the
+ * previous one, so a transaction split across a boundary is seen whole at
+ * least once. Overlap duplicates are removed again by mergeChunkResults.
+ */
+export function chunkPages(pages: PageText[], options: ChunkOptions = {}): StatementChunk[] {
+  const maxChars = options.maxChars ?? 6000;
+  const overlapChars = Math.min(options.overlapChars ?? 500, Math.floor(maxChars / 2));
+
+  // Flatten into lines tagged with their page, marking page starts
+  const lines: Line[] = [];
+  for (const { page, text } of pages) {
+    lines.push(marker(page));
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      // A single enormous line still has to fit somewhere
+      for (let i = 0; i < line.length; i += maxChars - overlapChars) {
+        lines.push({ page, text: line.substring(i, i + maxChars - overlapChars) });
+      }
+    }
+  }
+
+  const chunks: StatementChunk[] = [];
+  let body: Line[] = [];
+  let overlap: Line[] = [];
+  const size = (ls: Line[]) => ls.reduce((n, l) => n + l.text.length + 1, 0);
+
+  const flush = () => {
+    // A page marker at the very end belongs with the page's first line in the next chunk
+    const trailing: Line[] = [];
+    while (body.length > 0 && isMarker(body[body.length - 1])) trailing.unshift(body.pop()!);
+    if (body.length === 0) {
+      body = trailing;
+      return;
+    }
+    const all = [...overlap, ...body];
+    chunks.push({
+      index: chunks.length,
+      text: all.map((l) => l.text).join("\n"),
+      pages: [...new Set(all.map((l) => l.page))],
+      overlap: overlap.map((l) => l.text).join("\n"),
+    });
+
+    // Carry the tail of this chunk into the next one
+    const tail: Line[] = [];
+    for (let i = all.length - 1; i >= 0 && size(tail) + all[i].text.length < overlapChars; i--) {
+      tail.unshift(all[i]);
+    }
+    // Make sure the next chunk knows which page the overlap came from
+    if (tail.length > 0 && !isMarker(tail[0])) tail.unshift(marker(tail[0].page));
+    overlap = tail;
+    body = trailing;
+  };
+
+  for (const line of lines) {
+    if (size(overlap) + size(body) + line.text.length + 1 > maxChars) flush();
+    body.push(line);
+  }
+  flush();
+
+  return chunks;
+}
+
+export interface ChunkTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  type: "debit" | "credit";
+  chunk: number;
+}
+
+/**
+ * Concatenate per-chunk results, dropping transactions that were only seen
+ * twice because they sit in the overlap between two neighbouring chunks.
+ * A transaction from chunk N+1 counts as a boundary duplicate when chunk N has
+ * an unclaimed transaction with the same date, amount, type and description
+ * and its amount actually appears in the overlap text.
+ */
+export function mergeChunkResults<T extends ChunkTransaction>(
+  chunks: StatementChunk[],
+  results: T[][]
+): T[] {
+  const merged: T[] = [];
+  const key = (tx: T) =>
+    [tx.date, tx.amount.toFixed(2), tx.type, tx.description.toLowerCase().replace(/\s+/g, " ").trim()].join("|");
+
+  for (let i = 0; i < results.length; i++) {
+    if (i === 0 || !chunks[i]?.overlap) {
+      merged.push(...results[i]);
+      continue;
+    }
+
+    const overlapText = chunks[i].overlap.replace(/,/g, "");
+    const unclaimed = new Map<string, number>();
+    for (const tx of results[i - 1]) {
+      unclaimed.set(key(tx), (unclaimed.get(key(tx)) || 0) + 1);
+    }
+
+    for (const tx of results[i]) {
+      const k = key(tx);
+      const inOverlap =
+        overlapText.includes(tx.amount.toFixed(2)) || overlapText.includes(String(tx.amount));
+      if (inOverlap && (unclaimed.get(k) || 0) > 0) {
+        unclaimed.set(k, unclaimed.get(k)! - 1);
+        continue;
+      }
+      merged.push(tx);
+    }
+  }
+
+  return merged;
+}
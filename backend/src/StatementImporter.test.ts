@@ -0,0 +1,246 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectStatementFormat,
+  importStatement,
+  parseAmount,
+  parseCsv,
+  parseCsvStatement,
+  parseDate,
+  parseOfxStatement,
+  parseQifStatement,
+  StatementImportError,
+  validateCsvMapping,
+} from "./StatementImporter.js";
+
+describe("StatementImporter", () => {
+  describe("detectStatementFormat", () => {
+    it("should use the file extension", () => {
+      const data = Buffer.from("");
+      expect(detectStatementFormat("Statement.PDF", data)).toBe("pdf");
+      expect(detectStatementFormat("export.csv", data)).toBe("csv");
+      expect(detectStatementFormat("export.qfx", data)).toBe("ofx");
+      expect(detectStatementFormat("export.qif", data)).toBe("qif");
+    });
+
+    it("should sniff the content when the extension is unknown", () => {
+      expect(detectStatementFormat("download", Buffer.from("%PDF-1.7"))).toBe("pdf");
+      expect(detectStatementFormat("download", Buffer.from("OFXHEADER:100\nDATA:OFXSGML"))).toBe("ofx");
+      expect(detectStatementFormat("download", Buffer.from("!Type:Bank\nD01/02/2025"))).toBe("qif");
+      expect(detectStatementFormat("photo.jpg", Buffer.from("\xff\xd8\xff"))).toBeNull();
+    });
+  });
+
+  describe("CSV", () => {
+    it("should parse quoted fields, escaped quotes and CRLF", () => {
+      expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+        ["a", "b, c", 'say "hi"'],
+        ["1", "2", "3"],
+      ]);
+    });
+
+    it("should detect semicolon-separated files", () => {
+      expect(parseCsv("Date;Amount\n01/02/2025;-5,00")).toEqual([
+        ["Date", "Amount"],
+        ["01/02/2025", "-5,00"],
+      ]);
+    });
+
+    it("should read a headerless CommBank export", () => {
+      const csv = [
+        '15/01/2025,"-150.00","AGL ENERGY DIRECT DEBIT","+1,200.00"',
+        '16/01/2025,"+2,500.00","SALARY ACME PTY LTD","+3,700.00"',
+      ].join("\n");
+
+      expect(parseCsvStatement(csv)).toEqual([
+        { date: "2025-01-15", description: "AGL ENERGY DIRECT DEBIT", amount: 150, type: "debit" },
+        { date: "2025-01-16", description: "SALARY ACME PTY LTD", amount: 2500, type: "credit" },
+      ]);
+    });
+
+    it("should recognise a Westpac export by its header", () => {
+      const csv = [
+        "Bank Account,Date,Narrative,Debit Amount,Credit Amount,Balance,Categories,Serial",
+        "032000123456,20/01/2025,TELSTRA BPAY,89.00,,1000.00,OTHER,",
+        "032000123456,21/01/2025,REFUND,,12.50,1012.50,OTHER,",
+      ].join("\n");
+
+      expect(parseCsvStatement(csv)).toEqual([
+        { date: "2025-01-20", description: "TELSTRA BPAY", amount: 89, type: "debit" },
+        { date: "2025-01-21", description: "REFUND", amount: 12.5, type: "credit" },
+      ]);
+    });
+
+    it("should use the named bank's mapping", () => {
+      const csv = ["Date,Description,Credit,Debit,Balance", "03/02/2025,NETFLIX.COM,,-22.99,100.00"].join("\n");
+
+      expect(parseCsvStatement(csv, { bank: "ING" })).toEqual([
+        { date: "2025-02-03", description: "NETFLIX.COM", amount: 22.99, type: "debit" },
+      ]);
+    });
+
+    it("should use an explicit column mapping", () => {
+      const csv = ["Posted,Payee,Value", "02/03/2025,SPOTIFY,11.99"].join("\n");
+
+      const transactions = parseCsvStatement(csv, {
+        mapping: { hasHeader: true, date: "Posted", description: "Payee", amount: "Value", dateOrder: "MDY", invertSign: true },
+      });
+
+      expect(transactions).toEqual([{ date: "2025-02-03", description: "SPOTIFY", amount: 11.99, type: "debit" }]);
+    });
+
+    it("should guess columns from common header names", () => {
+      const csv = ["Transaction Date,Details,Money Out,Money In", "05/02/2025,ORIGIN ENERGY,210.55,"].join("\n");
+
+      expect(parseCsvStatement(csv)).toEqual([
+        { date: "2025-02-05", description: "ORIGIN ENERGY", amount: 210.55, type: "debit" },
+      ]);
+    });
+
+    it("should skip balance and blank rows", () => {
+      const csv = [
+        "Date,Amount,Description",
+        "01/02/2025,,OPENING BALANCE",
+        "",
+        "02/02/2025,-10.00,COFFEE",
+        "Total,,",
+      ].join("\n");
+
+      expect(parseCsvStatement(csv)).toEqual([{ date: "2025-02-02", description: "COFFEE", amount: 10, type: "debit" }]);
+    });
+
+    it("should reject a CSV it can't make sense of", () => {
+      expect(() => parseCsvStatement("foo,bar\n1,2")).toThrow(StatementImportError);
+      expect(() => parseCsvStatement("a,b\n1,2", { bank: "nosuchbank" })).toThrow(/Unknown bank/);
+      expect(() =>
+        parseCsvStatement("Date,Amount\n01/01/2025,5", { mapping: { hasHeader: true, date: "Date", description: "Memo", amount: "Amount" } })
+      ).toThrow(/no "Memo" column/);
+    });
+  });
+
+  describe("validateCsvMapping", () => {
+    it("should accept names or indexes and infer the header", () => {
+      expect(validateCsvMapping({ date: 0, description: 2, amount: 1 })).toMatchObject({ hasHeader: false });
+      expect(validateCsvMapping({ date: "Date", description: "Memo", amount: "Amt" })).toMatchObject({ hasHeader: true });
+    });
+
+    it("should reject malformed mappings", () => {
+      expect(() => validateCsvMapping("date")).toThrow(StatementImportError);
+      expect(() => validateCsvMapping({ date: "Date" })).toThrow(/description/);
+      expect(() => validateCsvMapping({ date: -1, description: 1 })).toThrow(/date/);
+      expect(() => validateCsvMapping({ date: 0, description: 1, dateOrder: "DDMM" })).toThrow(/dateOrder/);
+    });
+  });
+
+  describe("OFX", () => {
+    it("should read SGML OFX 1.x with unclosed elements", () => {
+      const ofx = `OFXHEADER:100
+DATA:OFXSGML
+CHARSET:1252
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250115120000[+10:AEST]
+<TRNAMT>-150.00
+<FITID>0001
+<NAME>AGL ENERGY
+<MEMO>Direct debit
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250116
+<TRNAMT>2500.00
+<FITID>0002
+<NAME>SALARY &amp; WAGES
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+      expect(parseOfxStatement(ofx)).toEqual([
+        { date: "2025-01-15", description: "AGL ENERGY", amount: 150, type: "debit" },
+        { date: "2025-01-16", description: "SALARY & WAGES", amount: 2500, type: "credit" },
+      ]);
+    });
+
+    it("should read XML OFX 2.x", () => {
+      const ofx = `<?xml version="1.0"?><?OFX OFXHEADER="200"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CCACCTFROM><ACCTID>4564123412341234</ACCTID></CCACCTFROM><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20250201</DTPOSTED><TRNAMT>-22.99</TRNAMT><FITID>9</FITID><MEMO>NETFLIX</MEMO></STMTTRN>
+</BANKTRANLIST></CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+      expect(parseOfxStatement(ofx)).toEqual([
+        { date: "2025-02-01", description: "NETFLIX", amount: 22.99, type: "debit", account: "4564123412341234" },
+      ]);
+    });
+
+    it("should reject files that aren't OFX", () => {
+      expect(() => parseOfxStatement("hello")).toThrow(StatementImportError);
+    });
+  });
+
+  describe("QIF", () => {
+    it("should read bank records", () => {
+      const qif = ["!Type:Bank", "D15/01/2025", "T-150.00", "PAGL ENERGY", "^", "D16/01'25", "T2,500.00", "MSalary", "^"].join("\n");
+
+      expect(parseQifStatement(qif)).toEqual([
+        { date: "2025-01-15", description: "AGL ENERGY", amount: 150, type: "debit" },
+        { date: "2025-01-16", description: "Salary", amount: 2500, type: "credit" },
+      ]);
+    });
+
+    it("should honour the date order and skip non-transaction sections", () => {
+      const qif = ["!Type:Cat", "NUtilities", "^", "!Type:CCard", "D2/3/2025", "T-11.99", "PSPOTIFY", "^"].join("\n");
+
+      expect(parseQifStatement(qif, "MDY")).toEqual([
+        { date: "2025-02-03", description: "SPOTIFY", amount: 11.99, type: "debit" },
+      ]);
+    });
+  });
+
+  describe("importStatement", () => {
+    it("should strip a UTF-8 byte order mark", () => {
+      const data = Buffer.from("\uFEFFDate,Amount,Description\n01/02/2025,-5.00,TEA", "utf8");
+
+      expect(importStatement("csv", data)).toEqual([{ date: "2025-02-01", description: "TEA", amount: 5, type: "debit" }]);
+    });
+  });
+
+  describe("parseAmount", () => {
+    it.each([
+      ["-1,234.50", -1234.5],
+      ["$50.00", 50],
+      ["(50.00)", -50],
+      ["50.00 DR", -50],
+      ["50.00CR", 50],
+      ["+12", 12],
+      ["-50,00", -50],
+      ["1.234,50", 1234.5],
+      ["AUD -9.95", -9.95],
+      ["", null],
+      ["n/a", null],
+    ])("should parse %j", (input, expected) => {
+      expect(parseAmount(input)).toBe(expected);
+    });
+  });
+
+  describe("parseDate", () => {
+    it.each([
+      ["15/01/2025", "DMY", "2025-01-15"],
+      ["01/15/2025", "DMY", "2025-01-15"],
+      ["01/02/2025", "MDY", "2025-01-02"],
+      ["2025-01-15", "DMY", "2025-01-15"],
+      ["20250115", "DMY", "2025-01-15"],
+      ["15/01/25", "DMY", "2025-01-15"],
+      ["15 Jan 2025", "DMY", "2025-01-15"],
+      ["15-Jan-25", "DMY", "2025-01-15"],
+      ["31/02/2025", "DMY", null],
+      ["Total", "DMY", null],
+    ] as const)("should parse %s (%s)", (input, order, expected) => {
+      expect(parseDate(input, order)).toBe(expected);
+    });
+  });
+});
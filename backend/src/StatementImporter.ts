@@ -0,0 +1,454 @@
+import { isoDate, monthNumber } from "./BillExtraction.js";
+import { Transaction } from "./StatementAnalyzer.js";
+
+export const STATEMENT_FORMATS = ["pdf", "csv", "ofx", "qif"] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+const EXTENSIONS: Record<string, StatementFormat> = {
+  pdf: "pdf",
+  csv: "csv",
+  ofx: "ofx",
+  qfx: "ofx", // Quicken's OFX
+  qif: "qif",
+};
+
+export class StatementImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementImportError";
+  }
+}
+
+/** Order of day, month and year in slash/dash dates, e.g. "DMY" for 15/01/2025 */
+export type DateOrder = "DMY" | "MDY" | "YMD";
+
+/** A CSV column, by header name (case-insensitive) or 0-based index */
+export type CsvColumn = string | number;
+
+export interface CsvMapping {
+  hasHeader: boolean;
+  date: CsvColumn;
+  description: CsvColumn;
+  /** Signed amount column - negative is money out unless `invertSign` */
+  amount?: CsvColumn;
+  /** Separate money out / money in columns, used instead of `amount` */
+  debit?: CsvColumn;
+  credit?: CsvColumn;
+  dateOrder?: DateOrder;
+  /** For banks that export money out as positive amounts */
+  invertSign?: boolean;
+}
+
+/** Column layouts of the CSV exports of banks we've seen */
+export const CSV_MAPPINGS: Record<string, CsvMapping> = {
+  commbank: { hasHeader: false, date: 0, amount: 1, description: 2 },
+  anz: { hasHeader: false, date: 0, amount: 1, description: 2 },
+  westpac: {
+    hasHeader: true,
+    date: "Date",
+    description: "Narrative",
+    debit: "Debit Amount",
+    credit: "Credit Amount",
+  },
+  nab: { hasHeader: true, date: "Date", amount: "Amount", description: "Transaction Details" },
+  ing: { hasHeader: true, date: "Date", description: "Description", debit: "Debit", credit: "Credit" },
+};
+
+export interface ImportOptions {
+  /** Key of CSV_MAPPINGS */
+  bank?: string;
+  /** Explicit CSV column mapping, takes precedence over `bank` */
+  mapping?: CsvMapping;
+  /** Date order for QIF files, which don't say (default DMY) */
+  dateOrder?: DateOrder;
+}
+
+/**
+ * Work out the statement format from the file extension, falling back to
+ * sniffing the content for files without a recognisable name.
+ */
+export function detectStatementFormat(filename: string, data: Buffer): StatementFormat | null {
+  const extension = filename.toLowerCase().split(".").pop() || "";
+  if (EXTENSIONS[extension]) return EXTENSIONS[extension];
+
+  const head = data.subarray(0, 1024).toString("latin1");
+  if (head.startsWith("%PDF-")) return "pdf";
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  if (/^\s*!Type:/i.test(head)) return "qif";
+  return null;
+}
+
+/**
+ * Parse a structured statement export into transactions. Deterministic - no
+ * LLM involved. Throws StatementImportError if the file can't be read.
+ */
+export function importStatement(
+  format: Exclude<StatementFormat, "pdf">,
+  data: Buffer,
+  options: ImportOptions = {}
+): Transaction[] {
+  switch (format) {
+    case "csv":
+      return parseCsvStatement(decode(data), options);
+    case "ofx":
+      return parseOfxStatement(decode(data));
+    case "qif":
+      return parseQifStatement(decode(data), options.dateOrder);
+  }
+}
+
+function decode(data: Buffer): string {
+  const head = data.subarray(0, 512).toString("latin1");
+  // OFX 1.x usually declares a Windows code page
+  const text = /CHARSET:\s*(1252|ISO-8859-1)/i.test(head) ? data.toString("latin1") : data.toString("utf8");
+  return text.replace(/^\uFEFF/, "");
+}
+
+// ------------------------------------------------------------------
+// CSV
+// ------------------------------------------------------------------
+
+export function parseCsvStatement(text: string, options: ImportOptions = {}): Transaction[] {
+  const rows = parseCsv(text).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const mapping = options.mapping
+    ? validateCsvMapping(options.mapping)
+    : options.bank
+      ? bankMapping(options.bank)
+      : guessCsvMapping(rows);
+
+  const header = mapping.hasHeader ? rows[0].map((h) => h.trim().toLowerCase()) : [];
+  const column = (col: CsvColumn | undefined): number => {
+    if (col === undefined) return -1;
+    if (typeof col === "number") return col;
+    const index = header.indexOf(col.trim().toLowerCase());
+    if (index === -1) throw new StatementImportError(`CSV has no "${col}" column`);
+    return index;
+  };
+
+  const dateCol = column(mapping.date);
+  const descriptionCol = column(mapping.description);
+  const amountCol = column(mapping.amount);
+  const debitCol = column(mapping.debit);
+  const creditCol = column(mapping.credit);
+  if (amountCol === -1 && debitCol === -1 && creditCol === -1) {
+    throw new StatementImportError("CSV mapping needs an amount column or debit/credit columns");
+  }
+
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const transactions: Transaction[] = [];
+  for (const row of dataRows) {
+    const date = parseDate(row[dateCol], mapping.dateOrder || "DMY");
+    const description = cleanDescription(row[descriptionCol]);
+
+    let signed: number | null;
+    if (amountCol !== -1) {
+      signed = parseAmount(row[amountCol]);
+      if (signed !== null && mapping.invertSign) signed = -signed;
+    } else {
+      // Some banks put a minus sign in the debit column too
+      const debit = parseAmount(row[debitCol]);
+      const credit = parseAmount(row[creditCol]);
+      signed = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    }
+
+    // Skip opening/closing balance lines and anything else that isn't a transaction
+    if (!date || !description || !signed) continue;
+    transactions.push(toTransaction(date, description, signed));
+  }
+
+  if (transactions.length === 0 && dataRows.length > 0) {
+    throw new StatementImportError("No transactions could be read from the CSV - check the column mapping");
+  }
+  return transactions;
+}
+
+function bankMapping(bank: string): CsvMapping {
+  const mapping = CSV_MAPPINGS[bank.toLowerCase()];
+  if (!mapping) {
+    throw new StatementImportError(
+      `Unknown bank "${bank}", expected one of ${Object.keys(CSV_MAPPINGS).join(", ")}`
+    );
+  }
+  return mapping;
+}
+
+const HEADER_NAMES = {
+  date: ["date", "transaction date", "posted date", "posting date", "value date"],
+  description: ["description", "narrative", "transaction details", "details", "payee", "merchant", "memo"],
+  amount: ["amount", "transaction amount", "value"],
+  debit: ["debit", "debit amount", "withdrawal", "withdrawals", "money out", "paid out"],
+  credit: ["credit", "credit amount", "deposit", "deposits", "money in", "paid in"],
+};
+
+/**
+ * Pick a mapping for a CSV nobody told us about: a known bank layout if the
+ * header matches one, the common headerless date/amount/description layout,
+ * or otherwise whatever columns have recognisable header names.
+ */
+export function guessCsvMapping(rows: string[][]): CsvMapping {
+  const first = rows[0].map((cell) => cell.trim().toLowerCase());
+
+  for (const mapping of Object.values(CSV_MAPPINGS)) {
+    if (!mapping.hasHeader) continue;
+    const columns = [mapping.date, mapping.description, mapping.amount, mapping.debit, mapping.credit];
+    if (columns.every((col) => col === undefined || first.includes(String(col).toLowerCase()))) {
+      return mapping;
+    }
+  }
+
+  if (parseDate(first[0], "DMY") && parseAmount(first[1]) !== null) {
+    return CSV_MAPPINGS.commbank;
+  }
+
+  const find = (names: string[]) => {
+    const index = first.findIndex((h) => names.includes(h));
+    return index === -1 ? undefined : index;
+  };
+  const mapping: CsvMapping = {
+    hasHeader: true,
+    date: find(HEADER_NAMES.date) ?? -1,
+    description: find(HEADER_NAMES.description) ?? -1,
+    amount: find(HEADER_NAMES.amount),
+    debit: find(HEADER_NAMES.debit),
+    credit: find(HEADER_NAMES.credit),
+  };
+  if (mapping.date === -1 || mapping.description === -1 || (mapping.amount ?? mapping.debit ?? mapping.credit) === undefined) {
+    throw new StatementImportError("Couldn't work out the CSV columns - choose a bank or send a column mapping");
+  }
+  return mapping;
+}
+
+/** Check a user-supplied mapping (e.g. JSON from the upload form) */
+export function validateCsvMapping(raw: unknown): CsvMapping {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new StatementImportError("CSV mapping must be an object");
+  }
+  const input = raw as Record<string, unknown>;
+  const isColumn = (value: unknown) =>
+    (typeof value === "string" && value.trim() !== "") || (Number.isInteger(value) && (value as number) >= 0);
+
+  for (const field of ["date", "description"]) {
+    if (!isColumn(input[field])) throw new StatementImportError(`CSV mapping needs a "${field}" column`);
+  }
+  for (const field of ["amount", "debit", "credit"]) {
+    if (input[field] !== undefined && !isColumn(input[field])) {
+      throw new StatementImportError(`CSV mapping "${field}" must be a column name or index`);
+    }
+  }
+  if (input.dateOrder !== undefined && !["DMY", "MDY", "YMD"].includes(input.dateOrder as string)) {
+    throw new StatementImportError('CSV mapping "dateOrder" must be DMY, MDY or YMD');
+  }
+
+  const hasNames = ["date", "description", "amount", "debit", "credit"].some((f) => typeof input[f] === "string");
+  return {
+    hasHeader: typeof input.hasHeader === "boolean" ? input.hasHeader : hasNames,
+    date: input.date as CsvColumn,
+    description: input.description as CsvColumn,
+    amount: input.amount as CsvColumn | undefined,
+    debit: input.debit as CsvColumn | undefined,
+    credit: input.credit as CsvColumn | undefined,
+    dateOrder: input.dateOrder as DateOrder | undefined,
+    invertSign: input.invertSign === true,
+  };
+}
+
+/** RFC 4180 CSV, plus semicolon- and tab-separated exports */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ------------------------------------------------------------------
+// OFX / QFX
+// ------------------------------------------------------------------
+
+/**
+ * OFX 1.x is SGML with unclosed leaf elements (`<TRNAMT>-50.00`), 2.x is XML.
+ * Reading each leaf up to the next tag or newline handles both.
+ */
+export function parseOfxStatement(text: string): Transaction[] {
+  if (!/<OFX>/i.test(text)) throw new StatementImportError("Not an OFX file");
+
+  const accountId = text.match(/<ACCTID>([^<\r\n]+)/i)?.[1].trim();
+  const transactions: Transaction[] = [];
+  for (const block of text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || []) {
+    const field = (tag: string) => {
+      const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+      return m ? decodeEntities(m[1].trim()) : "";
+    };
+
+    const posted = field("DTPOSTED").match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = posted ? parseDate(`${posted[1]}-${posted[2]}-${posted[3]}`, "YMD") : null;
+    const amount = parseAmount(field("TRNAMT"));
+    const description = cleanDescription(field("NAME") || field("MEMO") || field("PAYEE"));
+
+    if (!date || !description || !amount) continue;
+    transactions.push({ ...toTransaction(date, description, amount), ...(accountId && { account: accountId }) });
+  }
+  return transactions;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// ------------------------------------------------------------------
+// QIF
+// ------------------------------------------------------------------
+
+/**
+ * QIF records are lines tagged by their first character (D date, T amount,
+ * P payee, M memo) and end with "^". Investment and category lists are skipped.
+ */
+export function parseQifStatement(text: string, dateOrder: DateOrder = "DMY"): Transaction[] {
+  const transactions: Transaction[] = [];
+  let section = "bank";
+  let record: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("!")) {
+      const type = line.match(/^!Type:(\w+)/i);
+      section = type ? type[1].toLowerCase() : "other";
+      record = {};
+      continue;
+    }
+
+    if (line === "^") {
+      if (["bank", "ccard", "cash", "oth a", "oth l"].includes(section)) {
+        const date = parseDate(record.D?.replace(/\s/g, "").replace("'", "/"), dateOrder);
+        const amount = parseAmount(record.T ?? record.U);
+        const description = cleanDescription(record.P || record.M);
+        if (date && description && amount) transactions.push(toTransaction(date, description, amount));
+      }
+      record = {};
+      continue;
+    }
+
+    // Split lines (S/E/$) repeat per category; keep the first of each
+    const code = line[0];
+    if (record[code] === undefined) record[code] = line.substring(1).trim();
+  }
+
+  return transactions;
+}
+
+// ------------------------------------------------------------------
+// Shared
+// ------------------------------------------------------------------
+
+function toTransaction(date: string, description: string, signed: number): Transaction {
+  return {
+    date,
+    description,
+    amount: Math.round(Math.abs(signed) * 100) / 100,
+    type: signed < 0 ? "debit" : "credit",
+  };
+}
+
+function cleanDescription(value: string | undefined): string {
+  return (value || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Signed amount from a bank export: "-1,234.50", "$50.00", "(50.00)",
+ * "50.00 DR", "+12.00". Returns null for anything else.
+ */
+export function parseAmount(value: string | undefined): number | null {
+  if (!value) return null;
+  let text = value.trim().replace(/[$£€\s]/g, "").replace(/^[A-Z]{3}(?=[-+(\d])/, "");
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  const suffix = text.match(/(DR|CR)$/i);
+  if (suffix) {
+    negative = suffix[1].toUpperCase() === "DR";
+    text = text.slice(0, -2);
+  }
+  // Decimal comma, e.g. "1.234,50" or "-50,00"
+  if (/^[-+]?\d{1,3}(\.\d{3})*,\d{1,2}$/.test(text)) text = text.replace(/\./g, "").replace(",", ".");
+  if (!/^[-+]?[\d,]*\.?\d+$/.test(text)) return null;
+
+  const amount = Number(text.replace(/,/g, ""));
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * ISO date from a bank export date. Numeric dates are read in `order`,
+ * falling back to the other day/month order when that can't be a real date
+ * (e.g. 25/01/2025 in an MDY file). Two-digit years are 20xx.
+ */
+export function parseDate(value: string | undefined, order: DateOrder): string | null {
+  if (!value) return null;
+  const text = value.trim();
+  let m: RegExpMatchArray | null;
+
+  if ((m = text.match(/^(\d{4})-?(\d{2})-?(\d{2})(?:[T\s].*)?$/))) {
+    return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+  }
+  if ((m = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/))) {
+    const [a, b, c] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    if (m[1].length === 4) return isoDate(a, b, c);
+    const year = c < 100 ? 2000 + c : c;
+    return order === "MDY"
+      ? isoDate(year, a, b) ?? isoDate(year, b, a)
+      : isoDate(year, b, a) ?? isoDate(year, a, b);
+  }
+  if ((m = text.match(/^(\d{1,2})[\s-]([a-z]{3})[a-z]*\.?[\s,-]+(\d{2,4})$/i))) {
+    const year = Number(m[3]) < 100 ? 2000 + Number(m[3]) : Number(m[3]);
+    return isoDate(year, monthNumber(m[2]), Number(m[1]));
+  }
+  return null;
+}
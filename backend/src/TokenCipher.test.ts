@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { randomBytes } from "crypto";
+import { TokenCipher } from "./TokenCipher.js";
+
+const key1 = randomBytes(32).toString("base64");
+const key2 = randomBytes(32).toString("base64");
+
+describe("TokenCipher", () => {
+  describe("fromEnv", () => {
+    it("should use the last key as the active version", () => {
+      expect(TokenCipher.fromEnv(`v1:${key1},v2:${key2}`).activeKeyVersion).toBe("v2");
+    });
+
+    it("should reject keys that are not 32 bytes", () => {
+      expect(() => TokenCipher.fromEnv("v1:c2hvcnQ=")).toThrow("32 bytes");
+    });
+
+    it("should reject malformed entries", () => {
+      expect(() => TokenCipher.fromEnv(key1)).toThrow("<version>:<base64 key>");
+    });
+
+    it("should only fail on use when no keys are configured", () => {
+      const cipher = TokenCipher.fromEnv("");
+
+      expect(cipher.activeKeyVersion).toBeNull();
+      expect(() => cipher.encrypt("uid", { a: "b" })).toThrow("TOKEN_ENCRYPTION_KEYS");
+    });
+  });
+
+  describe("encrypt / decrypt", () => {
+    const cipher = TokenCipher.fromEnv(`v1:${key1}`);
+
+    it("should round-trip fields", () => {
+      const record = cipher.encrypt("user1", { access_token: "at", refresh_token: "rt" });
+
+      expect(cipher.decrypt("user1", record)).toEqual({ access_token: "at", refresh_token: "rt" });
+    });
+
+    it("should not contain the plaintext", () => {
+      const record = cipher.encrypt("user1", { refresh_token: "super-secret-refresh" });
+
+      expect(JSON.stringify(record)).not.toContain("super-secret-refresh");
+      expect(record.key_version).toBe("v1");
+    });
+
+    it("should use a fresh data key per record", () => {
+      const a = cipher.encrypt("user1", { refresh_token: "rt" });
+      const b = cipher.encrypt("user1", { refresh_token: "rt" });
+
+      expect(a.wrapped_key).not.toBe(b.wrapped_key);
+      expect(a.fields.refresh_token).not.toBe(b.fields.refresh_token);
+    });
+
+    it("should refuse to decrypt a record copied to another uid", () => {
+      const record = cipher.encrypt("victim", { refresh_token: "rt" });
+
+      expect(() => cipher.decrypt("attacker", record)).toThrow();
+    });
+
+    it("should detect tampered ciphertext", () => {
+      const record = cipher.encrypt("user1", { refresh_token: "rt" });
+      const bytes = Buffer.from(record.fields.refresh_token, "base64");
+      bytes[bytes.length - 1] ^= 0xff;
+
+      expect(() =>
+        cipher.decrypt("user1", {
+          ...record,
+          fields: { refresh_token: bytes.toString("base64") },
+        })
+      ).toThrow();
+    });
+  });
+
+  describe("key rotation", () => {
+    it("should decrypt records from an older key after rotation", () => {
+      const old = TokenCipher.fromEnv(`v1:${key1}`);
+      const rotated = TokenCipher.fromEnv(`v1:${key1},v2:${key2}`);
+      const record = old.encrypt("user1", { refresh_token: "rt" });
+
+      expect(rotated.decrypt("user1", record)).toEqual({ refresh_token: "rt" });
+    });
+
+    it("should rewrap to the active key without touching field ciphertext", () => {
+      const old = TokenCipher.fromEnv(`v1:${key1}`);
+      const rotated = TokenCipher.fromEnv(`v1:${key1},v2:${key2}`);
+      const record = old.encrypt("user1", { refresh_token: "rt" });
+
+      const rewrapped = rotated.rewrap("user1", record);
+
+      expect(rewrapped.key_version).toBe("v2");
+      expect(rewrapped.fields).toEqual(record.fields);
+      expect(TokenCipher.fromEnv(`v2:${key2}`).decrypt("user1", rewrapped)).toEqual({
+        refresh_token: "rt",
+      });
+    });
+
+    it("should fail clearly when a key version has been removed", () => {
+      const record = TokenCipher.fromEnv(`v1:${key1}`).encrypt("user1", { refresh_token: "rt" });
+
+      expect(() => TokenCipher.fromEnv(`v2:${key2}`).decrypt("user1", record)).toThrow(
+        "No encryption key for version v1"
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/** Encrypted form of a set of string fields, as stored in Firestore */
+export interface EncryptedFields {
+  key_version: string;
+  wrapped_key: string;
+  fields: Record<string, string>;
+}
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Envelope encryption for secrets at rest.
+ * Each record gets its own random data key (DEK) that encrypts the fields; the
+ * DEK is then wrapped by a versioned key-encryption key (KEK) from the
+ * environment. Rotating the KEK only means re-wrapping DEKs, see rewrap().
+ */
+export class TokenCipher {
+  private keys: Map<string, Buffer>;
+  private activeVersion: string | null;
+
+  constructor(keys: Map<string, Buffer>, activeVersion: string | null) {
+    for (const [version, key] of keys) {
+      if (key.length !== 32) {
+        throw new Error(`Encryption key ${version} must be 32 bytes, got ${key.length}`);
+      }
+    }
+    if (activeVersion && !keys.has(activeVersion)) {
+      throw new Error(`Unknown active key version: ${activeVersion}`);
+    }
+    this.keys = keys;
+    this.activeVersion = activeVersion;
+  }
+
+  /**
+   * Parse `TOKEN_ENCRYPTION_KEYS`, e.g. "v1:<base64>,v2:<base64>".
+   * The last entry is the active key; older ones are kept so existing
+   * records can still be decrypted until they are migrated.
+   */
+  static fromEnv(spec: string = process.env.TOKEN_ENCRYPTION_KEYS || ""): TokenCipher {
+    const keys = new Map<string, Buffer>();
+    let activeVersion: string | null = null;
+
+    for (const entry of spec.split(",").map((e) => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) {
+        throw new Error("TOKEN_ENCRYPTION_KEYS entries must look like <version>:<base64 key>");
+      }
+      const version = entry.substring(0, separator);
+      keys.set(version, Buffer.from(entry.substring(separator + 1), "base64"));
+      activeVersion = version;
+    }
+
+    return new TokenCipher(keys, activeVersion);
+  }
+
+  get activeKeyVersion(): string | null {
+    return this.activeVersion;
+  }
+
+  /** `context` (e.g. the uid) is bound as AAD so ciphertext can't be moved between records */
+  encrypt(context: string, fields: Record<string, string>): EncryptedFields {
+    const version = this.requireActiveVersion();
+    const dek = randomBytes(32);
+
+    const encrypted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(fields)) {
+      encrypted[name] = seal(dek, Buffer.from(value, "utf8"), `${context}:${name}`);
+    }
+
+    return {
+      key_version: version,
+      wrapped_key: seal(this.keys.get(version)!, dek, context),
+      fields: encrypted,
+    };
+  }
+
+  decrypt(context: string, record: EncryptedFields): Record<string, string> {
+    const dek = this.unwrap(context, record);
+
+    const fields: Record<string, string> = {};
+    for (const [name, value] of Object.entries(record.fields)) {
+      fields[name] = open(dek, value, `${context}:${name}`).toString("utf8");
+    }
+    return fields;
+  }
+
+  /** Re-wrap the data key with the active KEK; field ciphertext is unchanged */
+  rewrap(context: string, record: EncryptedFields): EncryptedFields {
+    const version = this.requireActiveVersion();
+    const dek = this.unwrap(context, record);
+    return {
+      ...record,
+      key_version: version,
+      wrapped_key: seal(this.keys.get(version)!, dek, context),
+    };
+  }
+
+  private unwrap(context: string, record: EncryptedFields): Buffer {
+    const kek = this.keys.get(record.key_version);
+    if (!kek) {
+      throw new Error(`No encryption key for version ${record.key_version}`);
+    }
+    return open(kek, record.wrapped_key, context);
+  }
+
+  private requireActiveVersion(): string {
+    if (!this.activeVersion) {
+      throw new Error("TOKEN_ENCRYPTION_KEYS is not configured");
+    }
+    return this.activeVersion;
+  }
+}
+
+// base64(iv | tag | ciphertext)
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { randomBytes } from "crypto";
+import { Firestore } from "@google-cloud/firestore";
+import { TokenStore } from "./TokenStore.js";
+import { TokenCipher } from "./TokenCipher.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+
+const key1 = randomBytes(32).toString("base64");
+const key2 = randomBytes(32).toString("base64");
+
+describe("TokenStore", () => {
+  let db: FakeFirestore;
+  let store: TokenStore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    store = new TokenStore(db as unknown as Firestore, TokenCipher.fromEnv(`v1:${key1}`));
+  });
+
+  const tokens = {
+    access_token: "access-123",
+    refresh_token: "refresh-456",
+    expiry_date: 1700000000000,
+    updated_at: 1690000000000,
+  };
+
+  it("should round-trip tokens", async () => {
+    await store.save("user1", tokens);
+
+    expect(await store.get("user1")).toEqual(tokens);
+  });
+
+  it("should not store tokens in plaintext", async () => {
+    await store.save("user1", tokens);
+
+    const raw = db.dump("gmail_tokens").user1;
+    expect(raw.access_token).toBeUndefined();
+    expect(raw.refresh_token).toBeUndefined();
+    expect(JSON.stringify(raw)).not.toContain("refresh-456");
+    expect(raw.expiry_date).toBe(tokens.expiry_date);
+    expect(raw.encrypted.key_version).toBe("v1");
+  });
+
+  it("should handle a missing refresh token", async () => {
+    await store.save("user1", { ...tokens, refresh_token: null });
+
+    expect((await store.get("user1"))?.refresh_token).toBeNull();
+  });
+
+  it("should return null for an unknown user", async () => {
+    expect(await store.get("nobody")).toBeNull();
+  });
+
+  it("should still read legacy plaintext documents", async () => {
+    await db.collection("gmail_tokens").doc("user1").set(tokens);
+
+    expect(await store.get("user1")).toEqual(tokens);
+  });
+
+  it("should delete tokens", async () => {
+    await store.save("user1", tokens);
+    await store.delete("user1");
+
+    expect(await store.get("user1")).toBeNull();
+  });
+
+  describe("migrate", () => {
+    it("should encrypt plaintext documents", async () => {
+      await db.collection("gmail_tokens").doc("legacy").set(tokens);
+
+      const result = await store.migrate();
+
+      expect(result).toEqual({ encrypted: 1, rewrapped: 0, unchanged: 0 });
+      expect(db.dump("gmail_tokens").legacy.refresh_token).toBeUndefined();
+      expect(await store.get("legacy")).toEqual(tokens);
+    });
+
+    it("should re-wrap documents from an older key version", async () => {
+      await store.save("user1", tokens);
+      const rotated = new TokenStore(
+        db as unknown as Firestore,
+        TokenCipher.fromEnv(`v1:${key1},v2:${key2}`)
+      );
+
+      const result = await rotated.migrate();
+
+      expect(result).toEqual({ encrypted: 0, rewrapped: 1, unchanged: 0 });
+      expect(db.dump("gmail_tokens").user1.encrypted.key_version).toBe("v2");
+
+      // The old key can now be retired
+      const v2Only = new TokenStore(db as unknown as Firestore, TokenCipher.fromEnv(`v2:${key2}`));
+      expect(await v2Only.get("user1")).toEqual(tokens);
+    });
+
+    it("should leave current documents alone", async () => {
+      await store.save("user1", tokens);
+
+      expect(await store.migrate()).toEqual({ encrypted: 0, rewrapped: 0, unchanged: 1 });
+    });
+  });
+});
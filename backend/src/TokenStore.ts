@@ -0,0 +1,99 @@
+import { Firestore } from "@google-cloud/firestore";
+import { EncryptedFields, TokenCipher } from "./TokenCipher.js";
+
+export interface GmailTokens {
+  access_token?: string | null;
+  refresh_token?: string | null;
+  expiry_date?: number | null;
+  updated_at?: number;
+}
+
+const SECRET_FIELDS = ["access_token", "refresh_token"] as const;
+
+/**
+ * Reads and writes `gmail_tokens/{uid}` with the OAuth tokens encrypted.
+ * Documents written before encryption was introduced are still readable as
+ * plaintext until migrate() re-encrypts them.
+ */
+export class TokenStore {
+  private firestore: Firestore;
+  private cipher: TokenCipher;
+
+  constructor(firestore: Firestore, cipher: TokenCipher) {
+    this.firestore = firestore;
+    this.cipher = cipher;
+  }
+
+  private ref(uid: string) {
+    return this.firestore.collection("gmail_tokens").doc(uid);
+  }
+
+  async get(uid: string): Promise<GmailTokens | null> {
+    const doc = await this.ref(uid).get();
+    if (!doc.exists) return null;
+    return this.decode(uid, doc.data()!);
+  }
+
+  async save(uid: string, tokens: GmailTokens): Promise<void> {
+    await this.ref(uid).set(this.encode(uid, tokens));
+  }
+
+  async delete(uid: string): Promise<void> {
+    await this.ref(uid).delete();
+  }
+
+  /**
+   * Bring every document up to the active key: plaintext documents are
+   * encrypted, and documents wrapped with an older key version are re-wrapped.
+   */
+  async migrate(): Promise<{ encrypted: number; rewrapped: number; unchanged: number }> {
+    const result = { encrypted: 0, rewrapped: 0, unchanged: 0 };
+    const snapshot = await this.firestore.collection("gmail_tokens").get();
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+
+      if (!data.encrypted) {
+        await doc.ref.set(this.encode(doc.id, data as GmailTokens));
+        result.encrypted++;
+      } else if (data.encrypted.key_version !== this.cipher.activeKeyVersion) {
+        await doc.ref.update({
+          encrypted: this.cipher.rewrap(doc.id, data.encrypted as EncryptedFields),
+        });
+        result.rewrapped++;
+      } else {
+        result.unchanged++;
+      }
+    }
+
+    return result;
+  }
+
+  private encode(uid: string, tokens: GmailTokens) {
+    const secrets: Record<string, string> = {};
+    for (const field of SECRET_FIELDS) {
+      if (tokens[field]) secrets[field] = tokens[field]!;
+    }
+
+    return {
+      encrypted: this.cipher.encrypt(uid, secrets),
+      expiry_date: tokens.expiry_date ?? null,
+      updated_at: tokens.updated_at ?? Date.now(),
+    };
+  }
+
+  private decode(uid: string, data: Record<string, any>): GmailTokens {
+    if (!data.encrypted) {
+      // Legacy plaintext document
+      return data as GmailTokens;
+    }
+
+    const secrets = this.cipher.decrypt(uid, data.encrypted as EncryptedFields);
+    return {
+      access_token: secrets.access_token ?? null,
+      refresh_token: secrets.refresh_token ?? null,
+      expiry_date: data.expiry_date ?? null,
+      updated_at: data.updated_at,
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Firestore } from "@google-cloud/firestore";
+import {
+  SourcedTransaction,
+  TransactionStore,
+  fingerprintAll,
+  normalizeAccount,
+  transactionFingerprint,
+} from "./TransactionStore.js";
+import { FakeFirestore } from "./FakeFirestore.js";
+import { parseCsvStatement, parseOfxStatement } from "./StatementImporter.js";
+import { Transaction } from "./StatementAnalyzer.js";
+
+describe("TransactionStore", () => {
+  let db: FakeFirestore;
+  let store: TransactionStore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    store = new TransactionStore(db as unknown as Firestore);
+  });
+
+  const tx = (description: string, amount: number, source = "upload_1", date = "2025-01-15"): SourcedTransaction => ({
+    date,
+    description,
+    amount,
+    type: "debit",
+    sourceEmailId: source,
+    sourceEmailDate: "2025-02-01",
+  });
+
+  describe("transactionFingerprint", () => {
+    it("should ignore how each source formats the description", () => {
+      expect(transactionFingerprint(tx("AGL ENERGY DIRECT DEBIT 4417", 150))).toBe(
+        transactionFingerprint(tx("Agl Energy - Direct Debit", 150))
+      );
+    });
+
+    it("should tell apart amount, date and direction", () => {
+      const base = transactionFingerprint(tx("AGL ENERGY", 150));
+
+      expect(transactionFingerprint(tx("AGL ENERGY", 151))).not.toBe(base);
+      expect(transactionFingerprint(tx("AGL ENERGY", 150, "upload_1", "2025-01-16"))).not.toBe(base);
+      expect(transactionFingerprint({ ...tx("AGL ENERGY", 150), type: "credit" })).not.toBe(base);
+    });
+
+    it("should only key on the account when asked to", () => {
+      const base = transactionFingerprint(tx("AGL ENERGY", 150));
+
+      expect(transactionFingerprint({ ...tx("AGL ENERGY", 150), account: "1234" })).toBe(base);
+      expect(transactionFingerprint(tx("AGL ENERGY", 150), 0, "062-000 1234")).not.toBe(base);
+      expect(transactionFingerprint(tx("AGL ENERGY", 150), 0, "062-000 1234")).toBe(
+        transactionFingerprint(tx("AGL ENERGY", 150), 0, "1234")
+      );
+    });
+
+    it("should match accounts on their last four digits", () => {
+      expect(normalizeAccount("062-000 1234 5678")).toBe("5678");
+      expect(normalizeAccount("Everyday Account")).toBe("everydayaccount");
+      expect(normalizeAccount(undefined)).toBe("");
+    });
+
+    it("should number identical transactions within a source", () => {
+      const ids = fingerprintAll([tx("COFFEE", 4.5), tx("COFFEE", 4.5), tx("COFFEE", 4.5, "email_1")]);
+
+      expect(ids[0]).not.toBe(ids[1]);
+      expect(ids[2]).toBe(ids[0]);
+    });
+  });
+
+  describe("save", () => {
+    it("should store new transactions under their fingerprint", async () => {
+      const result = await store.save("user1", [tx("AGL ENERGY", 150), tx("NETFLIX", 22.99)]);
+
+      expect(result).toMatchObject({ added: 2, known: 0 });
+      const stored = db.dump("users/user1/transactions");
+      expect(Object.keys(stored).sort()).toEqual(result.transactions.map((t) => t.id).sort());
+      expect(stored[result.transactions[0].id]).toMatchObject({
+        description: "AGL ENERGY",
+        sourceIds: ["upload_1"],
+        matchedBillId: null,
+      });
+    });
+
+    it("should be idempotent when the same statement is uploaded again", async () => {
+      const statement = [tx("COFFEE", 4.5), tx("COFFEE", 4.5), tx("AGL ENERGY", 150)];
+      await store.save("user1", statement);
+
+      const again = await store.save(
+        "user1",
+        statement.map((t) => ({ ...t, sourceEmailId: "upload_2" }))
+      );
+
+      expect(again).toMatchObject({ added: 0, known: 3 });
+      expect(Object.keys(db.dump("users/user1/transactions"))).toHaveLength(3);
+    });
+
+    it("should recognise the same transactions from another source", async () => {
+      await store.save("user1", [tx("AGL ENERGY DIRECT DEBIT", 150, "email_1")]);
+
+      const result = await store.save("user1", [tx("Agl Energy Direct Debit", 150, "upload_1"), tx("NEW", 10, "upload_1")]);
+
+      expect(result).toMatchObject({ added: 1, known: 1 });
+      expect(result.transactions[0].sourceIds).toEqual(["email_1", "upload_1"]);
+      expect(db.dump("users/user1/transactions")[result.transactions[0].id].sourceIds).toEqual(["email_1", "upload_1"]);
+    });
+
+    it("should recognise rows imported from OFX when they come again in a CSV", async () => {
+      const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKACCTFROM><ACCTID>062000 12345678</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250115<TRNAMT>-150.00<NAME>AGL ENERGY DIRECT DEBIT</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250117<TRNAMT>-22.99<NAME>NETFLIX.COM</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+      const csv = "Date,Description,Amount\n15/01/2025,AGL ENERGY DIRECT DEBIT,-150.00\n17/01/2025,NETFLIX.COM,-22.99\n";
+      const sourced = (transactions: Transaction[], source: string) =>
+        transactions.map((t) => ({ ...t, sourceEmailId: source, sourceEmailDate: "2025-02-01" }));
+
+      const first = await store.save("user1", sourced(parseOfxStatement(ofx), "upload_ofx"));
+      const again = await store.save("user1", sourced(parseCsvStatement(csv), "upload_csv"));
+
+      expect(first).toMatchObject({ added: 2, known: 0 });
+      expect(again).toMatchObject({ added: 0, known: 2 });
+      expect(again.transactions.map((t) => t.account)).toEqual(["062000 12345678", "062000 12345678"]);
+    });
+
+    it("should fill in the account when a later source has it", async () => {
+      const { transactions } = await store.save("user1", [tx("AGL ENERGY", 150, "email_1")]);
+
+      await store.save("user1", [{ ...tx("AGL ENERGY", 150, "upload_1"), account: "5678" }]);
+
+      expect(db.dump("users/user1/transactions")[transactions[0].id]).toMatchObject({
+        account: "5678",
+        sourceIds: ["email_1", "upload_1"],
+      });
+    });
+
+    it("should keep identical transactions on different accounts apart", async () => {
+      await store.save("user1", [{ ...tx("AGL ENERGY", 150, "ofx_1"), account: "1111" }]);
+      const result = await store.save("user1", [
+        { ...tx("AGL ENERGY", 150, "ofx_2"), account: "2222" },
+        { ...tx("AGL ENERGY", 150, "ofx_2"), account: "3333" },
+      ]);
+
+      expect(result).toMatchObject({ added: 2, known: 0 });
+      expect(Object.values(db.dump("users/user1/transactions")).map((t) => t.account).sort()).toEqual([
+        "1111",
+        "2222",
+        "3333",
+      ]);
+
+      // Each is recognised again from its own account
+      const again = await store.save("user1", [{ ...tx("AGL ENERGY", 150, "ofx_3"), account: "2222" }]);
+      expect(again).toMatchObject({ added: 0, known: 1 });
+      expect(again.transactions[0].id).toBe(result.transactions[0].id);
+    });
+
+    it("should keep the link to a bill on a known transaction", async () => {
+      const { transactions } = await store.save("user1", [tx("AGL ENERGY", 150)]);
+      await db
+        .collection("users")
+        .doc("user1")
+        .collection("transactions")
+        .doc(transactions[0].id)
+        .update({ matchedBillId: "bill-1" });
+
+      const again = await store.save("user1", [tx("AGL ENERGY", 150, "upload_2")]);
+
+      expect(again.transactions[0].matchedBillId).toBe("bill-1");
+      expect(db.dump("users/user1/transactions")[transactions[0].id].matchedBillId).toBe("bill-1");
+    });
+
+    it("should store more transactions than fit in one Firestore batch", async () => {
+      const statement = Array.from({ length: 1200 }, (_, i) => tx(`PURCHASE ${i}`, 10 + i));
+
+      const result = await store.save("user1", statement);
+
+      expect(result).toMatchObject({ added: 1200, known: 0 });
+      expect(Object.keys(db.dump("users/user1/transactions"))).toHaveLength(1200);
+    });
+
+    it("should collapse overlapping sources within one import", async () => {
+      const result = await store.save("user1", [tx("AGL ENERGY", 150, "email_1"), tx("AGL ENERGY", 150, "email_2")]);
+
+      expect(result).toMatchObject({ added: 1, known: 1 });
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0].sourceIds).toEqual(["email_1", "email_2"]);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { createHash } from "crypto";
+import { Firestore } from "@google-cloud/firestore";
+import { Transaction } from "./StatementAnalyzer.js";
+import { normalizeDescription } from "./AliasStore.js";
+
+/** A transaction along with the email or upload it came from */
+export interface SourcedTransaction extends Transaction {
+  sourceEmailId: string;
+  sourceEmailDate: string;
+}
+
+export interface StoredTransaction extends SourcedTransaction {
+  /** The content fingerprint, see transactionFingerprint() */
+  id: string;
+  /** Every email or upload the transaction has been seen in, first one first */
+  sourceIds: string[];
+  matchedBillId: string | null;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+export interface SaveResult {
+  /** One entry per distinct transaction, in the order first seen */
+  transactions: StoredTransaction[];
+  /** How many weren't stored before */
+  added: number;
+  /** How many were already stored, from an earlier import or another source */
+  known: number;
+}
+
+/** Last four digits of an account number, so "062-000 1234 5678" and "5678" agree */
+export function normalizeAccount(account?: string | null): string {
+  if (!account) return "";
+  const digits = account.replace(/\D/g, "");
+  return digits ? digits.slice(-4) : account.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Document id for a transaction, built from what it says rather than where
+ * it came from: date, amount, direction and normalised description. The same
+ * transaction seen in a bank email and an uploaded PDF gets the same id.
+ * `occurrence` tells apart identical transactions on one statement (two
+ * $4.50 coffees on the same day). `account` is only passed for a transaction
+ * that clashes with one already stored under another account, see save().
+ */
+export function transactionFingerprint(tx: Transaction, occurrence = 0, account?: string): string {
+  const parts = [
+    tx.date.substring(0, 10),
+    Math.abs(tx.amount).toFixed(2),
+    tx.type,
+    normalizeDescription(tx.description) || tx.description.toLowerCase().trim(),
+    String(occurrence),
+  ];
+  if (account) parts.push(normalizeAccount(account));
+  return `tx_${createHash("sha256").update(parts.join("|")).digest("hex").substring(0, 24)}`;
+}
+
+/**
+ * Number identical transactions within each source and account, so a
+ * statement imported twice - or once by email and once by upload - numbers
+ * its duplicates the same way both times.
+ */
+function occurrences(transactions: SourcedTransaction[]): number[] {
+  const seen = new Map<string, number>();
+  return transactions.map((tx) => {
+    const key = `${tx.sourceEmailId}|${normalizeAccount(tx.account)}|${transactionFingerprint(tx)}`;
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    return occurrence;
+  });
+}
+
+/** Fingerprint a batch of transactions, see occurrences() */
+export function fingerprintAll(transactions: SourcedTransaction[]): string[] {
+  const counts = occurrences(transactions);
+  return transactions.map((tx, i) => transactionFingerprint(tx, counts[i]));
+}
+
+/**
+ * Transactions in `users/{uid}/transactions`, keyed by content fingerprint so
+ * importing the same statement again (or the same transactions from another
+ * source) doesn't store them twice.
+ */
+export class TransactionStore {
+  private firestore: Firestore;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  private collection(uid: string) {
+    return this.firestore.collection("users").doc(uid).collection("transactions");
+  }
+
+  /**
+   * Store new transactions and note the extra source on ones already known.
+   * Known transactions keep their stored fields, including any bill they've
+   * been linked to, and pick up the account if they didn't have one. Only
+   * some sources carry an account, so it's compared rather than keyed on:
+   * a transaction clashing with one stored under a different account is
+   * another transaction, and goes under a fingerprint that includes its account.
+   */
+  async save(uid: string, transactions: SourcedTransaction[]): Promise<SaveResult> {
+    const counts = occurrences(transactions);
+    const ids = transactions.map((tx, i) => transactionFingerprint(tx, counts[i]));
+    const accountIds = transactions.map((tx, i) =>
+      tx.account ? transactionFingerprint(tx, counts[i], tx.account) : null
+    );
+    const lookups = new Set([...ids, ...accountIds.filter((id): id is string => id !== null)]);
+    const snapshots = await Promise.all([...lookups].map((id) => this.collection(uid).doc(id).get()));
+    const existing = new Map(
+      snapshots.filter((s) => s.exists).map((s) => [s.id, s.data() as StoredTransaction])
+    );
+
+    const now = Date.now();
+    const result = new Map<string, StoredTransaction>();
+    const changed = new Set<string>();
+    let added = 0;
+    let known = 0;
+
+    transactions.forEach((tx, i) => {
+      let id = ids[i];
+      let prior = result.get(id) ?? existing.get(id);
+      if (prior?.account && tx.account && normalizeAccount(prior.account) !== normalizeAccount(tx.account)) {
+        id = accountIds[i]!;
+        prior = result.get(id) ?? existing.get(id);
+      }
+
+      if (!prior) {
+        result.set(id, { ...tx, id, sourceIds: [tx.sourceEmailId], matchedBillId: null, createdAt: now });
+        changed.add(id);
+        added++;
+        return;
+      }
+
+      known++;
+      // Documents from before fingerprinting only have sourceEmailId
+      const sourceIds = prior.sourceIds ?? [prior.sourceEmailId];
+      const account = prior.account || tx.account;
+      if (sourceIds.includes(tx.sourceEmailId) && account === prior.account) {
+        result.set(id, { ...prior, sourceIds });
+      } else {
+        const merged = sourceIds.includes(tx.sourceEmailId) ? sourceIds : [...sourceIds, tx.sourceEmailId];
+        result.set(id, { ...prior, ...(account && { account }), sourceIds: merged, updatedAt: now });
+        changed.add(id);
+      }
+    });
+
+    // Firestore caps a batch at 500 writes; a first backfill can hold more
+    const writes = [...changed];
+    for (let i = 0; i < writes.length; i += 500) {
+      const batch = this.firestore.batch();
+      for (const id of writes.slice(i, i + 500)) {
+        const tx = result.get(id)!;
+        if (existing.has(id)) {
+          batch.update(this.collection(uid).doc(id), {
+            sourceIds: tx.sourceIds,
+            ...(tx.account && { account: tx.account }),
+            updatedAt: now,
+          });
+        } else {
+          batch.set(this.collection(uid).doc(id), tx);
+        }
+      }
+      await batch.commit();
+    }
+
+    return { transactions: [...result.values()], added, known };
+  }
+}
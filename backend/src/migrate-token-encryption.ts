@@ -0,0 +1,36 @@
+import dotenv from "dotenv";
+import { Firestore } from "@google-cloud/firestore";
+import { TokenCipher } from "./TokenCipher.js";
+import { TokenStore } from "./TokenStore.js";
+import { PdfPasswordStore } from "./PdfPasswordStore.js";
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Encrypt plaintext gmail_tokens documents and re-wrap documents (and saved
+ * PDF passwords) that use an older key version. Safe to re-run. To rotate:
+ * append the new key to TOKEN_ENCRYPTION_KEYS (keeping the old ones), deploy,
+ * run this, then drop the old key.
+ */
+async function migrateTokenEncryption() {
+  const cipher = TokenCipher.fromEnv();
+  console.log(`Migrating gmail_tokens to key version ${cipher.activeKeyVersion}...`);
+
+  const firestore = new Firestore();
+  const store = new TokenStore(firestore, cipher);
+  const result = await store.migrate();
+
+  console.log(
+    `Done: ${result.encrypted} encrypted, ${result.rewrapped} re-wrapped, ${result.unchanged} already current`
+  );
+
+  console.log("Migrating saved PDF passwords...");
+  const passwords = await new PdfPasswordStore(firestore, cipher).migrate();
+  console.log(`Done: ${passwords.rewrapped} re-wrapped, ${passwords.unchanged} already current`);
+}
+
+migrateTokenEncryption().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -2,25 +2,58 @@ import express, { Request, Response } from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import multer, { MulterError } from "multer";
-import { PDFParse } from "pdf-parse";
+import { createHash } from "crypto";
 import { google } from "googleapis";
 import { Firestore } from "@google-cloud/firestore";
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
 // Object imports
 import { Email } from "./Email.js";
 import { EmailParser } from "./EmailParser.js";
 import { BillAnalyzer } from "./BillAnalyzer.js";
 import { StatementAnalyzer, Transaction } from "./StatementAnalyzer.js";
-import { BillMatcher, Bill } from "./BillMatcher.js";
-
-// Configure multer for PDF uploads (memory storage, 10MB limit)
+import { BillMatcher, Bill, Match, needsReview } from "./BillMatcher.js";
+import { BillStore, StoredBill } from "./BillStore.js";
+import { AliasStore } from "./AliasStore.js";
+import { MatchStore } from "./MatchStore.js";
+import { SourcedTransaction, StoredTransaction, TransactionStore } from "./TransactionStore.js";
+import { expectedBills, groupBillers } from "./RecurringBills.js";
+import { AlertStore } from "./AlertStore.js";
+import { convertBill, FxConversion, FxImportError, FxStore, isCurrency, parseFxCsv } from "./FxStore.js";
+import { GmailSync } from "./GmailSync.js";
+import { requireAuth } from "./Auth.js";
+import { OAuthState, InvalidStateError } from "./OAuthState.js";
+import { GmailAuth } from "./GmailAuth.js";
+import { TokenCipher } from "./TokenCipher.js";
+import { TokenStore } from "./TokenStore.js";
+import { createLLMProvider } from "./LLMProvider.js";
+import { createOcrEngine, extractPdfText, isImageType, LockedPdfError, sniffImageType } from "./DocumentText.js";
+import { normalizeSender, PdfPasswordStore } from "./PdfPasswordStore.js";
+import {
+  CsvMapping,
+  detectStatementFormat,
+  importStatement,
+  StatementImportError,
+  validateCsvMapping,
+} from "./StatementImporter.js";
+
+const UNSUPPORTED_FILE = "Only PDF, image (JPEG, PNG, TIFF), CSV, OFX/QFX and QIF files are allowed";
+const UNSUPPORTED_BILL = "Only PDF and image (JPEG, PNG, TIFF) bills are allowed";
+
+// Configure multer for statement uploads (memory storage, 10MB limit)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 10 * 1024 * 1024 },
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === "application/pdf") {
+    // Browsers report all sorts of MIME types for CSV/OFX, so go by the name
+    if (
+      file.mimetype === "application/pdf" ||
+      isImageType(file.mimetype) ||
+      detectStatementFormat(file.originalname, Buffer.alloc(0))
+    ) {
       cb(null, true);
     } else {
-      cb(new Error("Only PDF files are allowed"));
+      cb(new Error(UNSUPPORTED_FILE));
     }
   },
 });
@@ -34,17 +67,36 @@ const PORT = process.env.PORT || 3000;
 // Firestore setup
 const firestore = new Firestore();
 
-// Helper: Validate Firebase UID format (alphanumeric, 20-128 chars)
-function isValidUid(uid: string): boolean {
-  return typeof uid === "string" && /^[a-zA-Z0-9]{20,128}$/.test(uid);
-}
+// Firebase Admin verifies the ID tokens the frontend sends
+initializeApp();
+const authenticate = requireAuth(getAuth());
+// EventSource and the OAuth popup can't set headers, so they pass ?token=
+const authenticateStream = requireAuth(getAuth(), { allowQueryToken: true });
+const billStore = new BillStore(firestore);
+const aliasStore = new AliasStore(firestore);
+const matchStore = new MatchStore(firestore);
+const transactionStore = new TransactionStore(firestore);
+const alertStore = new AlertStore(firestore);
+const fxStore = new FxStore(firestore);
+// Gemini by default; LLM_PROVIDER switches to a local/OpenAI-compatible model or fixtures
+const llm = createLLMProvider();
+// Tesseract by default, for scanned PDFs and photos of bills; OCR_ENGINE=none turns it off
+const ocr = createOcrEngine();
+// Gmail tokens and saved PDF passwords share the envelope encryption keys
+const cipher = TokenCipher.fromEnv();
+const tokenStore = new TokenStore(firestore, cipher);
+const pdfPasswordStore = new PdfPasswordStore(firestore, cipher);
+const billSync = new GmailSync(
+  firestore,
+  "bills",
+  "subject:(bill OR invoice OR payment OR due OR statement)",
+  /\b(bill|invoice|payment|due|statement)\b/i
+);
 
 // Helper: Get valid tokens (refreshes if expired)
 async function getValidTokens(uid: string) {
-  const tokenDoc = await firestore.collection("gmail_tokens").doc(uid).get();
-  if (!tokenDoc.exists) return null;
-
-  const tokens = tokenDoc.data()!;
+  const tokens = await tokenStore.get(uid);
+  if (!tokens) return null;
 
   // Check if token is expired (with 5 min buffer)
   const isExpired =
@@ -66,7 +118,7 @@ async function getValidTokens(uid: string) {
         updated_at: Date.now(),
       };
 
-      await firestore.collection("gmail_tokens").doc(uid).set(updatedTokens);
+      await tokenStore.save(uid, updatedTokens);
       console.log("Token refreshed successfully");
 
       return updatedTokens;
@@ -94,6 +146,10 @@ const oAuth2Client = new google.auth.OAuth2(
   process.env.GOOGLE_CLIENT_SECRET,
   process.env.GOOGLE_REDIRECT_URI
 );
+const gmailAuth = new GmailAuth(
+  oAuth2Client,
+  new OAuthState(firestore, process.env.OAUTH_STATE_SECRET!)
+);
 
 /**
  * ------------------------------------------------------------------
@@ -107,40 +163,30 @@ app.get("/", (req, res) => {
 });
 
 // Step 1: Redirect user to Google OAuth consent screen
-app.get("/gmail/auth", (req: Request, res: Response) => {
-  const uid = req.query.uid as string;
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
-
-  const scopes = [
-    "https://www.googleapis.com/auth/gmail.readonly",
-    "https://www.googleapis.com/auth/userinfo.email",
-  ];
-  const url = oAuth2Client.generateAuthUrl({
-    access_type: "offline",
-    scope: scopes,
-    prompt: "consent",
-    state: uid,
-  });
-  res.redirect(url);
+app.get("/gmail/auth", authenticateStream, async (req: Request, res: Response) => {
+  try {
+    res.redirect(await gmailAuth.authUrl(req.uid!));
+  } catch (err) {
+    console.error("OAuth2 error:", err);
+    res.status(500).json({ error: "OAuth2 error" });
+  }
 });
 
 // Step 2: OAuth2 callback to exchange code for tokens
 app.get("/exchange", async (req: Request, res: Response) => {
   const code = req.query.code as string;
-  const uid = req.query.state as string;
-
-  console.log("Exchange endpoint hit - uid:", uid);
+  const state = req.query.state as string;
 
   if (!code) return res.status(400).json({ error: "Missing code" });
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
+  if (!state) return res.status(400).json({ error: "Missing state" });
 
   try {
     console.log("Getting tokens...");
-    const { tokens } = await oAuth2Client.getToken(code);
-    oAuth2Client.setCredentials(tokens);
+    const { uid, tokens } = await gmailAuth.exchange(code, state);
+    console.log("Tokens received for uid:", uid);
 
-    // Store tokens in Firestore under user's uid
-    await firestore.collection("gmail_tokens").doc(uid).set({
+    // Store tokens (encrypted) in Firestore under user's uid
+    await tokenStore.save(uid, {
       access_token: tokens.access_token,
       refresh_token: tokens.refresh_token,
       expiry_date: tokens.expiry_date,
@@ -173,16 +219,19 @@ app.get("/exchange", async (req: Request, res: Response) => {
     // Redirect to OAuth callback page which will close the popup
     res.redirect("https://debt-dashboard-project.web.app/oauth-callback.html");
   } catch (err) {
+    if (err instanceof InvalidStateError) {
+      console.warn("Rejected OAuth state:", err.reason);
+      return res.status(400).json({ error: "Invalid or expired OAuth state", reason: err.reason });
+    }
     console.error("OAuth2 error:", err);
     res.status(500).json({ error: "OAuth2 error", details: String(err) });
   }
 });
 
 // AI-powered bill parsing
-app.get("/gmail/bills/analyze", async (req: Request, res: Response) => {
-  const uid = req.query.uid as string;
+app.get("/gmail/bills/analyze", authenticateStream, async (req: Request, res: Response) => {
+  const uid = req.uid!;
 
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
   const tokens = await getValidTokens(uid);
   if (!tokens) {
     return res
@@ -198,15 +247,14 @@ app.get("/gmail/bills/analyze", async (req: Request, res: Response) => {
   res.setHeader("Connection", "keep-alive");
 
   try {
-    const query =
-      "subject:(bill OR invoice OR payment OR due OR statement) newer_than:30d";
-    const messagesRes = await gmail.users.messages.list({
-      userId: "me",
-      q: query,
-      maxResults: 10,
-    });
-    const messages = messagesRes.data.messages || [];
-    const billAnalyzer = new BillAnalyzer();
+    // Only messages added since the last scan (full backfill on first run)
+    const sync = await billSync.fetchNewMessageIds(uid, gmail);
+    // Loaded once for the scan; bills stored below join it so later ones are compared with them too
+    const history = new Map((await billStore.list(uid)).map((bill) => [bill.id, bill]));
+    // An expired cursor falls back to a full backfill; emails already stored as bills needn't go through the LLM again
+    const stored = new Set([...history.values()].flatMap((bill) => bill.sourceEmailIds || []));
+    const messages = sync.messageIds.filter((id) => !stored.has(id)).map((id) => ({ id }));
+    const billAnalyzer = new BillAnalyzer(llm);
 
     // Parse all emails in parallel first
     res.write(
@@ -217,9 +265,8 @@ app.get("/gmail/bills/analyze", async (req: Request, res: Response) => {
       })}\n\n`
     );
 
-    const emails = await Promise.all(
-      messages.map((msg) => EmailParser.parse(gmail, msg))
-    );
+    const pdfPasswords = await pdfPasswordStore.passwords(uid);
+    const emails = await EmailParser.parseBatch(gmail, messages, 10, { ocr, pdfPasswords });
 
     // Analyze emails in batch (5 concurrent)
     res.write(
@@ -231,12 +278,18 @@ app.get("/gmail/bills/analyze", async (req: Request, res: Response) => {
     );
 
     const billResults = await billAnalyzer.analyzeBatch(emails, 5);
+    const fx = await fxStore.conversion(uid);
 
     // Send results
     for (let i = 0; i < emails.length; i++) {
       const email = emails[i];
       const billData = billResults[i];
 
+      // Bills in PDFs none of the saved passwords open, so the user can add one
+      if (email.lockedPdfs.length > 0) {
+        res.write(`event: locked\ndata: ${JSON.stringify(lockedDocument(email))}\n\n`);
+      }
+
       res.write(
         `event: progress\ndata: ${JSON.stringify({
           stage: "complete",
@@ -246,28 +299,35 @@ app.get("/gmail/bills/analyze", async (req: Request, res: Response) => {
       );
 
       if (billData && billData.isBill && billData.confidence > 50) {
-        res.write(
-          `event: bill\ndata: ${JSON.stringify({
-            id: email.id,
-            emailSubject: email.subject,
-            emailFrom: email.from,
-            emailDate: email.date,
-            ...billData,
-          })}\n\n`
-        );
+        // Upsert so re-scans and repeat reminders don't create duplicates
+        const conversion = convertBill({ ...billData, emailDate: email.date }, fx);
+        const bill = await billStore.upsert(uid, email, billData, conversion);
+        res.write(`event: bill\ndata: ${JSON.stringify(bill)}\n\n`);
+        history.set(bill.id, bill);
+
+        // Price spikes and subscription price changes against the biller's history
+        for (const alert of await alertStore.checkBill(uid, bill, [...history.values()])) {
+          res.write(`event: alert\ndata: ${JSON.stringify(alert)}\n\n`);
+        }
       }
     }
+
+    await billSync.commit(uid, sync.historyId, sync.backfillBefore);
     res.end();
   } catch (err) {
     console.error("Gmail API error:", err);
-    res.status(500).json({ error: "Gmail API error", details: String(err) });
+    if (!res.headersSent) {
+      return res.status(500).json({ error: "Gmail API error", details: String(err) });
+    }
+    // The stream has started, so the status can't change; report the failure as an event
+    res.write(`event: error\ndata: ${JSON.stringify({ error: "Gmail API error", details: String(err) })}\n\n`);
+    res.end();
   }
 });
 
 // Get saved bills from Firestore (fast, no Gmail API call)
-app.get("/bills", async (req: Request, res: Response) => {
-  const uid = req.query.uid as string;
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
+app.get("/bills", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
 
   try {
     const billsSnapshot = await firestore
@@ -278,44 +338,260 @@ app.get("/bills", async (req: Request, res: Response) => {
       .get();
 
     const bills = billsSnapshot.docs.map((doc) => doc.data());
-    res.json({ bills });
+    // Bills recurring billers should send next, before their emails arrive
+    const expected = expectedBills(groupBillers(bills as StoredBill[]));
+    const baseCurrency = await fxStore.getBaseCurrency(uid);
+    res.json({ bills, expected, baseCurrency });
   } catch (err) {
     console.error("Error fetching bills:", err);
     res.status(500).json({ error: "Failed to fetch bills" });
   }
 });
 
-// Mark bill as paid/unpaid
-app.post("/bills/:billId/status", async (req: Request, res: Response) => {
-  const uid = req.query.uid as string;
+/**
+ * Upload a bill that didn't come by email: a PDF, or a photo or scan of a
+ * paper bill (read with OCR). It's analyzed and stored like an emailed bill;
+ * uploading the same file again updates the same bill.
+ */
+app.post("/bills/upload", authenticate, upload.single("file"), async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+  const format = documentFormat(req.file);
+  if (!format) return res.status(400).json({ error: UNSUPPORTED_BILL });
+  const invalid = invalidDocument(req.file, format);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  try {
+    const text = await documentText(req.file, format, await uploadPasswords(uid, req.body.password));
+    if (!text.trim()) {
+      return res.status(400).json({ error: `Could not extract text from ${format === "pdf" ? "PDF" : "image"}` });
+    }
+
+    const email = new Email({
+      id: `upload_${createHash("sha256").update(req.file.buffer).digest("hex").substring(0, 24)}`,
+      subject: req.file.originalname,
+      from: format === "pdf" ? "PDF Upload" : "Image Upload",
+      date: new Date().toISOString(),
+      body: "",
+      pdfText: text,
+    });
+    const billData = await new BillAnalyzer(llm).analyze(email);
+    if (!billData || !billData.isBill) {
+      return res.status(400).json({ error: "No bill found in the file" });
+    }
+
+    const conversion = convertBill({ ...billData, emailDate: email.date }, await fxStore.conversion(uid));
+    const bill = await billStore.upsert(uid, email, billData, conversion);
+    const alerts = await alertStore.checkBill(uid, bill, await billStore.list(uid));
+    res.json({ bill, alerts, format });
+  } catch (err) {
+    if (err instanceof LockedPdfError) {
+      return res.status(400).json({ error: lockedMessage(req.body.password), locked: true });
+    }
+    console.error("Bill upload error:", err);
+    res.status(500).json({ error: "Failed to process bill", details: String(err) });
+  }
+});
+
+// Price alerts raised as bills came in, newest first
+app.get("/alerts", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    res.json({ alerts: await alertStore.list(uid) });
+  } catch (err) {
+    console.error("Error fetching alerts:", err);
+    res.status(500).json({ error: "Failed to fetch alerts" });
+  }
+});
+
+// Bills grouped by biller, with each biller's cadence and next expected bill
+app.get("/billers", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    const billsSnapshot = await firestore.collection("users").doc(uid).collection("bills").get();
+    const billers = groupBillers(billsSnapshot.docs.map((doc) => doc.data() as StoredBill));
+    res.json({ billers });
+  } catch (err) {
+    console.error("Error fetching billers:", err);
+    res.status(500).json({ error: "Failed to fetch billers" });
+  }
+});
+
+// One biller and its bills, oldest first
+app.get("/billers/:billerId", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    const billsSnapshot = await firestore.collection("users").doc(uid).collection("bills").get();
+    const bills = billsSnapshot.docs.map((doc) => doc.data() as StoredBill);
+    const biller = groupBillers(bills).find((b) => b.id === req.params.billerId);
+    if (!biller) return res.status(404).json({ error: "Biller not found" });
+
+    const byId = new Map(bills.map((b) => [b.id, b]));
+    res.json({ biller, bills: biller.billIds.map((id) => byId.get(id)) });
+  } catch (err) {
+    console.error("Error fetching biller:", err);
+    res.status(500).json({ error: "Failed to fetch biller" });
+  }
+});
+
+// Mark bill as paid/unpaid/partially paid, keeping its payments consistent
+app.post("/bills/:billId/status", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
   const { billId } = req.params;
   const { status } = req.body;
 
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
-  if (!["paid", "unpaid"].includes(status)) {
+  if (!["paid", "unpaid", "partially_paid"].includes(status)) {
     return res.status(400).json({ error: "Invalid status" });
   }
 
   try {
-    await firestore
-      .collection("users")
-      .doc(uid)
-      .collection("bills")
-      .doc(billId)
-      .update({ status, updatedAt: Date.now() });
+    const bill = await billStore.setStatus(uid, billId, status);
+    if (!bill) return res.status(404).json({ error: "Bill not found" });
 
-    res.json({ success: true });
+    res.json({ success: true, bill });
   } catch (err) {
     console.error("Error updating bill:", err);
     res.status(500).json({ error: "Failed to update bill" });
   }
 });
 
+// The match for a stored transaction, skipping matches already claimed by an identical one
+function findMatch(matches: Match[], tx: Transaction, claimed: Map<Match, string>): Match | undefined {
+  return matches.find(
+    (m) =>
+      !claimed.has(m) &&
+      m.transactionDate === tx.date &&
+      m.transactionAmount === tx.amount &&
+      m.transactionDescription === tx.description
+  );
+}
+
+// A matcher that knows the user's aliases, the matches they've rejected and their FX rates
+async function matcherFor(uid: string): Promise<BillMatcher> {
+  const [aliases, rejected, fx] = await Promise.all([
+    aliasStore.list(uid),
+    matchStore.listRejected(uid),
+    fxStore.conversion(uid),
+  ]);
+  return new BillMatcher(aliases, rejected, fx);
+}
+
+// Convert every bill again with the user's current base currency and rates
+async function reconvertBills(uid: string, fx: FxConversion): Promise<number> {
+  return billStore.applyConversions(uid, (bill) => convertBill(bill, fx));
+}
+
+// Link a matched transaction to its bill as a payment (auto-matches and accepted reviews alike)
+async function linkMatch(uid: string, transactionId: string, match: Match): Promise<StoredBill | null> {
+  const bill = await billStore.recordPayment(uid, match.billId, {
+    transactionId,
+    date: match.transactionDate,
+    description: match.transactionDescription,
+    amount: match.transactionAmount,
+    confidence: match.confidence,
+  });
+  await firestore
+    .collection("users")
+    .doc(uid)
+    .collection("transactions")
+    .doc(transactionId)
+    .update({ matchedBillId: match.billId });
+  return bill;
+}
+
+/**
+ * Why a queued suggestion no longer applies, or null if it still does: the
+ * bill has been deleted or paid since it was queued, or the transaction has
+ * been linked to a bill some other way.
+ */
+function staleSuggestion(bill: StoredBill | undefined, tx: StoredTransaction | undefined): string | null {
+  if (!bill) return "The bill no longer exists";
+  if (!tx) return "The transaction no longer exists";
+  if (bill.status === "paid") return "The bill has already been paid";
+  if (tx.matchedBillId) return "The transaction is already linked to a bill";
+  return null;
+}
+
+/**
+ * Link confident matches (>= 70%, not part payments) to their bills as
+ * payments, moving each bill from unpaid to partially_paid to paid, and queue
+ * the rest for review.
+ * Returns the ids of bills updated and how many matches were queued.
+ */
+async function applyMatches(
+  uid: string,
+  matches: Match[],
+  txIds: Map<Match, string>
+): Promise<{ linkedBillIds: string[]; pendingReview: number }> {
+  const linkedBillIds: string[] = [];
+  let pendingReview = 0;
+  for (const match of matches) {
+    const transactionId = txIds.get(match);
+    if (!transactionId) continue;
+
+    if (needsReview(match)) {
+      await matchStore.addPending(uid, transactionId, match);
+      pendingReview++;
+    } else {
+      await linkMatch(uid, transactionId, match);
+      linkedBillIds.push(match.billId);
+    }
+  }
+  return { linkedBillIds, pendingReview };
+}
+
+/**
+ * Store a statement's transactions, skipping ones already known from an
+ * earlier import or another source, then match those not yet linked to a
+ * bill (at most one transaction per bill) and link or queue the matches.
+ */
+async function importTransactions(uid: string, transactions: SourcedTransaction[]) {
+  const saved = await transactionStore.save(uid, transactions);
+
+  // Get unpaid bills for matching
+  const billsSnapshot = await firestore
+    .collection("users")
+    .doc(uid)
+    .collection("bills")
+    .where("status", "!=", "paid")
+    .get();
+
+  const bills: Bill[] = billsSnapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as Bill[];
+
+  const unlinked = saved.transactions.filter((tx) => !tx.matchedBillId);
+  const billMatcher = await matcherFor(uid);
+  const { matches, runnersUp, unmatched } = billMatcher.assignTransactionsToBills(unlinked, bills);
+
+  const txIds = new Map<Match, string>();
+  for (const tx of unlinked) {
+    const match = findMatch(matches, tx, txIds);
+    if (match) txIds.set(match, tx.id);
+  }
+  const { linkedBillIds, pendingReview } = await applyMatches(uid, matches, txIds);
+
+  return {
+    transactions: saved.transactions,
+    added: saved.added,
+    known: saved.known,
+    matches,
+    runnersUp,
+    unmatched,
+    linkedBillIds,
+    pendingReview,
+  };
+}
+
 // AI-powered bank statement parsing
-app.get("/gmail/statements/analyze", async (req: Request, res: Response) => {
-  const uid = req.query.uid as string;
+app.get("/gmail/statements/analyze", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
 
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
   const tokens = await getValidTokens(uid);
   if (!tokens) {
     return res
@@ -342,16 +618,17 @@ app.get("/gmail/statements/analyze", async (req: Request, res: Response) => {
     }
 
     // Parse emails
+    const pdfPasswords = await pdfPasswordStore.passwords(uid);
     const emails = await Promise.all(
-      messages.map((msg) => EmailParser.parse(gmail, msg))
+      messages.map((msg) => EmailParser.parse(gmail, msg, { ocr, pdfPasswords }))
     );
 
     // Analyze statements with Gemini
-    const statementAnalyzer = new StatementAnalyzer();
+    const statementAnalyzer = new StatementAnalyzer(llm);
     const results = await statementAnalyzer.analyzeBatch(emails, 3);
 
     // Collect all transactions
-    const allTransactions: (Transaction & { sourceEmailId: string; sourceEmailDate: string })[] = [];
+    const allTransactions: SourcedTransaction[] = [];
     for (const result of results) {
       for (const tx of result.transactions) {
         allTransactions.push({
@@ -362,68 +639,21 @@ app.get("/gmail/statements/analyze", async (req: Request, res: Response) => {
       }
     }
 
-    // Get unpaid bills for matching
-    const billsSnapshot = await firestore
-      .collection("users")
-      .doc(uid)
-      .collection("bills")
-      .where("status", "!=", "paid")
-      .get();
-
-    const bills: Bill[] = billsSnapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    })) as Bill[];
-
-    // Match transactions to bills
-    const billMatcher = new BillMatcher();
-    const matches = billMatcher.matchTransactionsToBills(allTransactions, bills);
-
-    // Store transactions in Firestore
-    const batch = firestore.batch();
-    for (const tx of allTransactions) {
-      const txId = `${tx.sourceEmailId}_${tx.date}_${tx.amount}`;
-      const txRef = firestore
-        .collection("users")
-        .doc(uid)
-        .collection("transactions")
-        .doc(txId);
-
-      // Check if this transaction matches a bill
-      const match = matches.find(
-        (m) => m.transactionDate === tx.date && m.transactionAmount === tx.amount
-      );
-
-      batch.set(txRef, {
-        ...tx,
-        id: txId,
-        matchedBillId: match?.billId || null,
-        createdAt: Date.now(),
-      }, { merge: true });
-    }
-    await batch.commit();
-
-    // Auto-mark matched bills as paid
-    for (const match of matches) {
-      if (match.confidence >= 70) {
-        await firestore
-          .collection("users")
-          .doc(uid)
-          .collection("bills")
-          .doc(match.billId)
-          .update({
-            status: "paid",
-            paidDate: match.transactionDate,
-            matchedTransactionId: `${match.transactionDate}_${match.transactionAmount}`,
-            updatedAt: Date.now(),
-          });
-      }
-    }
+    const imported = await importTransactions(uid, allTransactions);
 
     res.json({
-      transactions: allTransactions,
-      matches,
+      transactions: imported.transactions,
+      // Each match carries a score breakdown and the candidates it beat
+      matches: imported.matches,
+      runnersUp: imported.runnersUp,
+      unmatched: imported.unmatched,
+      pendingReview: imported.pendingReview,
+      newTransactions: imported.added,
+      knownTransactions: imported.known,
+      message: `${imported.added} new, ${imported.known} already known`,
       emailsProcessed: emails.length,
+      // Statements in PDFs none of the saved passwords open, rather than statements with no transactions
+      lockedDocuments: emails.filter((email) => email.lockedPdfs.length > 0).map(lockedDocument),
     });
   } catch (err) {
     console.error("Statement analysis error:", err);
@@ -431,146 +661,480 @@ app.get("/gmail/statements/analyze", async (req: Request, res: Response) => {
   }
 });
 
-// Upload PDF bank statement for analysis
+/** PDF or image, going by the reported type; null for anything else */
+function documentFormat(file: Express.Multer.File): "pdf" | "image" | null {
+  if (file.mimetype === "application/pdf") return "pdf";
+  return isImageType(file.mimetype) ? "image" : null;
+}
+
+/** Why an uploaded PDF or image can't be read, checking its first bytes against its type */
+function invalidDocument(file: Express.Multer.File, format: "pdf" | "image"): string | null {
+  if (format === "pdf") {
+    return file.buffer.subarray(0, 5).toString("ascii").startsWith("%PDF-") ? null : "Invalid PDF file";
+  }
+  return sniffImageType(file.buffer) ? null : "Invalid image file";
+}
+
+/**
+ * Text of an uploaded PDF (OCRing scanned pages) or image; empty when there's
+ * nothing to read. Throws LockedPdfError when none of `passwords` opens the PDF.
+ */
+async function documentText(
+  file: Express.Multer.File,
+  format: "pdf" | "image",
+  passwords: string[] = []
+): Promise<string> {
+  if (format === "pdf") return extractPdfText(file.buffer, ocr, passwords);
+  return ocr ? ocr.recognize(file.buffer) : "";
+}
+
+/**
+ * Passwords to try on an uploaded PDF: the one sent with it (the optional
+ * `password` form field) first, then every saved one, since an upload has no
+ * sender to pick them by.
+ */
+async function uploadPasswords(uid: string, password: unknown): Promise<string[]> {
+  const saved = (await pdfPasswordStore.passwords(uid)).map((s) => s.password);
+  return [...new Set([...(typeof password === "string" && password ? [password] : []), ...saved])];
+}
+
+function lockedMessage(password: unknown): string {
+  return password
+    ? "That password didn't unlock the PDF"
+    : "This PDF is password protected. Upload it again with its password.";
+}
+
+/** An email with PDFs that stayed locked, for the client to prompt for a password */
+function lockedDocument(email: Email) {
+  return { emailId: email.id, subject: email.subject, from: email.from, files: email.lockedPdfs };
+}
+
+// Upload a bank statement: PDFs and photos are analyzed with the LLM, CSV/OFX/QIF exports are parsed directly
 app.post(
   "/statements/upload",
+  authenticate,
   upload.single("file"),
   async (req: Request, res: Response) => {
-    const uid = req.query.uid as string;
+    const uid = req.uid!;
 
-    if (!uid) return res.status(400).json({ error: "Missing uid" });
-    if (!isValidUid(uid)) return res.status(400).json({ error: "Invalid uid format" });
     if (!req.file) return res.status(400).json({ error: "No file uploaded" });
 
-    // Validate PDF magic number (%PDF-)
-    const pdfMagic = req.file.buffer.subarray(0, 5).toString("ascii");
-    if (!pdfMagic.startsWith("%PDF-")) {
-      return res.status(400).json({ error: "Invalid PDF file" });
-    }
+    const format = documentFormat(req.file) ?? detectStatementFormat(req.file.originalname, req.file.buffer);
+    if (!format) return res.status(400).json({ error: UNSUPPORTED_FILE });
+
+    // Check the PDF or image's magic number
+    const invalid = format === "pdf" || format === "image" ? invalidDocument(req.file, format) : null;
+    if (invalid) return res.status(400).json({ error: invalid });
 
     try {
-      // Extract text from PDF
-      const parser = new PDFParse({ data: new Uint8Array(req.file.buffer) });
-      const pdfData = await parser.getText();
-      const pdfText = pdfData.text;
+      const uploadId = `upload_${crypto.randomUUID()}`;
+      const statementDoc = { id: uploadId, date: new Date().toISOString() };
+      let transactions: Transaction[];
 
-      if (!pdfText || pdfText.trim().length === 0) {
-        return res.status(400).json({ error: "Could not extract text from PDF" });
-      }
+      if (format === "pdf" || format === "image") {
+        // Extract text from the PDF, or read the photo or scan
+        const pdfText = await documentText(req.file, format, await uploadPasswords(uid, req.body.password));
 
-      // Create an Email-like object for the analyzer
-      const uploadId = `upload_${crypto.randomUUID()}`;
-      const statementDoc = new Email({
-        id: uploadId,
-        subject: req.file.originalname,
-        from: "PDF Upload",
-        date: new Date().toISOString(),
-        body: "",
-        pdfText: pdfText,
-      });
+        if (!pdfText || pdfText.trim().length === 0) {
+          return res.status(400).json({ error: `Could not extract text from ${format === "pdf" ? "PDF" : "image"}` });
+        }
 
-      // Analyze with Gemini
-      const statementAnalyzer = new StatementAnalyzer();
-      const transactions = await statementAnalyzer.analyze(statementDoc);
+        // Analyze with Gemini, via an Email-like object
+        const statementAnalyzer = new StatementAnalyzer(llm);
+        transactions = await statementAnalyzer.analyze(
+          new Email({
+            id: uploadId,
+            subject: req.file.originalname,
+            from: format === "pdf" ? "PDF Upload" : "Image Upload",
+            date: statementDoc.date,
+            body: "",
+            pdfText: pdfText,
+          })
+        );
+      } else {
+        // Optional form fields: bank=<preset> or mapping=<JSON column mapping> for CSVs
+        let mapping: CsvMapping | undefined;
+        if (req.body.mapping) {
+          let raw: unknown;
+          try {
+            raw = JSON.parse(req.body.mapping);
+          } catch {
+            return res.status(400).json({ error: "CSV mapping is not valid JSON" });
+          }
+          mapping = validateCsvMapping(raw);
+        }
+        transactions = importStatement(format, req.file.buffer, {
+          bank: req.body.bank || undefined,
+          mapping,
+          dateOrder: req.body.dateOrder === "MDY" ? "MDY" : undefined,
+        });
+      }
 
       if (transactions.length === 0) {
         return res.json({
           transactions: [],
           matches: [],
-          message: "No transactions found in PDF",
+          format,
+          message: `No transactions found in ${format.toUpperCase()}`,
         });
       }
 
-      // Get unpaid bills for matching
-      const billsSnapshot = await firestore
-        .collection("users")
-        .doc(uid)
-        .collection("bills")
-        .where("status", "!=", "paid")
-        .get();
-
-      const bills: Bill[] = billsSnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Bill[];
-
-      // Match transactions to bills
-      const billMatcher = new BillMatcher();
-      const allTransactions = transactions.map((tx) => ({
-        ...tx,
-        sourceEmailId: statementDoc.id,
-        sourceEmailDate: statementDoc.date,
-      }));
-      const matches = billMatcher.matchTransactionsToBills(allTransactions, bills);
-
-      // Store transactions in Firestore
-      const batch = firestore.batch();
-      for (const tx of allTransactions) {
-        // Use UUID to avoid collisions when same date/amount appears multiple times
-        const txId = crypto.randomUUID();
-        const txRef = firestore
-          .collection("users")
-          .doc(uid)
-          .collection("transactions")
-          .doc(txId);
-
-        const match = matches.find(
-          (m) => m.transactionDate === tx.date && m.transactionAmount === tx.amount
-        );
-
-        batch.set(
-          txRef,
-          {
-            ...tx,
-            id: txId,
-            matchedBillId: match?.billId || null,
-            createdAt: Date.now(),
-          },
-          { merge: true }
+      // Optional form field: the account the statement is for, when the file doesn't say
+      const account = typeof req.body.account === "string" ? req.body.account.trim() : "";
+      const imported = await importTransactions(
+        uid,
+        transactions.map((tx) => ({
+          ...tx,
+          ...(account && !tx.account && { account }),
+          sourceEmailId: statementDoc.id,
+          sourceEmailDate: statementDoc.date,
+        }))
+      );
+      if (imported.linkedBillIds.length > 0) {
+        console.log(
+          `Auto-linked payments to ${imported.linkedBillIds.length} bills for user ${uid}:`,
+          imported.linkedBillIds
         );
       }
-      await batch.commit();
-
-      // Auto-mark matched bills as paid (confidence >= 70%)
-      const autoMarkedBills: string[] = [];
-      for (const match of matches) {
-        if (match.confidence >= 70) {
-          await firestore
-            .collection("users")
-            .doc(uid)
-            .collection("bills")
-            .doc(match.billId)
-            .update({
-              status: "paid",
-              paidDate: match.transactionDate,
-              matchedTransactionId: `${match.transactionDate}_${match.transactionAmount}`,
-              autoMatched: true,
-              matchConfidence: match.confidence,
-              updatedAt: Date.now(),
-            });
-          autoMarkedBills.push(match.billId);
-        }
-      }
-      if (autoMarkedBills.length > 0) {
-        console.log(`Auto-marked ${autoMarkedBills.length} bills as paid for user ${uid}:`, autoMarkedBills);
-      }
 
       res.json({
-        transactions: allTransactions,
-        matches,
+        transactions: imported.transactions,
+        matches: imported.matches,
+        runnersUp: imported.runnersUp,
+        unmatched: imported.unmatched,
+        pendingReview: imported.pendingReview,
+        newTransactions: imported.added,
+        knownTransactions: imported.known,
+        message: `${imported.added} new, ${imported.known} already known`,
         filename: req.file.originalname,
+        format,
       });
     } catch (err) {
-      console.error("PDF upload error:", err);
-      res.status(500).json({ error: "Failed to process PDF", details: String(err) });
+      if (err instanceof StatementImportError) {
+        return res.status(400).json({ error: err.message });
+      }
+      if (err instanceof LockedPdfError) {
+        return res.status(400).json({ error: lockedMessage(req.body.password), locked: true });
+      }
+      console.error("Statement upload error:", err);
+      res.status(500).json({ error: `Failed to process ${format.toUpperCase()}`, details: String(err) });
     }
   }
 );
 
+/**
+ * Confirm that a transaction paid a bill. Confirming the suggested bill or
+ * picking a different one both teach the user's alias table, so the next
+ * statement with the same description matches without help.
+ */
+app.post("/matches/confirm", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+  const { transactionId, billId } = req.body;
+
+  if (typeof transactionId !== "string" || typeof billId !== "string") {
+    return res.status(400).json({ error: "transactionId and billId are required" });
+  }
+
+  try {
+    const userRef = firestore.collection("users").doc(uid);
+    const [txSnapshot, billSnapshot] = await Promise.all([
+      userRef.collection("transactions").doc(transactionId).get(),
+      userRef.collection("bills").doc(billId).get(),
+    ]);
+    if (!txSnapshot.exists) return res.status(404).json({ error: "Transaction not found" });
+    if (!billSnapshot.exists) return res.status(404).json({ error: "Bill not found" });
+
+    const tx = txSnapshot.data() as Transaction & { matchedBillId?: string | null };
+    const bill = billSnapshot.data() as StoredBill;
+
+    // The matcher suggested another bill: take the payment off it first
+    let wrongBill: StoredBill | null = null;
+    if (tx.matchedBillId && tx.matchedBillId !== billId) {
+      wrongBill = await billStore.removePayment(uid, tx.matchedBillId, transactionId);
+    }
+
+    const updated = await billStore.recordPayment(uid, billId, {
+      transactionId,
+      date: tx.date,
+      description: tx.description,
+      amount: tx.amount,
+      confidence: null,
+    });
+    await txSnapshot.ref.update({ matchedBillId: billId });
+    // Linking by hand overrides an earlier rejection of the same pair, and settles any review
+    await matchStore.unreject(uid, billId, tx);
+    await matchStore.removePendingFor(uid, transactionId);
+
+    const alias = bill.company
+      ? await aliasStore.learn(uid, tx.description, bill.company, wrongBill ? "corrected" : "confirmed", wrongBill?.company)
+      : null;
+
+    res.json({ bill: updated, alias });
+  } catch (err) {
+    console.error("Error confirming match:", err);
+    res.status(500).json({ error: "Failed to confirm match" });
+  }
+});
+
+// Medium-confidence matches waiting for the user, best first
+app.get("/matches/pending", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    res.json({ pending: await matchStore.listPending(uid) });
+  } catch (err) {
+    console.error("Error fetching pending matches:", err);
+    res.status(500).json({ error: "Failed to fetch pending matches" });
+  }
+});
+
+// Accept a suggestion: linked exactly as if it had been auto-matched
+app.post("/matches/pending/:pendingId/accept", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    const pending = await matchStore.getPending(uid, req.params.pendingId);
+    if (!pending) return res.status(404).json({ error: "Pending match not found" });
+
+    // The suggestion may have been overtaken since it was queued; linking it anyway would pay the bill twice
+    const userRef = firestore.collection("users").doc(uid);
+    const [billSnapshot, txSnapshot] = await Promise.all([
+      userRef.collection("bills").doc(pending.billId).get(),
+      userRef.collection("transactions").doc(pending.transactionId).get(),
+    ]);
+    const tx = txSnapshot.data() as StoredTransaction | undefined;
+    const stale = staleSuggestion(billSnapshot.data() as StoredBill | undefined, tx);
+    if (stale) {
+      await matchStore.removePending(uid, pending.id);
+      return res.status(409).json({ error: stale });
+    }
+
+    const bill = await linkMatch(uid, pending.transactionId, pending.match);
+    await matchStore.removePending(uid, pending.id);
+
+    // Accepting a suggestion confirms the match, so it teaches the alias table like /matches/confirm
+    const alias = bill?.company ? await aliasStore.learn(uid, tx!.description, bill.company, "confirmed") : null;
+
+    res.json({ bill, alias });
+  } catch (err) {
+    console.error("Error accepting match:", err);
+    res.status(500).json({ error: "Failed to accept match" });
+  }
+});
+
+// Reject a suggestion; the pair is never proposed again
+app.post("/matches/pending/:pendingId/reject", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    const pending = await matchStore.getPending(uid, req.params.pendingId);
+    if (!pending) return res.status(404).json({ error: "Pending match not found" });
+
+    const rejection = await matchStore.reject(uid, pending.billId, pending.transactionId, {
+      date: pending.match.transactionDate,
+      amount: pending.match.transactionAmount,
+      description: pending.match.transactionDescription,
+    });
+
+    res.json({ rejection });
+  } catch (err) {
+    console.error("Error rejecting pending match:", err);
+    res.status(500).json({ error: "Failed to reject match" });
+  }
+});
+
+// Undo a match: the bill goes back to the status it had before the payment
+app.post("/matches/unlink", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+  const { transactionId } = req.body;
+
+  if (typeof transactionId !== "string") {
+    return res.status(400).json({ error: "transactionId is required" });
+  }
+
+  try {
+    const txRef = firestore.collection("users").doc(uid).collection("transactions").doc(transactionId);
+    const txSnapshot = await txRef.get();
+    if (!txSnapshot.exists) return res.status(404).json({ error: "Transaction not found" });
+
+    const { matchedBillId } = txSnapshot.data() as { matchedBillId?: string | null };
+    if (!matchedBillId) return res.status(409).json({ error: "Transaction isn't linked to a bill" });
+
+    const bill = await billStore.removePayment(uid, matchedBillId, transactionId);
+    await txRef.update({ matchedBillId: null });
+
+    res.json({ bill });
+  } catch (err) {
+    console.error("Error unlinking match:", err);
+    res.status(500).json({ error: "Failed to unlink match" });
+  }
+});
+
+/**
+ * Reject a suggested match so the matcher never proposes the pair again.
+ * If the transaction was already linked to the bill, it's unlinked too.
+ */
+app.post("/matches/reject", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+  const { transactionId, billId } = req.body;
+
+  if (typeof transactionId !== "string" || typeof billId !== "string") {
+    return res.status(400).json({ error: "transactionId and billId are required" });
+  }
+
+  try {
+    const txRef = firestore.collection("users").doc(uid).collection("transactions").doc(transactionId);
+    const txSnapshot = await txRef.get();
+    if (!txSnapshot.exists) return res.status(404).json({ error: "Transaction not found" });
+    const tx = txSnapshot.data() as Transaction & { matchedBillId?: string | null };
+
+    const rejection = await matchStore.reject(uid, billId, transactionId, tx);
+
+    let bill: StoredBill | null = null;
+    if (tx.matchedBillId === billId) {
+      bill = await billStore.removePayment(uid, billId, transactionId);
+      await txRef.update({ matchedBillId: null });
+    }
+
+    res.json({ rejection, bill });
+  } catch (err) {
+    console.error("Error rejecting match:", err);
+    res.status(500).json({ error: "Failed to reject match" });
+  }
+});
+
+// The user's merchant aliases, seeded with the built-in ones on first use
+app.get("/aliases", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    res.json({ aliases: await aliasStore.list(uid) });
+  } catch (err) {
+    console.error("Error fetching aliases:", err);
+    res.status(500).json({ error: "Failed to fetch aliases" });
+  }
+});
+
+app.delete("/aliases/:aliasId", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    await aliasStore.delete(uid, req.params.aliasId);
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Error deleting alias:", err);
+    res.status(500).json({ error: "Failed to delete alias" });
+  }
+});
+
+// Saved PDF passwords, by sender; the passwords themselves are never sent back
+app.get("/pdf-passwords", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    res.json({ passwords: await pdfPasswordStore.list(uid) });
+  } catch (err) {
+    console.error("Error fetching PDF passwords:", err);
+    res.status(500).json({ error: "Failed to fetch PDF passwords" });
+  }
+});
+
+// Save the password for PDFs from an address or a domain, replacing any saved before
+app.post("/pdf-passwords", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+  const sender = typeof req.body.sender === "string" ? normalizeSender(req.body.sender) : null;
+  const password = typeof req.body.password === "string" ? req.body.password : "";
+
+  if (!sender) return res.status(400).json({ error: "Sender must be an email address or domain" });
+  if (!password) return res.status(400).json({ error: "Password is required" });
+
+  try {
+    res.json({ pdfPassword: await pdfPasswordStore.save(uid, sender, password) });
+  } catch (err) {
+    console.error("Error saving PDF password:", err);
+    res.status(500).json({ error: "Failed to save PDF password" });
+  }
+});
+
+app.delete("/pdf-passwords/:passwordId", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    if (!(await pdfPasswordStore.delete(uid, req.params.passwordId))) {
+      return res.status(404).json({ error: "PDF password not found" });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Error deleting PDF password:", err);
+    res.status(500).json({ error: "Failed to delete PDF password" });
+  }
+});
+
+// The currency totals and charts are shown in
+app.get("/settings/currency", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  try {
+    res.json({ baseCurrency: await fxStore.getBaseCurrency(uid) });
+  } catch (err) {
+    console.error("Error fetching base currency:", err);
+    res.status(500).json({ error: "Failed to fetch base currency" });
+  }
+});
+
+// Change the base currency and re-convert every bill into it
+app.post("/settings/currency", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
+  const baseCurrency = typeof req.body.baseCurrency === "string" ? req.body.baseCurrency.trim().toUpperCase() : "";
+
+  if (!isCurrency(baseCurrency)) {
+    return res.status(400).json({ error: "Unsupported currency" });
+  }
+
+  try {
+    await fxStore.setBaseCurrency(uid, baseCurrency);
+    const converted = await reconvertBills(uid, await fxStore.conversion(uid));
+    res.json({ baseCurrency, converted });
+  } catch (err) {
+    console.error("Error updating base currency:", err);
+    res.status(500).json({ error: "Failed to update base currency" });
+  }
+});
+
+/**
+ * Import FX rates from a CSV: one row per date/from/to/rate, or a date column
+ * and a column per currency with the `base` form field saying what they're
+ * quoted against. Bills are re-converted with the new rates.
+ */
+app.post("/fx/rates", authenticate, upload.single("file"), async (req: Request, res: Response) => {
+  const uid = req.uid!;
+
+  if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+  if (detectStatementFormat(req.file.originalname, req.file.buffer) !== "csv") {
+    return res.status(400).json({ error: "FX rates must be a CSV file" });
+  }
+  const base = typeof req.body.base === "string" ? req.body.base.trim().toUpperCase() : "";
+  if (base && !isCurrency(base)) {
+    return res.status(400).json({ error: "Unsupported base currency" });
+  }
+
+  try {
+    const { rates, skipped } = parseFxCsv(req.file.buffer.toString("utf8"), base || undefined);
+    const imported = await fxStore.importRates(uid, rates);
+    const converted = await reconvertBills(uid, await fxStore.conversion(uid));
+    res.json({ imported, skipped, converted, message: `Imported ${imported} rates` });
+  } catch (err) {
+    if (err instanceof FxImportError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error("FX rate import error:", err);
+    res.status(500).json({ error: "Failed to import FX rates" });
+  }
+});
+
 // Get all transactions for user
-app.get("/transactions", async (req: Request, res: Response) => {
-  const uid = req.query.uid as string;
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
+app.get("/transactions", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
 
   try {
     const transactionsSnapshot = await firestore
@@ -590,19 +1154,16 @@ app.get("/transactions", async (req: Request, res: Response) => {
 });
 
 // Disconnect Gmail - revoke access and delete tokens
-app.post("/gmail/disconnect", async (req: Request, res: Response) => {
-  const uid = req.query.uid as string;
-  if (!uid) return res.status(400).json({ error: "Missing uid" });
+app.post("/gmail/disconnect", authenticate, async (req: Request, res: Response) => {
+  const uid = req.uid!;
 
   try {
     // Get tokens
-    const tokenDoc = await firestore.collection("gmail_tokens").doc(uid).get();
-
-    if (tokenDoc.exists) {
-      const tokens = tokenDoc.data();
+    const tokens = await tokenStore.get(uid);
 
+    if (tokens) {
       // Revoke the token with Google
-      if (tokens?.access_token) {
+      if (tokens.access_token) {
         try {
           await oAuth2Client.revokeToken(tokens.access_token);
           console.log("Token revoked with Google");
@@ -612,7 +1173,7 @@ app.post("/gmail/disconnect", async (req: Request, res: Response) => {
       }
 
       // Delete from Firestore
-      await firestore.collection("gmail_tokens").doc(uid).delete();
+      await tokenStore.delete(uid);
       console.log("Token deleted from Firestore");
     }
 
@@ -631,7 +1192,7 @@ app.use((err: Error, _req: Request, res: Response, _next: express.NextFunction)
     }
     return res.status(400).json({ error: `Upload error: ${err.message}` });
   }
-  if (err.message === "Only PDF files are allowed") {
+  if (err.message === UNSUPPORTED_FILE) {
     return res.status(400).json({ error: err.message });
   }
   console.error("Unhandled error:", err);
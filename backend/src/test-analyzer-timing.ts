@@ -1,6 +1,7 @@
 import dotenv from "dotenv";
 import { BillAnalyzer } from "./BillAnalyzer.js";
 import { Email } from "./Email.js";
+import { createLLMProvider } from "./LLMProvider.js";
 
 // Load environment variables
 dotenv.config();
@@ -36,7 +37,9 @@ Thank you for choosing PowerCorp Electric.
   console.log(`  Subject: ${testEmail.subject}`);
   console.log(`  Date: ${testEmail.date}\n`);
 
-  const analyzer = new BillAnalyzer();
+  const llm = createLLMProvider();
+  console.log(`Provider: ${llm.name}\n`);
+  const analyzer = new BillAnalyzer(llm);
 
   // Time the analyze function
   const startTime = performance.now();
@@ -9,26 +9,38 @@ import {
 import { doc, getDoc } from "firebase/firestore";
 import { auth, googleProvider, db } from "./firebase";
 import Dashboard from "./Dashboard";
+import { amountDue, awaitingFxRate, Bill, BillAlert, CURRENCIES, ExpectedBill, PendingMatch } from "./types";
 
 const BACKEND_URL =
   process.env.NODE_ENV === "development"
     ? "http://localhost:8080"
     : "https://debt-dashboard-backend-249385029848.asia-northeast3.run.app";
 
-interface Bill {
-  id: string;
-  emailSubject: string;
-  emailFrom: string;
-  emailDate: string;
-  isBill: boolean;
-  company: string | null;
-  amount: number | null;
-  currency: string | null;
-  dueDate: string | null;
-  billType: string | null;
-  status: string;
-  confidence: number;
-}
+// Calls the backend with the user's Firebase ID token
+const authFetch = async (user: User, path: string, init: RequestInit = {}) => {
+  const idToken = await user.getIdToken();
+  return fetch(`${BACKEND_URL}${path}`, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${idToken}` },
+  });
+};
+
+// Password-protected PDFs come back locked: ask for the password and send the file again
+const uploadDocument = async (user: User, path: string, file: File) => {
+  let password: string | null = null;
+  for (;;) {
+    const formData = new FormData();
+    formData.append("file", file);
+    if (password) formData.append("password", password);
+    const res = await authFetch(user, path, { method: "POST", body: formData });
+    if (res.status !== 400 || !res.headers.get("content-type")?.includes("application/json")) return res;
+
+    const data = await res.clone().json();
+    if (!data.locked) return res;
+    password = window.prompt(`${data.error}\n\nPassword for ${file.name}:`);
+    if (!password) return res;
+  }
+};
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
@@ -44,6 +56,10 @@ function App() {
     subject?: string;
   } | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [pendingMatches, setPendingMatches] = useState<PendingMatch[]>([]);
+  const [expectedBills, setExpectedBills] = useState<ExpectedBill[]>([]);
+  const [alerts, setAlerts] = useState<BillAlert[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState("AUD");
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
@@ -52,7 +68,9 @@ function App() {
         const tokenDoc = await getDoc(doc(db, "gmail_tokens", user.uid));
         setGmailConnected(tokenDoc.exists());
         if (tokenDoc.exists()) {
-          loadSavedBills(user.uid);
+          loadSavedBills(user);
+          loadPendingMatches(user);
+          loadAlerts(user);
         }
       }
       setLoading(false);
@@ -72,13 +90,18 @@ function App() {
     await signOut(auth);
     setGmailConnected(false);
     setBills([]);
+    setPendingMatches([]);
+    setExpectedBills([]);
+    setAlerts([]);
   };
 
   // Safe OAuth popup handling
-  const connectGmail = () => {
+  const connectGmail = async () => {
     if (!user) return;
+    // Popups can't send headers, so the ID token goes in the query string
+    const idToken = await user.getIdToken();
     const popup = window.open(
-      `${BACKEND_URL}/gmail/auth?uid=${user.uid}`,
+      `${BACKEND_URL}/gmail/auth?token=${encodeURIComponent(idToken)}`,
       "oauth",
       "width=500,height=600"
     );
@@ -110,9 +133,7 @@ function App() {
     if (!window.confirm("Are you sure you want to disconnect Gmail?")) return;
 
     try {
-      await fetch(`${BACKEND_URL}/gmail/disconnect?uid=${user.uid}`, {
-        method: "POST",
-      });
+      await authFetch(user, "/gmail/disconnect", { method: "POST" });
       setGmailConnected(false);
       setBills([]);
     } catch (err) {
@@ -120,28 +141,79 @@ function App() {
     }
   };
 
-  const loadSavedBills = async (uid: string) => {
+  const loadSavedBills = async (user: User) => {
     try {
-      const res = await fetch(`${BACKEND_URL}/bills?uid=${uid}`);
+      const res = await authFetch(user, "/bills");
       const data = await res.json();
       if (data.bills?.length > 0) {
         setBills(data.bills);
       }
+      setExpectedBills(data.expected || []);
+      if (data.baseCurrency) setBaseCurrency(data.baseCurrency);
     } catch (err) {
       console.error("Error loading saved bills:", err);
     }
   };
 
+  const loadPendingMatches = async (user: User) => {
+    try {
+      const res = await authFetch(user, "/matches/pending");
+      const data = await res.json();
+      setPendingMatches(data.pending || []);
+    } catch (err) {
+      console.error("Error loading pending matches:", err);
+    }
+  };
+
+  const loadAlerts = async (user: User) => {
+    try {
+      const res = await authFetch(user, "/alerts");
+      const data = await res.json();
+      setAlerts(data.alerts || []);
+    } catch (err) {
+      console.error("Error loading alerts:", err);
+    }
+  };
+
+  // Accepting links the payment just like an auto-match; rejecting hides the pair for good
+  const resolvePendingMatch = async (pendingId: string, action: "accept" | "reject") => {
+    if (!user) return;
+
+    try {
+      const res = await authFetch(user, `/matches/pending/${pendingId}/${action}`, { method: "POST" });
+      // 409: the suggestion went stale (bill paid or deleted, transaction linked elsewhere) and was dropped
+      if (res.status === 409) {
+        setPendingMatches(pendingMatches.filter((p) => p.id !== pendingId));
+        setProgress({ message: `❌ ${(await res.json()).error}` });
+        setTimeout(() => setProgress(null), 3000);
+        await loadSavedBills(user);
+        return;
+      }
+      if (!res.ok) throw new Error(`Failed to ${action} match`);
+
+      setPendingMatches(pendingMatches.filter((p) => p.id !== pendingId));
+      if (action === "accept") {
+        await loadSavedBills(user);
+      }
+    } catch (err) {
+      console.error("Error resolving pending match:", err);
+    }
+  };
+
   const analyzeBills = async () => {
     if (!user) return;
     setAnalyzing(true);
     setNeedsReauth(false);
     const foundBills: Bill[] = [];
+    // Emails whose PDFs none of the saved passwords opened
+    const lockedEmails: string[] = [];
     let receivedData = false; // Track if we got any data from the stream
 
     try {
+      // EventSource can't set headers, so the ID token goes in the query string
+      const idToken = await user.getIdToken();
       const eventSource = new EventSource(
-        `${BACKEND_URL}/gmail/bills/analyze?uid=${user.uid}`
+        `${BACKEND_URL}/gmail/bills/analyze?token=${encodeURIComponent(idToken)}`
       );
 
       // Listen for progress events
@@ -180,15 +252,33 @@ function App() {
         setBills([...foundBills]); // Update bills in real-time
       });
 
-      eventSource.onerror = () => {
+      // Price alerts raised by newly stored bills
+      eventSource.addEventListener("alert", (event: MessageEvent) => {
+        const alert: BillAlert = JSON.parse(event.data);
+        setAlerts((current) => [alert, ...current.filter((a) => a.id !== alert.id)]);
+      });
+
+      eventSource.addEventListener("locked", (event: MessageEvent) => {
+        const { subject, from } = JSON.parse(event.data);
+        lockedEmails.push(subject || from);
+      });
+
+      eventSource.onerror = (event: Event) => {
         // EventSource fires onerror when stream ends - this is normal for SSE
-        // Only treat as error if we never received any data
-        if (receivedData) {
+        // Only treat as error if we never received any data, or the server sent an error event
+        if (event instanceof MessageEvent && event.data) {
+          const { error } = JSON.parse(event.data);
+          setProgress({ message: `❌ ${error}. Please try again.` });
+          setTimeout(() => setProgress(null), 3000);
+        } else if (receivedData) {
           // Stream completed successfully
+          const locked = lockedEmails.length
+            ? ` (${lockedEmails.length} password-protected PDFs skipped: ${lockedEmails.join(", ")})`
+            : "";
           setProgress({
-            message: `✓ Complete! Found ${foundBills.length} bills`,
+            message: `✓ Complete! Found ${foundBills.length} bills${locked}`,
           });
-          setTimeout(() => setProgress(null), 2000);
+          setTimeout(() => setProgress(null), locked ? 6000 : 2000);
         } else {
           // Connection failed before receiving data
           console.error("Failed to connect to analysis stream");
@@ -220,21 +310,14 @@ function App() {
   const uploadStatement = async (file: File) => {
     if (!user) return;
     setUploading(true);
-    setProgress({ message: "📄 Uploading PDF..." });
+    setProgress({ message: "📄 Uploading statement..." });
 
     try {
-      const formData = new FormData();
-      formData.append("file", file);
+      // CSV/OFX/QIF exports are parsed directly; only PDFs and photos go through the AI
+      const isDocument = /\.(pdf|jpe?g|png|tiff?)$/i.test(file.name);
+      setProgress({ message: isDocument ? "🤖 Analyzing statement with AI..." : "📊 Importing transactions..." });
 
-      setProgress({ message: "🤖 Analyzing statement with AI..." });
-
-      const res = await fetch(
-        `${BACKEND_URL}/statements/upload?uid=${user.uid}`,
-        {
-          method: "POST",
-          body: formData,
-        }
-      );
+      const res = await uploadDocument(user, "/statements/upload", file);
 
       // Handle non-JSON responses (e.g., gateway errors)
       const contentType = res.headers.get("content-type");
@@ -248,14 +331,22 @@ function App() {
         throw new Error(data.error || "Upload failed");
       }
 
-      const { transactions, matches } = data;
+      const { transactions, matches, pendingReview, newTransactions, knownTransactions } = data;
+      // Re-uploading a statement only stores what's new
+      const found =
+        knownTransactions > 0
+          ? `${newTransactions} new, ${knownTransactions} already known`
+          : `Found ${transactions.length} transactions`;
       setProgress({
-        message: `✓ Found ${transactions.length} transactions, ${matches.length} matched to bills`,
+        message: `✓ ${found}, ${matches.length} matched to bills${
+          pendingReview ? ` (${pendingReview} to review)` : ""
+        }`,
       });
 
       // Reload bills to reflect any auto-paid updates
       if (matches.length > 0) {
-        await loadSavedBills(user.uid);
+        await loadSavedBills(user);
+        await loadPendingMatches(user);
       }
 
       setTimeout(() => setProgress(null), 3000);
@@ -268,6 +359,82 @@ function App() {
     }
   };
 
+  // A PDF, or a photo or scan of a paper bill, analyzed like an emailed one
+  const uploadBill = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user) return;
+    if (file.size > 10 * 1024 * 1024) {
+      setProgress({ message: "❌ File too large. Maximum size is 10MB." });
+      setTimeout(() => setProgress(null), 3000);
+      return;
+    }
+    setUploading(true);
+    setProgress({ message: "🤖 Reading bill with AI..." });
+
+    try {
+      const res = await uploadDocument(user, "/bills/upload", file);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Upload failed");
+
+      const { bill } = data;
+      setProgress({ message: `✓ Added ${bill.company || "bill"}: ${formatCurrency(bill.amount, bill.currency)}` });
+      await loadSavedBills(user);
+      if (data.alerts?.length) await loadAlerts(user);
+    } catch (err) {
+      console.error("Bill upload error:", err);
+      setProgress({ message: `❌ ${err instanceof Error ? err.message : "Upload failed"}` });
+    } finally {
+      setTimeout(() => setProgress(null), 3000);
+      setUploading(false);
+    }
+  };
+
+  // Totals are shown in the base currency; every bill is re-converted into it
+  const changeBaseCurrency = async (currency: string) => {
+    if (!user) return;
+    try {
+      const res = await authFetch(user, "/settings/currency", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ baseCurrency: currency }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to change currency");
+      setBaseCurrency(currency);
+      await loadSavedBills(user);
+    } catch (err) {
+      console.error("Error changing base currency:", err);
+    }
+  };
+
+  const importFxRates = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user) return;
+    setUploading(true);
+    setProgress({ message: "💱 Importing FX rates..." });
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      // Only used by files with a column per currency
+      formData.append("base", baseCurrency);
+      const res = await authFetch(user, "/fx/rates", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Import failed");
+
+      const skipped = data.skipped?.length ? `, ${data.skipped.length} rows skipped` : "";
+      setProgress({ message: `✓ ${data.message}${skipped}` });
+      if (data.converted > 0) await loadSavedBills(user);
+    } catch (err) {
+      console.error("FX import error:", err);
+      setProgress({ message: `❌ ${err instanceof Error ? err.message : "Import failed"}` });
+    } finally {
+      setTimeout(() => setProgress(null), 3000);
+      setUploading(false);
+    }
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -288,15 +455,16 @@ function App() {
     const newStatus = currentStatus === "paid" ? "unpaid" : "paid";
 
     try {
-      await fetch(`${BACKEND_URL}/bills/${billId}/status?uid=${user.uid}`, {
+      const res = await authFetch(user, `/bills/${billId}/status`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ status: newStatus }),
       });
+      if (!res.ok) throw new Error("Failed to update bill");
+      // Payments and what's left change with the status, so take the server's copy
+      const { bill } = await res.json();
 
-      setBills(
-        bills.map((b) => (b.id === billId ? { ...b, status: newStatus } : b))
-      );
+      setBills(bills.map((b) => (b.id === billId ? { ...b, ...bill } : b)));
     } catch (err) {
       console.error("Error updating bill:", err);
     }
@@ -332,7 +500,9 @@ function App() {
 
   const unpaidBills = bills.filter((b) => b.status !== "paid");
   const paidBills = bills.filter((b) => b.status === "paid");
-  const totalDue = unpaidBills.reduce((sum, b) => sum + (b.amount || 0), 0);
+  // remaining is already in the base currency; foreign bills with no FX rate yet are counted separately
+  const totalDue = unpaidBills.reduce((sum, b) => sum + (amountDue(b) ?? 0), 0);
+  const unconverted = unpaidBills.filter(awaitingFxRate).length;
 
   if (loading) return <div className="container">Loading...</div>;
 
@@ -377,12 +547,45 @@ function App() {
                     {uploading ? "Uploading..." : "📄 Upload Statement"}
                     <input
                       type="file"
-                      accept=".pdf"
+                      accept=".pdf,.csv,.ofx,.qfx,.qif,.jpg,.jpeg,.png,.tif,.tiff"
                       onChange={handleFileSelect}
                       disabled={uploading || analyzing}
                       hidden
                     />
                   </label>
+                  <label className="btn primary upload-btn">
+                    📷 Upload Bill
+                    <input
+                      type="file"
+                      accept=".pdf,.jpg,.jpeg,.png,.tif,.tiff"
+                      onChange={uploadBill}
+                      disabled={uploading || analyzing}
+                      hidden
+                    />
+                  </label>
+                  <label className="btn secondary upload-btn">
+                    💱 Import FX Rates
+                    <input
+                      type="file"
+                      accept=".csv"
+                      onChange={importFxRates}
+                      disabled={uploading || analyzing}
+                      hidden
+                    />
+                  </label>
+                  <select
+                    className="currency-select"
+                    value={baseCurrency}
+                    onChange={(e) => changeBaseCurrency(e.target.value)}
+                    disabled={uploading || analyzing}
+                    title="Currency totals and charts are shown in"
+                  >
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
                   <button
                     onClick={disconnectGmail}
                     className="btn secondary disconnect-btn"
@@ -413,6 +616,51 @@ function App() {
                 </div>
               )}
 
+              {pendingMatches.length > 0 && (
+                <div className="review-panel">
+                  <h2>Review Matches</h2>
+                  {pendingMatches.map((pending) => (
+                    <div key={pending.id} className="review-card">
+                      <div className="review-pair">
+                        <div className="review-side">
+                          <span className="review-label">Bill</span>
+                          <span className="review-title">
+                            {pending.match.billCompany || "Unknown"}
+                          </span>
+                          <span>{formatCurrency(pending.match.billAmount, null)}</span>
+                          <span>Due: {formatDate(pending.match.billDueDate)}</span>
+                        </div>
+                        <div className="review-side">
+                          <span className="review-label">Transaction</span>
+                          <span className="review-title">
+                            {pending.match.transactionDescription}
+                          </span>
+                          <span>{formatCurrency(pending.match.transactionAmount, null)}</span>
+                          <span>Paid: {formatDate(pending.match.transactionDate)}</span>
+                        </div>
+                      </div>
+                      <p className="review-explanation">
+                        {pending.confidence}% match: {pending.match.breakdown.explanation}
+                      </p>
+                      <div className="review-actions">
+                        <button
+                          onClick={() => resolvePendingMatch(pending.id, "accept")}
+                          className="btn small success"
+                        >
+                          ✓ Accept
+                        </button>
+                        <button
+                          onClick={() => resolvePendingMatch(pending.id, "reject")}
+                          className="btn small secondary"
+                        >
+                          ✗ Not this bill
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {bills.length > 0 && (
                 <>
                   <div className="summary">
@@ -425,8 +673,13 @@ function App() {
                     <div className="summary-card">
                       <span className="summary-label">Total Due</span>
                       <span className="summary-value">
-                        ${totalDue.toFixed(2)}
+                        {formatCurrency(totalDue, baseCurrency)}
                       </span>
+                      {unconverted > 0 && (
+                        <span className="summary-note">
+                          + {unconverted} {unconverted === 1 ? "bill" : "bills"} awaiting FX rate
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -446,13 +699,35 @@ function App() {
                               {bill.company || "Unknown"}
                             </span>
                             <span className={`bill-type ${bill.billType}`}>
-                              {bill.billType || "other"}
+                              {(bill.billType || "other").replace("_", " ")}
                             </span>
                           </div>
                           <div className="bill-details">
                             <div className="bill-amount">
                               {formatCurrency(bill.amount, bill.currency)}
                             </div>
+                            {bill.currency &&
+                              bill.currency !== baseCurrency &&
+                              bill.baseAmount != null && (
+                                <div className="bill-converted">
+                                  ≈ {formatCurrency(bill.baseAmount, baseCurrency)}
+                                </div>
+                              )}
+                            {awaitingFxRate(bill) && (
+                              <div className="bill-converted">Awaiting FX rate</div>
+                            )}
+                            {bill.status === "partially_paid" && (
+                              <div
+                                className="bill-progress"
+                                title={(bill.payments || [])
+                                  .map((p) => `${formatDate(p.date)} ${p.description} ${formatCurrency(p.amount, baseCurrency)}`)
+                                  .join("\n")}
+                              >
+                                <span className="badge partial">Partially paid</span>
+                                {formatCurrency(bill.amountPaid ?? 0, baseCurrency)} paid,{" "}
+                                {formatCurrency(bill.remaining ?? null, baseCurrency)} left
+                              </div>
+                            )}
                             <div className="bill-due">
                               Due: {formatDate(bill.dueDate)}
                               {getDueStatus(bill.dueDate, bill.status) ===
@@ -464,6 +739,57 @@ function App() {
                                 <span className="badge due-soon">Due Soon</span>
                               )}
                             </div>
+                            {bill.billType === "credit_card" &&
+                              bill.minimumPayment != null && (
+                                <div className="bill-minimum">
+                                  Minimum payment{" "}
+                                  {formatCurrency(bill.minimumPayment, bill.currency)}
+                                  {bill.interestRate != null && (
+                                    <> · {bill.interestRate}% p.a.</>
+                                  )}
+                                </div>
+                              )}
+                            {(bill.bpayBillerCode ||
+                              bill.accountNumber ||
+                              bill.invoiceNumber ||
+                              bill.billingPeriodStart) && (
+                              <dl className="bill-references">
+                                {bill.bpayBillerCode && (
+                                  <>
+                                    <dt>BPAY</dt>
+                                    <dd>
+                                      Biller {bill.bpayBillerCode}
+                                      {bill.bpayCrn && <>, Ref {bill.bpayCrn}</>}
+                                    </dd>
+                                  </>
+                                )}
+                                {bill.accountNumber && (
+                                  <>
+                                    <dt>Account</dt>
+                                    <dd>{bill.accountNumber}</dd>
+                                  </>
+                                )}
+                                {bill.invoiceNumber && (
+                                  <>
+                                    <dt>Invoice</dt>
+                                    <dd>{bill.invoiceNumber}</dd>
+                                  </>
+                                )}
+                                {bill.billingPeriodStart && (
+                                  <>
+                                    <dt>
+                                      {bill.billType === "credit_card"
+                                        ? "Statement"
+                                        : "Period"}
+                                    </dt>
+                                    <dd>
+                                      {formatDate(bill.billingPeriodStart)} –{" "}
+                                      {formatDate(bill.billingPeriodEnd ?? null)}
+                                    </dd>
+                                  </>
+                                )}
+                              </dl>
+                            )}
                           </div>
                           <div className="bill-actions">
                             <button
@@ -472,6 +798,16 @@ function App() {
                             >
                               ✓ Mark Paid
                             </button>
+                            {bill.payUrl && (
+                              <a
+                                href={bill.payUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="btn small secondary"
+                              >
+                                Pay online
+                              </a>
+                            )}
                           </div>
                           <div className="bill-meta">
                             <span className="bill-subject">
@@ -480,6 +816,55 @@ function App() {
                             <span className="bill-confidence">
                               {bill.confidence}% confidence
                             </span>
+                            {bill.validationErrors &&
+                              bill.validationErrors.length > 0 && (
+                                <span
+                                  className="badge needs-review"
+                                  title={bill.validationErrors
+                                    .map((e) => `${e.field}: ${e.message}`)
+                                    .join("\n")}
+                                >
+                                  ⚠ Check{" "}
+                                  {bill.validationErrors
+                                    .map((e) => e.field)
+                                    .join(", ")}
+                                </span>
+                              )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {expectedBills.length > 0 && (
+                    <div className="bills expected-section">
+                      <h2>Expected Bills</h2>
+                      {expectedBills.map((expected) => (
+                        <div
+                          key={expected.billerId}
+                          className={`bill-card expected ${expected.status}`}
+                        >
+                          <div className="bill-header">
+                            <span className="bill-company">{expected.company}</span>
+                            <span className={`bill-type ${expected.billType}`}>
+                              {expected.cadence}
+                            </span>
+                          </div>
+                          <div className="bill-details">
+                            <div className="bill-amount">
+                              {expected.amountLow === expected.amountHigh
+                                ? formatCurrency(expected.amountTypical, null)
+                                : `${formatCurrency(expected.amountLow, null)}–${formatCurrency(
+                                    expected.amountHigh,
+                                    null
+                                  )}`}
+                            </div>
+                            <div className="bill-due">
+                              Expected: {formatDate(expected.expectedDate)}
+                              {expected.status === "missing" && (
+                                <span className="badge overdue">Hasn't arrived</span>
+                              )}
+                            </div>
                           </div>
                         </div>
                       ))}
@@ -528,7 +913,7 @@ function App() {
             </div>
           )}
 
-          {gmailConnected && bills.length > 0 && <Dashboard bills={bills} />}
+          {gmailConnected && bills.length > 0 && <Dashboard bills={bills} alerts={alerts} baseCurrency={baseCurrency} />}
 
           <button onClick={handleLogout} className="btn secondary logout">
             Logout
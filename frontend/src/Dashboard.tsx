@@ -15,57 +15,59 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import "./Dashboard.css";
-
-interface Bill {
-  id: string;
-  company: string | null;
-  amount: number | null;
-  currency: string | null;
-  dueDate: string | null;
-  billType: string | null;
-  status: string;
-}
+import { amountDue, awaitingFxRate, baseAmount, Bill, BillAlert, BillType } from "./types";
 
 interface DashboardProps {
   bills: Bill[];
+  alerts?: BillAlert[];
+  /** Amounts are totalled and charted in this currency */
+  baseCurrency?: string;
 }
 
-const COLORS = {
+const COLORS: Record<BillType, string> = {
   electricity: "#ffc107",
   internet: "#2196f3",
   phone: "#4caf50",
   insurance: "#f44336",
   subscription: "#9c27b0",
+  credit_card: "#ff7043",
   other: "#757575",
 };
 
-export default function Dashboard({ bills }: DashboardProps) {
+export default function Dashboard({ bills, alerts = [], baseCurrency = "AUD" }: DashboardProps) {
+  const money = (value: number) =>
+    new Intl.NumberFormat("en-AU", { style: "currency", currency: baseCurrency }).format(value);
+
   // Category spending
   const categoryData = useMemo(() => {
-    const categories: Record<string, number> = {};
+    const categories: Partial<Record<BillType, number>> = {};
     bills.forEach((bill) => {
-      if (bill.amount) {
+      const amount = baseAmount(bill);
+      if (amount) {
         const type = bill.billType || "other";
-        categories[type] = (categories[type] || 0) + bill.amount;
+        categories[type] = (categories[type] || 0) + amount;
       }
     });
-    return Object.entries(categories).map(([name, value]) => ({
-      name: name.charAt(0).toUpperCase() + name.slice(1),
-      value: Math.round(value * 100) / 100,
-      color: COLORS[name as keyof typeof COLORS] || COLORS.other,
-    }));
+    return (Object.entries(categories) as [BillType, number][]).map(
+      ([name, value]) => ({
+        name: (name.charAt(0).toUpperCase() + name.slice(1)).replace("_", " "),
+        value: Math.round(value * 100) / 100,
+        color: COLORS[name] || COLORS.other,
+      })
+    );
   }, [bills]);
 
   // Monthly spending trend
   const monthlyData = useMemo(() => {
     const months: Record<string, number> = {};
     bills.forEach((bill) => {
-      if (bill.dueDate && bill.amount) {
+      const amount = baseAmount(bill);
+      if (bill.dueDate && amount) {
         const month = new Date(bill.dueDate).toLocaleDateString("en-US", {
           month: "short",
           year: "numeric",
         });
-        months[month] = (months[month] || 0) + bill.amount;
+        months[month] = (months[month] || 0) + amount;
       }
     });
     return Object.entries(months)
@@ -80,8 +82,9 @@ export default function Dashboard({ bills }: DashboardProps) {
   const merchantData = useMemo(() => {
     const merchants: Record<string, number> = {};
     bills.forEach((bill) => {
-      if (bill.amount && bill.company) {
-        merchants[bill.company] = (merchants[bill.company] || 0) + bill.amount;
+      const amount = baseAmount(bill);
+      if (amount && bill.company) {
+        merchants[bill.company] = (merchants[bill.company] || 0) + amount;
       }
     });
     return Object.entries(merchants)
@@ -96,14 +99,19 @@ export default function Dashboard({ bills }: DashboardProps) {
   // Stats
   const stats = useMemo(() => {
     const unpaidBills = bills.filter((b) => b.status !== "paid");
-    const totalDue = unpaidBills.reduce((sum, b) => sum + (b.amount || 0), 0);
+    // What's left on partially paid bills, not their full amount
+    const totalDue = unpaidBills.reduce((sum, b) => sum + (amountDue(b) ?? 0), 0);
+    const converted = bills.filter((b) => !awaitingFxRate(b));
     const avgBill =
-      bills.length > 0
-        ? bills.reduce((sum, b) => sum + (b.amount || 0), 0) / bills.length
+      converted.length > 0
+        ? converted.reduce((sum, b) => sum + (baseAmount(b) || 0), 0) / converted.length
         : 0;
     const totalSpent = bills
       .filter((b) => b.status === "paid")
-      .reduce((sum, b) => sum + (b.amount || 0), 0);
+      .reduce((sum, b) => sum + (baseAmount(b) || 0), 0);
+    // Closing balances still owing after any payments towards them
+    const unpaidCards = unpaidBills.filter((b) => b.billType === "credit_card");
+    const cardBalance = unpaidCards.reduce((sum, b) => sum + (amountDue(b) ?? 0), 0);
 
     return {
       totalBills: bills.length,
@@ -111,6 +119,9 @@ export default function Dashboard({ bills }: DashboardProps) {
       totalDue: Math.round(totalDue * 100) / 100,
       avgBill: Math.round(avgBill * 100) / 100,
       totalSpent: Math.round(totalSpent * 100) / 100,
+      unpaidCards: unpaidCards.length,
+      cardBalance: Math.round(cardBalance * 100) / 100,
+      awaitingFxRate: bills.filter(awaitingFxRate).length,
     };
   }, [bills]);
 
@@ -137,18 +148,45 @@ export default function Dashboard({ bills }: DashboardProps) {
         </div>
         <div className="stat-card">
           <span className="stat-label">Total Due</span>
-          <span className="stat-value">${stats.totalDue}</span>
+          <span className="stat-value">{money(stats.totalDue)}</span>
+          {stats.awaitingFxRate > 0 && (
+            <span className="stat-note">
+              {stats.awaitingFxRate} {stats.awaitingFxRate === 1 ? "bill" : "bills"} awaiting FX rate
+            </span>
+          )}
         </div>
         <div className="stat-card">
           <span className="stat-label">Avg Bill</span>
-          <span className="stat-value">${stats.avgBill}</span>
+          <span className="stat-value">{money(stats.avgBill)}</span>
         </div>
         <div className="stat-card">
           <span className="stat-label">Total Spent</span>
-          <span className="stat-value success">${stats.totalSpent}</span>
+          <span className="stat-value success">{money(stats.totalSpent)}</span>
+        </div>
+        {stats.unpaidCards > 0 && (
+          <div className="stat-card">
+            <span className="stat-label">Card Balance Owing</span>
+            <span className="stat-value warning">{money(stats.cardBalance)}</span>
+          </div>
+        )}
+        <div className="stat-card">
+          <span className="stat-label">Price Alerts</span>
+          <span className={`stat-value ${alerts.length > 0 ? "warning" : ""}`}>
+            {alerts.length}
+          </span>
         </div>
       </div>
 
+      {alerts.length > 0 && (
+        <ul className="alerts-list">
+          {alerts.slice(0, 5).map((alert) => (
+            <li key={alert.id} className={`alert-item ${alert.kind}`}>
+              {alert.kind === "price_spike" ? "📈" : "🔁"} {alert.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       <div className="charts-grid">
         <div className="chart-card">
           <h3>Spending by Category</h3>
@@ -159,7 +197,7 @@ export default function Dashboard({ bills }: DashboardProps) {
                 cx="50%"
                 cy="50%"
                 labelLine={false}
-                label={(entry) => `${entry.name}: $${entry.value}`}
+                label={(entry) => `${entry.name}: ${money(entry.value)}`}
                 outerRadius={80}
                 fill="#8884d8"
                 dataKey="value"
@@ -187,7 +225,7 @@ export default function Dashboard({ bills }: DashboardProps) {
                 dataKey="total"
                 stroke="#667eea"
                 strokeWidth={2}
-                name="Total ($)"
+                name={`Total (${baseCurrency})`}
               />
             </LineChart>
           </ResponsiveContainer>
@@ -201,7 +239,7 @@ export default function Dashboard({ bills }: DashboardProps) {
               <XAxis type="number" />
               <YAxis dataKey="name" type="category" width={100} />
               <Tooltip />
-              <Bar dataKey="total" fill="#667eea" name="Total ($)" />
+              <Bar dataKey="total" fill="#667eea" name={`Total (${baseCurrency})`} />
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -214,7 +252,7 @@ export default function Dashboard({ bills }: DashboardProps) {
               <XAxis dataKey="name" />
               <YAxis />
               <Tooltip />
-              <Bar dataKey="value" name="Total ($)">
+              <Bar dataKey="value" name={`Total (${baseCurrency})`}>
                 {categoryData.map((entry, index) => (
                   <Cell key={`cell-${index}`} fill={entry.color} />
                 ))}
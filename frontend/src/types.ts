@@ -0,0 +1,127 @@
+// Mirrors backend/src/BillExtraction.ts, BillStore.ts, MatchStore.ts, RecurringBills.ts, AlertStore.ts and FxStore.ts
+
+export type BillType =
+  | "electricity"
+  | "internet"
+  | "phone"
+  | "insurance"
+  | "subscription"
+  | "credit_card"
+  | "other";
+
+// ISO-4217 codes the backend accepts
+export const CURRENCIES = [
+  "AUD", "NZD", "USD", "CAD", "GBP", "EUR", "JPY", "CNY", "HKD", "SGD",
+  "INR", "KRW", "CHF", "SEK", "NOK", "DKK", "ZAR", "THB", "IDR", "MYR", "PHP",
+] as const;
+
+export interface ValidationError {
+  field: string;
+  message: string;
+  value: unknown;
+}
+
+export interface BillPayment {
+  transactionId: string;
+  date: string;
+  description: string;
+  amount: number;
+  confidence: number | null;
+}
+
+export interface Bill {
+  id: string;
+  emailSubject: string;
+  emailFrom: string;
+  emailDate: string;
+  isBill: boolean;
+  company: string | null;
+  amount: number | null;
+  currency: string | null;
+  dueDate: string | null;
+  billType: BillType | null;
+  /** "unpaid" | "partially_paid" | "paid" */
+  status: string;
+  /** `amount` in the user's base currency, which amountPaid and remaining are in */
+  baseCurrency?: string;
+  baseAmount?: number | null;
+  fxRate?: number | null;
+  amountPaid?: number;
+  remaining?: number | null;
+  payments?: BillPayment[];
+  /** Payment references, absent on bills stored before they were extracted */
+  bpayBillerCode?: string | null;
+  bpayCrn?: string | null;
+  accountNumber?: string | null;
+  invoiceNumber?: string | null;
+  billingPeriodStart?: string | null;
+  billingPeriodEnd?: string | null;
+  payUrl?: string | null;
+  /** Credit card statements only; `amount` is the closing balance */
+  minimumPayment?: number | null;
+  interestRate?: number | null;
+  confidence: number;
+  validationErrors?: ValidationError[];
+}
+
+/**
+ * A bill's amount in the base currency, or null while a foreign bill waits
+ * for an FX rate. Bills stored before conversion have no baseAmount at all
+ * and are in the base currency.
+ */
+export const baseAmount = (bill: Bill) => (bill.baseAmount === undefined ? bill.amount : bill.baseAmount);
+
+/** A foreign bill with no rate for its day yet: left out of totals rather than added as if it were in the base currency */
+export const awaitingFxRate = (bill: Bill) => bill.amount !== null && bill.baseAmount === null;
+
+/** What's left to pay in the base currency: the rest of a partially paid bill, else its amount */
+export const amountDue = (bill: Bill) => (awaitingFxRate(bill) ? null : (bill.remaining ?? baseAmount(bill)));
+
+/** A medium-confidence match waiting for the user to accept or reject it */
+export interface PendingMatch {
+  id: string;
+  transactionId: string;
+  billId: string;
+  confidence: number;
+  match: {
+    transactionDate: string;
+    transactionDescription: string;
+    transactionAmount: number;
+    billCompany: string | null;
+    billAmount: number | null;
+    billDueDate: string | null;
+    breakdown: { explanation: string };
+  };
+  createdAt: number;
+}
+
+/** The next bill a recurring biller should send */
+export interface ExpectedBill {
+  billerId: string;
+  company: string;
+  billType: BillType | null;
+  cadence: "monthly" | "quarterly" | "annual";
+  expectedDate: string;
+  amountLow: number | null;
+  amountHigh: number | null;
+  amountTypical: number | null;
+  /** "missing" once the bill is overdue to arrive */
+  status: "expected" | "missing";
+}
+
+/** A bill well above its biller's usual amount, or a subscription price change */
+export interface BillAlert {
+  id: string;
+  kind: "price_spike" | "price_change";
+  billId: string;
+  billerId: string;
+  company: string;
+  amount: number;
+  baseline: number;
+  /** What amount and baseline are in: the bill's own currency for a price change, the base currency for a spike */
+  currency: string;
+  changePercent: number;
+  message: string;
+  createdAt: number;
+  notifiedAt: number | null;
+}
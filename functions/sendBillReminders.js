@@ -12,6 +12,39 @@ const transporter = nodemailer.createTransport({
   },
 });
 
+// Bills without a currency are in the user's base currency, AUD unless they've set one
+const DEFAULT_BASE_CURRENCY = "AUD";
+
+function formatMoney(amount, currency) {
+  if (typeof amount !== "number") return "?";
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency }).format(amount);
+}
+
+// "US$15.99 (A$25.58)" for foreign bills, "$150.00" for the rest
+function formatBillAmount(bill, baseCurrency) {
+  const currency = bill.currency || baseCurrency;
+  const amount = formatMoney(bill.amount, currency);
+  const formatted =
+    currency !== baseCurrency && typeof bill.baseAmount === "number"
+      ? `${amount} (${formatMoney(bill.baseAmount, baseCurrency)})`
+      : amount;
+  return partlyPaid(bill)
+    ? `${formatted}, ${formatMoney(bill.remaining, baseCurrency)} left`
+    : formatted;
+}
+
+function partlyPaid(bill) {
+  return bill.status === "partially_paid" && typeof bill.remaining === "number";
+}
+
+// What's still owed in the base currency: the rest of a partially paid bill,
+// else its converted amount. Bills stored before conversion have no baseAmount
+// and are in the base currency; a null one has no FX rate yet and counts as 0.
+function amountDue(bill) {
+  if (partlyPaid(bill)) return bill.remaining;
+  return bill.baseAmount === undefined ? bill.amount ?? 0 : bill.baseAmount ?? 0;
+}
+
 async function sendBillReminders(_req, res) {
   try {
     const now = new Date();
@@ -48,7 +81,16 @@ async function sendBillReminders(_req, res) {
           return dueDate >= now && dueDate <= threeDaysFromNow;
         });
 
-      if (dueSoonBills.length === 0) continue;
+      // Price alerts raised by the backend that haven't been emailed yet
+      const alertsSnapshot = await firestore
+        .collection("users")
+        .doc(uid)
+        .collection("alerts")
+        .where("notifiedAt", "==", null)
+        .get();
+      const newAlerts = alertsSnapshot.docs.map((doc) => doc.data());
+
+      if (dueSoonBills.length === 0 && newAlerts.length === 0) continue;
 
       // Get user email (you'll need to store this during auth)
       const userProfile = await firestore
@@ -59,31 +101,56 @@ async function sendBillReminders(_req, res) {
 
       const userEmail = userProfile.data().email;
 
+      const settingsDoc = await firestore
+        .collection("users")
+        .doc(uid)
+        .collection("settings")
+        .doc("currency")
+        .get();
+      const baseCurrency =
+        (settingsDoc.exists && settingsDoc.data().baseCurrency) ||
+        DEFAULT_BASE_CURRENCY;
+
       // Build email content
       const billList = dueSoonBills
         .map(
           (b) =>
-            `• ${b.company || "Unknown"}: $${b.amount?.toFixed(2) || "?"} due ${
-              b.dueDate
-            }`
+            `• ${b.company || "Unknown"}: ${formatBillAmount(
+              b,
+              baseCurrency
+            )} due ${b.dueDate}`
         )
         .join("\n");
 
-      const totalDue = dueSoonBills.reduce(
-        (sum, b) => sum + (b.amount || 0),
-        0
+      // Converted amounts, so bills in different currencies add up. Foreign
+      // bills with no FX rate yet are left out rather than added as if they
+      // were in the base currency.
+      const unconverted = dueSoonBills.filter(
+        (b) => typeof b.amount === "number" && b.baseAmount === null
       );
-
-      const mailOptions = {
-        from: process.env.EMAIL_USER,
-        to: userEmail,
-        subject: `💰 Bill Reminder: ${dueSoonBills.length} bill(s) due soon`,
-        text: `Hi there!\n\nYou have ${
-          dueSoonBills.length
-        } bill(s) due in the next 3 days:\n\n${billList}\n\nTotal: $${totalDue.toFixed(
-          2
-        )}\n\nView your bills: https://debt-dashboard-project.web.app\n\nCheers,\nBill Tracker`,
-        html: `
+      const totalDue = dueSoonBills.reduce((sum, b) => sum + amountDue(b), 0);
+      const unconvertedText =
+        unconverted.length > 0
+          ? ` (plus ${unconverted.length} bill(s) awaiting an FX rate)`
+          : "";
+
+      const alertList = newAlerts.map((a) => `• ${a.message}`).join("\n");
+
+      const dueText =
+        dueSoonBills.length > 0
+          ? `You have ${
+              dueSoonBills.length
+            } bill(s) due in the next 3 days:\n\n${billList}\n\nTotal: ${formatMoney(
+              totalDue,
+              baseCurrency
+            )}${unconvertedText}\n\n`
+          : "";
+      const alertText =
+        newAlerts.length > 0 ? `Price alerts:\n\n${alertList}\n\n` : "";
+
+      const dueHtml =
+        dueSoonBills.length > 0
+          ? `
           <h2>💰 Bills Due Soon</h2>
           <p>You have <strong>${
             dueSoonBills.length
@@ -92,13 +159,39 @@ async function sendBillReminders(_req, res) {
             ${dueSoonBills
               .map(
                 (b) =>
-                  `<li><strong>${b.company || "Unknown"}</strong>: $$${
-                    b.amount?.toFixed(2) || "?"
-                  } due ${b.dueDate}</li>`
+                  `<li><strong>${
+                    b.company || "Unknown"
+                  }</strong>: ${formatBillAmount(b, baseCurrency)} due ${
+                    b.dueDate
+                  }</li>`
               )
               .join("")}
           </ul>
-          <p><strong>Total: $${totalDue.toFixed(2)}</strong></p>
+          <p><strong>Total: ${formatMoney(
+            totalDue,
+            baseCurrency
+          )}</strong>${unconvertedText}</p>`
+          : "";
+      const alertHtml =
+        newAlerts.length > 0
+          ? `
+          <h2>📈 Price Alerts</h2>
+          <ul>
+            ${newAlerts.map((a) => `<li>${a.message}</li>`).join("")}
+          </ul>`
+          : "";
+
+      const subject =
+        dueSoonBills.length > 0
+          ? `💰 Bill Reminder: ${dueSoonBills.length} bill(s) due soon`
+          : `📈 Price Alert: ${newAlerts.length} bill(s) changed price`;
+
+      const mailOptions = {
+        from: process.env.EMAIL_USER,
+        to: userEmail,
+        subject,
+        text: `Hi there!\n\n${dueText}${alertText}View your bills: https://debt-dashboard-project.web.app\n\nCheers,\nBill Tracker`,
+        html: `${dueHtml}${alertHtml}
           <p><a href="https://debt-dashboard-project.web.app">View your bills →</a></p>
         `,
       };
@@ -106,8 +199,18 @@ async function sendBillReminders(_req, res) {
       await transporter.sendMail(mailOptions);
       remindersSent++;
       console.log(
-        `Sent reminder to ${userEmail} for ${dueSoonBills.length} bills`
+        `Sent reminder to ${userEmail} for ${dueSoonBills.length} bills and ${newAlerts.length} alerts`
       );
+
+      // Each alert is only emailed once
+      if (newAlerts.length > 0) {
+        const batch = firestore.batch();
+        const notifiedAt = Date.now();
+        for (const doc of alertsSnapshot.docs) {
+          batch.update(doc.ref, { notifiedAt });
+        }
+        await batch.commit();
+      }
     }
 
     res.json({ success: true, remindersSent });